@@ -7,16 +7,26 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
 import Dashboard from "@/pages/dashboard";
 import Clients from "@/pages/clients";
+import ClientDetail from "@/pages/client-detail";
 import Quotes from "@/pages/quotes";
+import QuoteDetail from "@/pages/quote-detail";
 import Meetings from "@/pages/meetings";
 import Documents from "@/pages/documents";
+import Proposal from "@/pages/proposal";
+import AdminUsers from "@/pages/admin-users";
+import AdminAccess from "@/pages/admin-access";
+import Security from "@/pages/security";
+import ApiTokens from "@/pages/api-tokens";
 import NotFound from "@/pages/not-found";
 import MainLayout from "@/components/layout/main-layout";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth() as { user: any; isAuthenticated: boolean; isLoading: boolean };
 
   if (isLoading || !isAuthenticated) {
     return (
@@ -24,19 +34,35 @@ function Router() {
         <Route path="/" component={Landing} />
         <Route path="/login" component={Login} />
         <Route path="/register" component={Register} />
+        <Route path="/forgot-password" component={ForgotPassword} />
         <Route component={NotFound} />
       </Switch>
     );
   }
 
+  // Nothing else is available until the organisation's 2FA requirement is met
+  if (user?.twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen bg-background flex justify-center">
+        <Security />
+      </div>
+    );
+  }
+
   return (
     <MainLayout>
       <Switch>
         <Route path="/" component={Dashboard} />
         <Route path="/clients" component={Clients} />
+        <Route path="/clients/:id" component={ClientDetail} />
         <Route path="/quotes" component={Quotes} />
+        <Route path="/quotes/:id" component={QuoteDetail} />
         <Route path="/meetings" component={Meetings} />
         <Route path="/documents" component={Documents} />
+        <Route path="/security" component={Security} />
+        <Route path="/api-tokens" component={ApiTokens} />
+        <Route path="/admin/users" component={AdminUsers} />
+        <Route path="/admin/access" component={AdminAccess} />
         <Route component={NotFound} />
       </Switch>
     </MainLayout>
@@ -48,7 +74,15 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <Switch>
+          {/* Public client pages work with or without a login */}
+          <Route path="/proposal/:token" component={Proposal} />
+          <Route path="/reset-password" component={ResetPassword} />
+          <Route path="/verify-email" component={VerifyEmail} />
+          <Route>
+            <Router />
+          </Route>
+        </Switch>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,135 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeUserAgent } from "@/lib/userAgent";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+    },
+    onSuccess: (_, session) => {
+      if (session.current) {
+        window.location.href = "/";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Success",
+        description: "Session signed out",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/auth/sessions");
+    },
+    onSuccess: () => {
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out everywhere",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSignOutEverywhere = () => {
+    if (confirm("Sign out of Opian Core on every device, including this one?")) {
+      signOutEverywhereMutation.mutate();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Devices signed in to your account. Changing your password signs them all out.</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleSignOutEverywhere}
+          disabled={signOutEverywhereMutation.isPending}
+          data-testid="button-sign-out-everywhere"
+        >
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out Everywhere
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : (
+          <Table data-testid="table-sessions">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP address</TableHead>
+                <TableHead>Last seen</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions?.map((session) => (
+                <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                  <TableCell title={session.userAgent ?? undefined}>
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{session.ipAddress ?? "Unknown"}</TableCell>
+                  <TableCell>
+                    {session.lastSeenAt ? formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true }) : "Unknown"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => signOutMutation.mutate(session)}
+                      disabled={signOutMutation.isPending}
+                      data-testid={`button-sign-out-session-${session.id}`}
+                    >
+                      Sign Out
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
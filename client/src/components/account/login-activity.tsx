@@ -0,0 +1,67 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { describeUserAgent } from "@/lib/userAgent";
+import type { LoginAttempt } from "@shared/schema";
+
+const failureReasons: Record<string, string> = {
+  unknown_user: "Unknown account",
+  invalid_password: "Wrong password",
+  invalid_code: "Wrong authentication code",
+  locked: "Account locked",
+  disabled: "Account disabled",
+  unverified: "Email not confirmed",
+};
+
+interface LoginActivityProps {
+  // Endpoint listing the attempts, e.g. /api/auth/login-attempts
+  url: string;
+}
+
+export default function LoginActivity({ url }: LoginActivityProps) {
+  const { data: attempts, isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: [url],
+  });
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted rounded animate-pulse" />;
+  }
+
+  if (!attempts?.length) {
+    return <p className="text-sm text-muted-foreground">No sign-in attempts yet.</p>;
+  }
+
+  return (
+    <Table data-testid="table-login-attempts">
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Result</TableHead>
+          <TableHead>IP address</TableHead>
+          <TableHead>Device</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {attempts.map((attempt) => (
+          <TableRow key={attempt.id} data-testid={`row-login-attempt-${attempt.id}`}>
+            <TableCell className="whitespace-nowrap">
+              {attempt.createdAt && format(new Date(attempt.createdAt), "MMM d, yyyy HH:mm")}
+            </TableCell>
+            <TableCell>
+              {attempt.succeeded ? (
+                <Badge variant="default">Signed in</Badge>
+              ) : (
+                <Badge variant="destructive">{failureReasons[attempt.reason ?? ""] ?? "Failed"}</Badge>
+              )}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{attempt.ipAddress}</TableCell>
+            <TableCell className="text-muted-foreground" title={attempt.userAgent ?? undefined}>
+              {describeUserAgent(attempt.userAgent)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
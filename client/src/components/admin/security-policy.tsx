@@ -0,0 +1,62 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SecurityPolicy as SecurityPolicySettings } from "@shared/schema";
+
+export default function SecurityPolicy() {
+  const { toast } = useToast();
+
+  const { data: policy } = useQuery<SecurityPolicySettings>({
+    queryKey: ["/api/admin/security-policy"],
+  });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (settings: SecurityPolicySettings) => {
+      await apiRequest("PUT", "/api/admin/security-policy", settings);
+    },
+    onSuccess: (_, settings) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security-policy"] });
+      // The admin may now have to set up two-factor authentication themselves
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Success",
+        description: settings.requireTwoFactor
+          ? "Everyone must now set up two-factor authentication"
+          : "Two-factor authentication is now optional",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update security policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security Policy</CardTitle>
+        <CardDescription>
+          Users who haven't set up two-factor authentication are asked to do so before they can continue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center space-x-3">
+          <Switch
+            id="requireTwoFactor"
+            checked={policy?.requireTwoFactor ?? false}
+            onCheckedChange={(checked) => updatePolicyMutation.mutate({ requireTwoFactor: checked })}
+            disabled={!policy || updatePolicyMutation.isPending}
+            data-testid="switch-require-two-factor"
+          />
+          <Label htmlFor="requireTwoFactor">Require two-factor authentication for all users</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
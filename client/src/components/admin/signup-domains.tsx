@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SignupDomain } from "@shared/schema";
+
+export default function SignupDomains() {
+  const [domain, setDomain] = useState("");
+  const { toast } = useToast();
+
+  const { data: domains } = useQuery<SignupDomain[]>({
+    queryKey: ["/api/admin/signup-domains"],
+  });
+
+  const addDomainMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/signup-domains", { domain });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/signup-domains"] });
+      setDomain("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add sign-up domain",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDomainMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/admin/signup-domains/${encodeURIComponent(name)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/signup-domains"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove sign-up domain",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-up Domains</CardTitle>
+        <CardDescription>
+          People with an email address at these domains can register without an invitation and join as consultants.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {domains?.length ? (
+          <ul className="space-y-1 text-sm">
+            {domains.map((d) => (
+              <li key={d.domain} className="flex items-center justify-between max-w-md" data-testid={`signup-domain-${d.domain}`}>
+                <span>@{d.domain}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeDomainMutation.mutate(d.domain)}
+                  disabled={removeDomainMutation.isPending}
+                  title="Remove"
+                  data-testid={`button-remove-domain-${d.domain}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Registration is by invitation only.</p>
+        )}
+        <form
+          className="flex space-x-2 max-w-md"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (domain.trim()) {
+              addDomainMutation.mutate();
+            }
+          }}
+        >
+          <Input
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="example.com"
+            data-testid="input-signup-domain"
+          />
+          <Button type="submit" disabled={addDomainMutation.isPending || !domain.trim()} data-testid="button-add-signup-domain">
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { createUserSchema, userProfileSchema, type RoleWithPermissions, type UserSummary } from "@shared/schema";
+import { DEFAULT_ROLE } from "@shared/permissions";
+import { z } from "zod";
+
+type UserFormData = z.infer<typeof createUserSchema>;
+
+interface UserFormProps {
+  user?: UserSummary;
+  onSuccess: () => void;
+}
+
+export default function UserForm({ user, onSuccess }: UserFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!user;
+
+  const { data: roles } = useQuery<RoleWithPermissions[]>({
+    queryKey: ["/api/admin/roles"],
+  });
+
+  const form = useForm<UserFormData>({
+    // Editing only changes the profile; passwords and roles have their own controls
+    resolver: zodResolver(isEditing ? userProfileSchema : createUserSchema),
+    defaultValues: {
+      email: user?.email ?? "",
+      firstName: user?.firstName ?? "",
+      lastName: user?.lastName ?? "",
+      password: "",
+      role: DEFAULT_ROLE,
+    },
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: UserFormData) => {
+      if (isEditing) {
+        const { email, firstName, lastName } = data;
+        const response = await apiRequest("PUT", `/api/admin/users/${user.id}`, { email, firstName, lastName });
+        return response.json();
+      } else {
+        const response = await apiRequest("POST", "/api/admin/users", data);
+        return response.json();
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: `User ${isEditing ? "updated" : "created"} successfully`,
+      });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || `Failed to ${isEditing ? "update" : "create"} user`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const errors = form.formState.errors;
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => saveUserMutation.mutate(data))} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="firstName">First name *</Label>
+          <Input id="firstName" {...form.register("firstName")} data-testid="input-user-first-name" />
+          {errors.firstName && <p className="text-sm text-destructive mt-1">{errors.firstName.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="lastName">Last name *</Label>
+          <Input id="lastName" {...form.register("lastName")} data-testid="input-user-last-name" />
+          {errors.lastName && <p className="text-sm text-destructive mt-1">{errors.lastName.message}</p>}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="email">Email *</Label>
+        <Input id="email" type="email" {...form.register("email")} data-testid="input-user-email" />
+        {errors.email && <p className="text-sm text-destructive mt-1">{errors.email.message}</p>}
+      </div>
+
+      {!isEditing && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="password">Initial password *</Label>
+            <Input id="password" type="password" {...form.register("password")} data-testid="input-user-password" />
+            {errors.password && <p className="text-sm text-destructive mt-1">{errors.password.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="role">Role</Label>
+            <Select value={form.watch("role")} onValueChange={(value) => form.setValue("role", value)}>
+              <SelectTrigger data-testid="select-user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles?.map((role) => (
+                  <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onSuccess}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saveUserMutation.isPending} data-testid="button-save-user">
+          {saveUserMutation.isPending ? "Saving..." : isEditing ? "Update User" : "Add User"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, MailPlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_ROLE } from "@shared/permissions";
+import type { RoleWithPermissions, UserInvite } from "@shared/schema";
+
+type PendingInvite = Omit<UserInvite, "tokenHash">;
+
+export default function UserInvites() {
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState(DEFAULT_ROLE);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: invites } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/admin/invites"],
+  });
+
+  const { data: roles } = useQuery<RoleWithPermissions[]>({
+    queryKey: ["/api/admin/roles"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/invites", { email, role });
+      return response.json() as Promise<PendingInvite & { url: string }>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+      setInviteUrl(invite.url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+      toast({
+        title: "Success",
+        description: "Invitation revoked",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeInvite = () => {
+    setIsInviteOpen(false);
+    setEmail("");
+    setRole(DEFAULT_ROLE);
+    setInviteUrl(null);
+  };
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({
+      title: "Copied",
+      description: "Invitation link copied to clipboard",
+    });
+  };
+
+  const roleName = (key: string) => roles?.find((r) => r.key === key)?.name ?? key;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Pending Invitations</CardTitle>
+          <CardDescription>Each link can be used once to register with the invited email address.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsInviteOpen(true)} data-testid="button-invite-user">
+          <MailPlus className="mr-2 h-4 w-4" />
+          Invite User
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {invites?.length ? (
+          <Table data-testid="table-invites">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invites.map((invite) => (
+                <TableRow key={invite.id} data-testid={`row-invite-${invite.id}`}>
+                  <TableCell>{invite.email}</TableCell>
+                  <TableCell>{roleName(invite.role)}</TableCell>
+                  <TableCell>{format(new Date(invite.expiresAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(invite.id)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke"
+                      data-testid={`button-revoke-invite-${invite.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No pending invitations.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={isInviteOpen} onOpenChange={(open) => !open && closeInvite()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              {inviteUrl
+                ? "Send this link to the new user. It won't be shown again."
+                : "Create a registration link for a new user."}
+            </DialogDescription>
+          </DialogHeader>
+          {inviteUrl ? (
+            <div className="flex space-x-2">
+              <Input value={inviteUrl} readOnly data-testid="input-invite-link" />
+              <Button variant="outline" onClick={copyInviteUrl} data-testid="button-copy-invite-link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="inviteEmail">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-invite-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={setRole}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles?.map((r) => (
+                      <SelectItem key={r.key} value={r.key}>{r.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={inviteMutation.isPending || !email} data-testid="button-create-invite">
+                  {inviteMutation.isPending ? "Creating..." : "Create Invitation"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
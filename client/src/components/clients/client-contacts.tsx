@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { contactRoleLabels, contactRoles, type ContactRole } from "@shared/clientProfile";
+import type { Client, ClientContact } from "@shared/schema";
+
+interface ContactFields {
+  role: ContactRole;
+  name: string;
+  email: string;
+  phone: string;
+  notes: string;
+}
+
+const emptyContact: ContactFields = { role: "spouse", name: "", email: "", phone: "", notes: "" };
+
+interface ClientContactsProps {
+  client: Client;
+}
+
+export default function ClientContacts({ client }: ClientContactsProps) {
+  const { toast } = useToast();
+  // null while closed, "new" when adding, otherwise the contact being edited
+  const [editing, setEditing] = useState<ClientContact | "new" | null>(null);
+  const [fields, setFields] = useState<ContactFields>(emptyContact);
+  const contactsQueryKey = ["/api/clients", client.id, "contacts"];
+
+  const { data: contacts, isLoading } = useQuery<ClientContact[]>({
+    queryKey: contactsQueryKey,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const openEdit = (contact: ClientContact | "new") => {
+    setFields(contact === "new" ? emptyContact : {
+      role: contact.role as ContactRole,
+      name: contact.name,
+      email: contact.email ?? "",
+      phone: contact.phone ?? "",
+      notes: contact.notes ?? "",
+    });
+    setEditing(contact);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing === "new") {
+        await apiRequest("POST", `/api/clients/${client.id}/contacts`, fields);
+      } else if (editing) {
+        await apiRequest("PUT", `/api/clients/${client.id}/contacts/${editing.id}`, fields);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactsQueryKey });
+      toast({
+        title: "Success",
+        description: editing === "new" ? "Contact added" : "Contact updated",
+      });
+      setEditing(null);
+    },
+    onError: (error) => showError(error, "Failed to save contact"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (contact: ClientContact) => {
+      await apiRequest("DELETE", `/api/clients/${client.id}/contacts/${contact.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contactsQueryKey });
+    },
+    onError: (error) => showError(error, "Failed to delete contact"),
+  });
+
+  const handleDelete = (contact: ClientContact) => {
+    if (confirm(`Remove ${contact.name} from ${client.name}'s contacts?`)) {
+      deleteMutation.mutate(contact);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted rounded animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">People to keep in the loop who aren't clients themselves.</p>
+        <Button variant="outline" size="sm" onClick={() => openEdit("new")} data-testid="button-add-contact">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Contact
+        </Button>
+      </div>
+
+      {!contacts?.length ? (
+        <p className="text-sm text-muted-foreground">No contacts yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="p-3 flex items-start justify-between gap-4" data-testid={`row-contact-${contact.id}`}>
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{contact.name}</span>
+                  <Badge variant="secondary">{contactRoleLabels[contact.role as ContactRole] ?? contact.role}</Badge>
+                </div>
+                {(contact.email || contact.phone) && (
+                  <p className="text-xs text-muted-foreground">{[contact.email, contact.phone].filter(Boolean).join(" · ")}</p>
+                )}
+                {contact.notes && <p className="text-xs text-muted-foreground">{contact.notes}</p>}
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openEdit(contact)}
+                  title="Edit"
+                  data-testid={`button-edit-contact-${contact.id}`}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(contact)}
+                  disabled={deleteMutation.isPending}
+                  title="Remove"
+                  data-testid={`button-delete-contact-${contact.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Contact" : "Edit Contact"}</DialogTitle>
+            <DialogDescription>Someone connected to {client.name}.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={fields.role} onValueChange={(role) => setFields({ ...fields, role: role as ContactRole })}>
+                <SelectTrigger data-testid="select-contact-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {contactRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{contactRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input
+                id="contact-name"
+                value={fields.name}
+                onChange={(e) => setFields({ ...fields, name: e.target.value })}
+                data-testid="input-contact-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact-email">Email</Label>
+                <Input
+                  id="contact-email"
+                  type="email"
+                  value={fields.email}
+                  onChange={(e) => setFields({ ...fields, email: e.target.value })}
+                  data-testid="input-contact-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-phone">Phone</Label>
+                <Input
+                  id="contact-phone"
+                  value={fields.phone}
+                  onChange={(e) => setFields({ ...fields, phone: e.target.value })}
+                  data-testid="input-contact-phone"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-notes">Notes</Label>
+              <Textarea
+                id="contact-notes"
+                value={fields.notes}
+                onChange={(e) => setFields({ ...fields, notes: e.target.value })}
+                data-testid="input-contact-notes"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saveMutation.isPending || !fields.name.trim()} data-testid="button-save-contact">
+                {saveMutation.isPending ? "Saving..." : "Save Contact"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
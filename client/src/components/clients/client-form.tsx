@@ -1,7 +1,8 @@
 import { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,11 +10,21 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertClientSchema, type Client, type InsertClient } from "@shared/schema";
+import { type Client } from "@shared/schema";
+import {
+  bankAccountTypes,
+  clientProfileProblems,
+  clientTypeLabels,
+  clientTypes,
+  parseSaIdNumber,
+  relatedPersonRoles,
+  type ClientType,
+} from "@shared/clientProfile";
 import { z } from "zod";
 
 // Create a custom schema for the form (excluding server-managed fields)
 const clientFormSchema = z.object({
+  clientType: z.enum(clientTypes).default("individual"),
   name: z.string().min(1, "Name is required"),
   email: z.string().optional().refine((val) => !val || z.string().email().safeParse(val).success, {
     message: "Invalid email address"
@@ -21,12 +32,62 @@ const clientFormSchema = z.object({
   phone: z.string().optional(),
   company: z.string().optional(),
   address: z.string().optional(),
+  postalAddress: z.string().optional(),
+  idNumber: z.string().optional(),
+  passportNumber: z.string().optional(),
+  dateOfBirth: z.string().optional(),
+  taxNumber: z.string().optional().refine((val) => !val || /^\d{10}$/.test(val), {
+    message: "Tax numbers have 10 digits"
+  }),
+  registrationNumber: z.string().optional(),
+  relatedPersons: z.array(z.object({
+    name: z.string().min(1, "Name is required"),
+    role: z.enum(relatedPersonRoles),
+    idNumber: z.string().optional(),
+  })),
+  bankName: z.string().optional(),
+  bankAccountHolder: z.string().optional(),
+  bankAccountNumber: z.string().optional().refine((val) => !val || /^\d{6,16}$/.test(val), {
+    message: "Account numbers have 6 to 16 digits"
+  }),
+  bankBranchCode: z.string().optional().refine((val) => !val || /^\d{6}$/.test(val), {
+    message: "Branch codes have 6 digits"
+  }),
+  bankAccountType: z.enum(bankAccountTypes).or(z.literal("")).optional(),
   notes: z.string().optional(),
   status: z.enum(["active", "prospect", "inactive"]).default("active"),
+}).superRefine((data, ctx) => {
+  for (const problem of clientProfileProblems(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: problem.path, message: problem.message });
+  }
 });
 
 type ClientFormData = z.infer<typeof clientFormSchema>;
 
+const relatedPersonRoleLabels: Record<typeof relatedPersonRoles[number], string> = {
+  director: "Director",
+  shareholder: "Shareholder",
+  member: "Member",
+  trustee: "Trustee",
+  beneficiary: "Beneficiary",
+  signatory: "Authorised signatory",
+};
+
+const bankAccountTypeLabels: Record<typeof bankAccountTypes[number], string> = {
+  cheque: "Cheque / current",
+  savings: "Savings",
+  transmission: "Transmission",
+};
+
+// Details that don't apply to the chosen client type are cleared on save
+function clientPayload(data: ClientFormData) {
+  const payload = { ...data, bankAccountType: data.bankAccountType || null };
+  if (data.clientType === "individual") {
+    return { ...payload, registrationNumber: "", relatedPersons: [] };
+  }
+  return { ...payload, idNumber: "", passportNumber: "", dateOfBirth: "" };
+}
+
 interface ClientFormProps {
   client?: Client;
   onSuccess: () => void;
@@ -39,24 +100,70 @@ export default function ClientForm({ client, onSuccess }: ClientFormProps) {
   const form = useForm<ClientFormData>({
     resolver: zodResolver(clientFormSchema),
     defaultValues: {
+      clientType: "individual",
       name: "",
       email: "",
       phone: "",
       company: "",
       address: "",
+      postalAddress: "",
+      idNumber: "",
+      passportNumber: "",
+      dateOfBirth: "",
+      taxNumber: "",
+      registrationNumber: "",
+      relatedPersons: [],
+      bankName: "",
+      bankAccountHolder: "",
+      bankAccountNumber: "",
+      bankBranchCode: "",
+      bankAccountType: "",
       notes: "",
       status: "active",
     },
   });
 
+  const { fields: relatedPersonFields, append: appendRelatedPerson, remove: removeRelatedPerson } = useFieldArray({
+    control: form.control,
+    name: "relatedPersons",
+  });
+
+  const clientType = form.watch("clientType");
+  const idNumber = form.watch("idNumber");
+  const idDetails = idNumber ? parseSaIdNumber(idNumber) : null;
+
+  // A valid ID number fills in the date of birth
+  useEffect(() => {
+    if (idDetails && !form.getValues("dateOfBirth")) {
+      form.setValue("dateOfBirth", idDetails.dateOfBirth);
+    }
+  }, [idDetails?.dateOfBirth, form]);
+
+  const fieldError = (message?: string) => message && (
+    <p className="text-sm text-destructive mt-1">{message}</p>
+  );
+
   useEffect(() => {
     if (client) {
       form.reset({
+        clientType: client.clientType as ClientType,
         name: client.name,
         email: client.email || "",
         phone: client.phone || "",
         company: client.company || "",
         address: client.address || "",
+        postalAddress: client.postalAddress || "",
+        idNumber: client.idNumber || "",
+        passportNumber: client.passportNumber || "",
+        dateOfBirth: client.dateOfBirth || "",
+        taxNumber: client.taxNumber || "",
+        registrationNumber: client.registrationNumber || "",
+        relatedPersons: (client.relatedPersons ?? []).map((person) => ({ ...person, idNumber: person.idNumber || "" })),
+        bankName: client.bankName || "",
+        bankAccountHolder: client.bankAccountHolder || "",
+        bankAccountNumber: client.bankAccountNumber || "",
+        bankBranchCode: client.bankBranchCode || "",
+        bankAccountType: (client.bankAccountType || "") as ClientFormData["bankAccountType"],
         notes: client.notes || "",
         status: client.status as "active" | "prospect" | "inactive",
       });
@@ -64,7 +171,7 @@ export default function ClientForm({ client, onSuccess }: ClientFormProps) {
   }, [client, form]);
 
   const createClientMutation = useMutation({
-    mutationFn: async (data: ClientFormData) => {
+    mutationFn: async (data: ReturnType<typeof clientPayload>) => {
       if (isEditing) {
         const response = await apiRequest("PUT", `/api/clients/${client.id}`, data);
         return response.json();
@@ -92,36 +199,81 @@ export default function ClientForm({ client, onSuccess }: ClientFormProps) {
   });
 
   const onSubmit = (data: ClientFormData) => {
-    createClientMutation.mutate(data);
+    createClientMutation.mutate(clientPayload(data));
   };
 
   return (
     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <Label htmlFor="name">Name *</Label>
+          <Label htmlFor="clientType">Client type</Label>
+          <Select
+            value={clientType}
+            onValueChange={(value) => form.setValue("clientType", value as ClientType, { shouldValidate: true })}
+          >
+            <SelectTrigger data-testid="select-client-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {clientTypes.map((type) => (
+                <SelectItem key={type} value={type}>{clientTypeLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="status">Status</Label>
+          <Select
+            value={form.watch("status")}
+            onValueChange={(value) => form.setValue("status", value as "active" | "prospect" | "inactive", { shouldValidate: true })}
+          >
+            <SelectTrigger data-testid="select-client-status">
+              <SelectValue placeholder="Select status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="prospect">Prospect</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="name">{clientType === "individual" ? "Full name *" : `${clientTypeLabels[clientType]} name *`}</Label>
           <Input
             id="name"
             {...form.register("name")}
-            placeholder="Client name"
+            placeholder={clientType === "individual" ? "Client name" : "Registered name"}
             data-testid="input-client-name"
           />
-          {form.formState.errors.name && (
-            <p className="text-sm text-destructive mt-1">
-              {form.formState.errors.name.message}
-            </p>
-          )}
+          {fieldError(form.formState.errors.name?.message)}
         </div>
 
-        <div>
-          <Label htmlFor="company">Company</Label>
-          <Input
-            id="company"
-            {...form.register("company")}
-            placeholder="Company name"
-            data-testid="input-client-company"
-          />
-        </div>
+        {clientType === "individual" ? (
+          <div>
+            <Label htmlFor="company">Company</Label>
+            <Input
+              id="company"
+              {...form.register("company")}
+              placeholder="Company name"
+              data-testid="input-client-company"
+            />
+          </div>
+        ) : (
+          <div>
+            <Label htmlFor="registrationNumber">Registration number</Label>
+            <Input
+              id="registrationNumber"
+              {...form.register("registrationNumber")}
+              placeholder={clientType === "company" ? "2015/123456/07" : "IT1234/2015"}
+              data-testid="input-client-registration-number"
+            />
+            {fieldError(form.formState.errors.registrationNumber?.message)}
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -134,11 +286,7 @@ export default function ClientForm({ client, onSuccess }: ClientFormProps) {
             placeholder="client@example.com"
             data-testid="input-client-email"
           />
-          {form.formState.errors.email && (
-            <p className="text-sm text-destructive mt-1">
-              {form.formState.errors.email.message}
-            </p>
-          )}
+          {fieldError(form.formState.errors.email?.message)}
         </div>
 
         <div>
@@ -152,35 +300,235 @@ export default function ClientForm({ client, onSuccess }: ClientFormProps) {
         </div>
       </div>
 
+      {clientType === "individual" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="idNumber">SA ID number</Label>
+            <Input
+              id="idNumber"
+              {...form.register("idNumber")}
+              placeholder="13 digits"
+              inputMode="numeric"
+              data-testid="input-client-id-number"
+            />
+            {form.formState.errors.idNumber
+              ? fieldError(form.formState.errors.idNumber.message)
+              : idDetails && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Born {idDetails.dateOfBirth} · {idDetails.gender === "female" ? "Female" : "Male"} · {idDetails.citizen ? "SA citizen" : "Permanent resident"}
+                </p>
+              )}
+          </div>
+
+          <div>
+            <Label htmlFor="passportNumber">Passport number</Label>
+            <Input
+              id="passportNumber"
+              {...form.register("passportNumber")}
+              placeholder="For clients without an SA ID"
+              data-testid="input-client-passport-number"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="dateOfBirth">Date of birth</Label>
+            <Input
+              id="dateOfBirth"
+              type="date"
+              {...form.register("dateOfBirth")}
+              data-testid="input-client-date-of-birth"
+            />
+            {fieldError(form.formState.errors.dateOfBirth?.message)}
+          </div>
+
+          <div>
+            <Label htmlFor="taxNumber">Income tax number</Label>
+            <Input
+              id="taxNumber"
+              {...form.register("taxNumber")}
+              placeholder="10 digits"
+              inputMode="numeric"
+              data-testid="input-client-tax-number"
+            />
+            {fieldError(form.formState.errors.taxNumber?.message)}
+          </div>
+        </div>
+      )}
+
+      {clientType !== "individual" && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="taxNumber">Income tax number</Label>
+              <Input
+                id="taxNumber"
+                {...form.register("taxNumber")}
+                placeholder="10 digits"
+                inputMode="numeric"
+                data-testid="input-client-tax-number"
+              />
+              {fieldError(form.formState.errors.taxNumber?.message)}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Related persons</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => appendRelatedPerson({ name: "", role: clientType === "trust" ? "trustee" : "director", idNumber: "" })}
+                data-testid="button-add-related-person"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Person
+              </Button>
+            </div>
+            {relatedPersonFields.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Add the {clientType === "trust" ? "trustees and beneficiaries" : "directors and shareholders"}.
+              </p>
+            )}
+            <div className="space-y-2">
+              {relatedPersonFields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1.5fr_auto] gap-2 items-start">
+                  <div>
+                    <Input
+                      {...form.register(`relatedPersons.${index}.name`)}
+                      placeholder="Full name"
+                      data-testid={`input-related-person-name-${index}`}
+                    />
+                    {fieldError(form.formState.errors.relatedPersons?.[index]?.name?.message)}
+                  </div>
+                  <Select
+                    value={form.watch(`relatedPersons.${index}.role`)}
+                    onValueChange={(value) => form.setValue(`relatedPersons.${index}.role`, value as typeof relatedPersonRoles[number])}
+                  >
+                    <SelectTrigger data-testid={`select-related-person-role-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {relatedPersonRoles.map((role) => (
+                        <SelectItem key={role} value={role}>{relatedPersonRoleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div>
+                    <Input
+                      {...form.register(`relatedPersons.${index}.idNumber`)}
+                      placeholder="SA ID number"
+                      inputMode="numeric"
+                      data-testid={`input-related-person-id-number-${index}`}
+                    />
+                    {fieldError(form.formState.errors.relatedPersons?.[index]?.idNumber?.message)}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRelatedPerson(index)}
+                    data-testid={`button-remove-related-person-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <Label htmlFor="status">Status</Label>
-          <Select
-            value={form.watch("status")}
-            onValueChange={(value) => form.setValue("status", value as "active" | "prospect" | "inactive", { shouldValidate: true })}
-          >
-            <SelectTrigger data-testid="select-client-status">
-              <SelectValue placeholder="Select status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="active">Active</SelectItem>
-              <SelectItem value="prospect">Prospect</SelectItem>
-              <SelectItem value="inactive">Inactive</SelectItem>
-            </SelectContent>
-          </Select>
+          <Label htmlFor="address">Physical address</Label>
+          <Textarea
+            id="address"
+            {...form.register("address")}
+            placeholder="Street address"
+            rows={3}
+            className="resize-none"
+            data-testid="textarea-client-address"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="postalAddress">Postal address</Label>
+          <Textarea
+            id="postalAddress"
+            {...form.register("postalAddress")}
+            placeholder="Leave blank if the same as the physical address"
+            rows={3}
+            className="resize-none"
+            data-testid="textarea-client-postal-address"
+          />
         </div>
       </div>
 
-      <div>
-        <Label htmlFor="address">Address</Label>
-        <Textarea
-          id="address"
-          {...form.register("address")}
-          placeholder="Client address"
-          rows={2}
-          className="resize-none"
-          data-testid="textarea-client-address"
-        />
+      <div className="space-y-4">
+        <h3 className="text-sm font-medium">Banking details</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="bankName">Bank</Label>
+            <Input
+              id="bankName"
+              {...form.register("bankName")}
+              placeholder="e.g. FNB"
+              data-testid="input-client-bank-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="bankAccountHolder">Account holder</Label>
+            <Input
+              id="bankAccountHolder"
+              {...form.register("bankAccountHolder")}
+              placeholder="Name on the account"
+              data-testid="input-client-bank-account-holder"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="bankAccountNumber">Account number</Label>
+            <Input
+              id="bankAccountNumber"
+              {...form.register("bankAccountNumber")}
+              inputMode="numeric"
+              data-testid="input-client-bank-account-number"
+            />
+            {fieldError(form.formState.errors.bankAccountNumber?.message)}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bankBranchCode">Branch code</Label>
+              <Input
+                id="bankBranchCode"
+                {...form.register("bankBranchCode")}
+                inputMode="numeric"
+                data-testid="input-client-bank-branch-code"
+              />
+              {fieldError(form.formState.errors.bankBranchCode?.message)}
+            </div>
+
+            <div>
+              <Label htmlFor="bankAccountType">Account type</Label>
+              <Select
+                value={form.watch("bankAccountType") || undefined}
+                onValueChange={(value) => form.setValue("bankAccountType", value as typeof bankAccountTypes[number])}
+              >
+                <SelectTrigger data-testid="select-client-bank-account-type">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bankAccountTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{bankAccountTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
       </div>
 
       <div>
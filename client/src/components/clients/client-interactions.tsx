@@ -0,0 +1,257 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bold, Edit, Italic, List, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import NoteText from "@/components/clients/note-text";
+import { interactionTypeLabels, interactionTypes, type InteractionType } from "@shared/interactions";
+import type { Client, ClientInteractionWithAuthor } from "@shared/schema";
+
+interface InteractionFields {
+  type: InteractionType;
+  body: string;
+  occurredAt: string; // datetime-local value; blank means now
+  followUpOn: string;
+}
+
+const emptyInteraction: InteractionFields = { type: "call", body: "", occurredAt: "", followUpOn: "" };
+
+interface ClientInteractionsProps {
+  client: Client;
+}
+
+export default function ClientInteractions({ client }: ClientInteractionsProps) {
+  const { user } = useAuth() as { user: any };
+  const { toast } = useToast();
+  const [fields, setFields] = useState<InteractionFields>(emptyInteraction);
+  const [editing, setEditing] = useState<ClientInteractionWithAuthor | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const interactionsQueryKey = ["/api/clients", client.id, "interactions"];
+
+  const { data: interactions, isLoading } = useQuery<ClientInteractionWithAuthor[]>({
+    queryKey: interactionsQueryKey,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const resetComposer = () => {
+    setEditing(null);
+    setFields(emptyInteraction);
+  };
+
+  const startEdit = (interaction: ClientInteractionWithAuthor) => {
+    setEditing(interaction);
+    setFields({
+      type: interaction.type as InteractionType,
+      body: interaction.body,
+      occurredAt: format(new Date(interaction.occurredAt), "yyyy-MM-dd'T'HH:mm"),
+      followUpOn: interaction.followUpOn ?? "",
+    });
+    bodyRef.current?.focus();
+  };
+
+  // Wraps the selected text in the textarea, e.g. in ** for bold
+  const formatSelection = (before: string, after = before) => {
+    const textarea = bodyRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const body = fields.body;
+    setFields({
+      ...fields,
+      body: body.slice(0, selectionStart) + before + body.slice(selectionStart, selectionEnd) + after + body.slice(selectionEnd),
+    });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + before.length, selectionEnd + before.length);
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        type: fields.type,
+        body: fields.body,
+        occurredAt: fields.occurredAt ? new Date(fields.occurredAt) : undefined,
+        followUpOn: fields.followUpOn,
+      };
+      if (editing) {
+        await apiRequest("PUT", `/api/clients/${client.id}/interactions/${editing.id}`, payload);
+      } else {
+        await apiRequest("POST", `/api/clients/${client.id}/interactions`, payload);
+      }
+    },
+    onSuccess: () => {
+      // Also refreshes the client's timeline
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", client.id] });
+      toast({
+        title: "Success",
+        description: editing ? "Note updated" : "Note saved",
+      });
+      resetComposer();
+    },
+    onError: (error) => showError(error, "Failed to save note"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (interaction: ClientInteractionWithAuthor) => {
+      await apiRequest("DELETE", `/api/clients/${client.id}/interactions/${interaction.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", client.id] });
+    },
+    onError: (error) => showError(error, "Failed to delete note"),
+  });
+
+  const handleDelete = (interaction: ClientInteractionWithAuthor) => {
+    if (confirm("Delete this note? It will no longer appear in the client's history.")) {
+      deleteMutation.mutate(interaction);
+    }
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={fields.type} onValueChange={(type) => setFields({ ...fields, type: type as InteractionType })}>
+              <SelectTrigger data-testid="select-interaction-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {interactionTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{interactionTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interaction-occurred-at">When</Label>
+            <Input
+              id="interaction-occurred-at"
+              type="datetime-local"
+              value={fields.occurredAt}
+              onChange={(e) => setFields({ ...fields, occurredAt: e.target.value })}
+              data-testid="input-interaction-occurred-at"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="interaction-follow-up">Follow up by</Label>
+            <Input
+              id="interaction-follow-up"
+              type="date"
+              value={fields.followUpOn}
+              onChange={(e) => setFields({ ...fields, followUpOn: e.target.value })}
+              data-testid="input-interaction-follow-up"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex space-x-1">
+            <Button type="button" variant="ghost" size="sm" onClick={() => formatSelection("**")} title="Bold">
+              <Bold className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => formatSelection("*")} title="Italic">
+              <Italic className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => formatSelection("\n- ", "")} title="List item">
+              <List className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            ref={bodyRef}
+            value={fields.body}
+            onChange={(e) => setFields({ ...fields, body: e.target.value })}
+            placeholder="What was discussed?"
+            rows={4}
+            data-testid="input-interaction-body"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          {editing && (
+            <Button type="button" variant="ghost" onClick={resetComposer} data-testid="button-cancel-interaction">
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={saveMutation.isPending || !fields.body.trim()} data-testid="button-save-interaction">
+            {saveMutation.isPending ? "Saving..." : editing ? "Update Note" : "Save Note"}
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="h-32 bg-muted rounded animate-pulse" />
+      ) : !interactions?.length ? (
+        <p className="text-sm text-muted-foreground">No notes yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {interactions.map((interaction) => (
+            <li key={interaction.id} className="p-3 space-y-2" data-testid={`row-interaction-${interaction.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant="secondary">{interactionTypeLabels[interaction.type as InteractionType] ?? interaction.type}</Badge>
+                  <span>{format(new Date(interaction.occurredAt), "MMM d, yyyy HH:mm")}</span>
+                  {interaction.authorName && <span>· {interaction.authorName}</span>}
+                  {interaction.updatedAt && interaction.createdAt && interaction.updatedAt > interaction.createdAt && <span>· edited</span>}
+                  {interaction.followUpOn && (
+                    <Badge variant={interaction.followUpOn < today ? "destructive" : "outline"}>
+                      Follow up by {format(new Date(`${interaction.followUpOn}T00:00`), "MMM d, yyyy")}
+                    </Badge>
+                  )}
+                </div>
+                {interaction.authorId === user?.id && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEdit(interaction)}
+                      title="Edit"
+                      data-testid={`button-edit-interaction-${interaction.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(interaction)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete"
+                      data-testid={`button-delete-interaction-${interaction.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <NoteText text={interaction.body} className="text-sm" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
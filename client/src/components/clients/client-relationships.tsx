@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { relationshipLabels, relationshipTypes, type RelationshipType } from "@shared/clientProfile";
+import type { Client, ClientHousehold, ClientRelationshipWithClient } from "@shared/schema";
+
+interface RelationshipsResponse {
+  relationships: ClientRelationshipWithClient[];
+  household: ClientHousehold;
+}
+
+interface LinkOption {
+  value: string;
+  type: RelationshipType;
+  outgoing: boolean;
+  label: string;
+}
+
+// Each link type read both ways, e.g. "Trustee of" and "Has trustee"; a
+// household link reads the same either way so it's offered once
+const linkOptions = relationshipTypes.flatMap((type): LinkOption[] =>
+  type === "household"
+    ? [{ value: "household:outgoing", type, outgoing: true, label: relationshipLabels[type].outgoing }]
+    : [
+        { value: `${type}:outgoing`, type, outgoing: true, label: relationshipLabels[type].outgoing },
+        { value: `${type}:incoming`, type, outgoing: false, label: relationshipLabels[type].incoming },
+      ],
+);
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+interface ClientRelationshipsProps {
+  client: Client;
+}
+
+export default function ClientRelationships({ client }: ClientRelationshipsProps) {
+  const { toast } = useToast();
+  const [adding, setAdding] = useState(false);
+  const [link, setLink] = useState(linkOptions[0].value);
+  const [relatedClientId, setRelatedClientId] = useState("");
+  const relationshipsQueryKey = ["/api/clients", client.id, "relationships"];
+
+  const { data, isLoading } = useQuery<RelationshipsResponse>({
+    queryKey: relationshipsQueryKey,
+  });
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: adding,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const option = linkOptions.find((option) => option.value === link)!;
+      await apiRequest("POST", `/api/clients/${client.id}/relationships`, {
+        type: option.type,
+        outgoing: option.outgoing,
+        relatedClientId,
+      });
+    },
+    onSuccess: () => {
+      // The other client's panel shows the same link
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      setAdding(false);
+      setRelatedClientId("");
+      toast({
+        title: "Success",
+        description: "Relationship added",
+      });
+    },
+    onError: (error) => showError(error, "Failed to add relationship"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (relationship: ClientRelationshipWithClient) => {
+      await apiRequest("DELETE", `/api/clients/${client.id}/relationships/${relationship.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    },
+    onError: (error) => showError(error, "Failed to remove relationship"),
+  });
+
+  const handleRemove = (relationship: ClientRelationshipWithClient) => {
+    const name = relationship.relatedClient?.name ?? "this client";
+    if (confirm(`Remove the link between ${client.name} and ${name}?`)) {
+      removeMutation.mutate(relationship);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-muted rounded animate-pulse" />;
+  }
+
+  const household = data?.household;
+  const relationships = data?.relationships ?? [];
+
+  return (
+    <div className="space-y-4">
+      {household && household.members.length + household.hiddenMembers > 1 && (
+        <Card data-testid="card-household">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Household invested</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-2xl font-semibold" data-testid="text-household-total">{formatAmount(household.totalInvested)}</p>
+            <ul className="text-sm space-y-1">
+              {household.members.map((member) => (
+                <li key={member.id} className="flex justify-between" data-testid={`row-household-member-${member.id}`}>
+                  <span>{member.name}</span>
+                  <span className="text-muted-foreground">{formatAmount(member.invested)}</span>
+                </li>
+              ))}
+            </ul>
+            {household.hiddenMembers > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Excludes {household.hiddenMembers} member{household.hiddenMembers === 1 ? "" : "s"} you don't have access to.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Other clients in the same household, or companies and trusts they're part of.</p>
+        {!adding && (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)} data-testid="button-add-relationship">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Link
+          </Button>
+        )}
+      </div>
+
+      {adding && (
+        <form
+          className="border rounded-md p-3 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{client.name} is</Label>
+              <Select value={link} onValueChange={setLink}>
+                <SelectTrigger data-testid="select-relationship-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={relatedClientId} onValueChange={setRelatedClientId}>
+                <SelectTrigger data-testid="select-related-client">
+                  <SelectValue placeholder="Choose a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients?.filter((other) => other.id !== client.id).map((other) => (
+                    <SelectItem key={other.id} value={other.id}>{other.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={addMutation.isPending || !relatedClientId} data-testid="button-save-relationship">
+              {addMutation.isPending ? "Adding..." : "Add Link"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {relationships.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not linked to any other clients.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {relationships.map((relationship) => (
+            <li key={relationship.id} className="p-3 flex items-center justify-between gap-4 text-sm" data-testid={`row-relationship-${relationship.id}`}>
+              <span>
+                <span className="text-muted-foreground">
+                  {relationshipLabels[relationship.type as RelationshipType]?.[relationship.direction] ?? relationship.type}
+                </span>{" "}
+                {relationship.relatedClient ? (
+                  <Link href={`/clients/${relationship.relatedClient.id}`} className="font-medium hover:underline">
+                    {relationship.relatedClient.name}
+                  </Link>
+                ) : (
+                  <span className="font-medium">a client you don't have access to</span>
+                )}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(relationship)}
+                disabled={removeMutation.isPending}
+                title="Remove"
+                data-testid={`button-remove-relationship-${relationship.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
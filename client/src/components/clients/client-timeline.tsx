@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Calendar, FileText, Flag, MessageSquare, Paperclip, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { apiRequest } from "@/lib/queryClient";
+import NoteText from "@/components/clients/note-text";
+import { timelineEventKindLabels, timelineEventKinds, type TimelineEvent, type TimelineEventKind } from "@shared/timeline";
+import type { Client } from "@shared/schema";
+
+interface TimelinePage {
+  events: TimelineEvent[];
+  nextCursor: string | null;
+}
+
+const kindIcons: Record<TimelineEventKind, LucideIcon> = {
+  quote: FileText,
+  meeting: Calendar,
+  document: Paperclip,
+  note: MessageSquare,
+  status: Flag,
+};
+
+function eventSummary(event: TimelineEvent): string {
+  switch (event.kind) {
+    case "quote":
+      return event.fromStatus ? `Quote ${event.fromStatus} → ${event.toStatus}` : "Quote created";
+    case "meeting":
+      return `Meeting ${event.toStatus}`;
+    case "document":
+      return "Document uploaded";
+    case "note":
+      return "Note";
+    case "status":
+      return event.fromStatus ? `Status ${event.fromStatus} → ${event.toStatus}` : `Client added as ${event.toStatus}`;
+  }
+}
+
+function eventLink(event: TimelineEvent): string | null {
+  return event.kind === "quote" ? `/quotes/${event.subjectId}` : null;
+}
+
+interface ClientTimelineProps {
+  client: Client;
+}
+
+export default function ClientTimeline({ client }: ClientTimelineProps) {
+  const [kinds, setKinds] = useState<TimelineEventKind[]>([...timelineEventKinds]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/clients", client.id, "timeline", kinds],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ kinds: kinds.join(",") });
+      if (pageParam) {
+        params.set("cursor", pageParam);
+      }
+      const response = await apiRequest("GET", `/api/clients/${client.id}/timeline?${params}`);
+      return response.json() as Promise<TimelinePage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Built from other records, so it goes stale whenever they change
+    staleTime: 0,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="justify-start"
+        value={kinds}
+        onValueChange={(value) => value.length > 0 && setKinds(value as TimelineEventKind[])}
+      >
+        {timelineEventKinds.map((kind) => (
+          <ToggleGroupItem key={kind} value={kind} data-testid={`toggle-timeline-${kind}`}>
+            {timelineEventKindLabels[kind]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {isLoading ? (
+        <div className="h-48 bg-muted rounded animate-pulse" />
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing has happened with this client yet.</p>
+      ) : (
+        <ol className="space-y-4" data-testid="list-timeline">
+          {events.map((event) => {
+            const Icon = kindIcons[event.kind];
+            const link = eventLink(event);
+            return (
+              <li key={event.id} className="flex gap-3" data-testid={`timeline-event-${event.id}`}>
+                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="text-sm space-y-0.5">
+                  <p>
+                    <span className="font-medium">{eventSummary(event)}</span>
+                    {" · "}
+                    {link ? (
+                      <Link href={link} className="text-primary hover:underline">{event.title}</Link>
+                    ) : (
+                      event.title
+                    )}
+                  </p>
+                  {event.detail && (event.kind === "note" ? (
+                    <NoteText text={event.detail} className="text-muted-foreground" />
+                  ) : (
+                    <p className="text-muted-foreground">{event.detail}</p>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(event.at), "MMM d, yyyy HH:mm")}
+                    {event.actorName && ` · ${event.actorName}`}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          data-testid="button-load-more-timeline"
+        >
+          {isFetchingNextPage ? "Loading..." : "Load More"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { kycChecklist, kycRequirements, type KycRequirementStatus, type KycRequirementType } from "@shared/kyc";
+import type { Client, ClientKycItemWithDocument, Document } from "@shared/schema";
+
+interface KycResponse {
+  complete: boolean;
+  items: ClientKycItemWithDocument[];
+}
+
+const statusBadges: Record<KycRequirementStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  missing: { label: "Missing", variant: "outline" },
+  pending: { label: "Awaiting verification", variant: "secondary" },
+  verified: { label: "Verified", variant: "default" },
+  expired: { label: "Expired", variant: "destructive" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+interface KycChecklistProps {
+  client: Client;
+}
+
+export default function KycChecklist({ client }: KycChecklistProps) {
+  const { user } = useAuth() as { user: any };
+  const { toast } = useToast();
+  const [adding, setAdding] = useState<KycRequirementType | null>(null);
+  const [documentId, setDocumentId] = useState("");
+  const [documentDate, setDocumentDate] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const kycQueryKey = ["/api/clients", client.id, "kyc"];
+
+  const { data: kyc, isLoading } = useQuery<KycResponse>({
+    queryKey: kycQueryKey,
+  });
+
+  const { data: documents } = useQuery<Document[]>({
+    queryKey: ["/api/documents", client.id],
+    enabled: !!adding,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const closeAdd = () => {
+    setAdding(null);
+    setDocumentId("");
+    setDocumentDate("");
+    setExpiresAt("");
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/clients/${client.id}/kyc`, {
+        requirement: adding,
+        documentId,
+        documentDate,
+        expiresAt: expiresAt || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kycQueryKey });
+      closeAdd();
+      toast({
+        title: "Success",
+        description: "Document submitted for verification",
+      });
+    },
+    onError: (error) => showError(error, "Failed to add FICA document"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ item, action, note }: { item: ClientKycItemWithDocument; action: "verify" | "reject"; note?: string }) => {
+      await apiRequest("POST", `/api/clients/${client.id}/kyc/${item.id}/${action}`, { note });
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: kycQueryKey });
+      toast({
+        title: "Success",
+        description: action === "verify" ? "Document verified" : "Document rejected",
+      });
+    },
+    onError: (error) => showError(error, "Failed to review FICA document"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (item: ClientKycItemWithDocument) => {
+      await apiRequest("DELETE", `/api/clients/${client.id}/kyc/${item.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kycQueryKey });
+    },
+    onError: (error) => showError(error, "Failed to remove FICA document"),
+  });
+
+  const handleReject = (item: ClientKycItemWithDocument) => {
+    const note = prompt("Why is this document being rejected?");
+    if (note?.trim()) {
+      reviewMutation.mutate({ item, action: "reject", note: note.trim() });
+    }
+  };
+
+  const handleRemove = (item: ClientKycItemWithDocument) => {
+    if (confirm(`Remove ${item.documentName} from the FICA checklist? The document itself is kept.`)) {
+      removeMutation.mutate(item);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-muted rounded animate-pulse" />;
+  }
+
+  const canVerify = user?.permissions?.includes("kyc.verify");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Quotes for this client can only be accepted once FICA is complete.</p>
+        {kyc?.complete ? (
+          <Badge variant="default" data-testid="badge-fica-status">FICA complete</Badge>
+        ) : (
+          <Badge variant="destructive" data-testid="badge-fica-status">FICA incomplete</Badge>
+        )}
+      </div>
+
+      <ul className="divide-y border rounded-md">
+        {kycChecklist(kyc?.items ?? []).map(({ requirement, status, item }) => (
+          <li key={requirement} className="p-3 space-y-2" data-testid={`row-kyc-${requirement}`}>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium text-sm">{kycRequirements[requirement].label}</p>
+                <p className="text-xs text-muted-foreground">{kycRequirements[requirement].description}</p>
+              </div>
+              <Badge variant={statusBadges[status].variant}>{statusBadges[status].label}</Badge>
+            </div>
+
+            {item && (
+              <div className="flex items-center justify-between gap-4 text-xs text-muted-foreground">
+                <div>
+                  <p className="text-foreground">{item.documentName}</p>
+                  <p>
+                    Dated {format(new Date(item.documentDate), "MMM d, yyyy")}
+                    {item.expiresAt && ` · valid until ${format(new Date(item.expiresAt), "MMM d, yyyy")}`}
+                  </p>
+                  {item.status === "rejected" && item.reviewNote && <p>Rejected: {item.reviewNote}</p>}
+                </div>
+                <div className="flex space-x-1">
+                  {item.status === "pending" && canVerify && item.submittedBy !== user?.id && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ item, action: "verify" })}
+                        disabled={reviewMutation.isPending}
+                        title="Verify"
+                        data-testid={`button-verify-kyc-${item.id}`}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReject(item)}
+                        disabled={reviewMutation.isPending}
+                        title="Reject"
+                        data-testid={`button-reject-kyc-${item.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(item)}
+                    disabled={removeMutation.isPending}
+                    title="Remove"
+                    data-testid={`button-remove-kyc-${item.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {status !== "verified" && status !== "pending" && (
+              <Button variant="outline" size="sm" onClick={() => setAdding(requirement)} data-testid={`button-add-kyc-${requirement}`}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Document
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={!!adding} onOpenChange={(open) => !open && closeAdd()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{adding && kycRequirements[adding].label}</DialogTitle>
+            <DialogDescription>
+              Choose a document already uploaded for {client.name}. Someone else will verify it.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Document</Label>
+              <Select value={documentId} onValueChange={setDocumentId}>
+                <SelectTrigger data-testid="select-kyc-document">
+                  <SelectValue placeholder={documents?.length === 0 ? "Upload the document on the Documents page first" : "Choose a document"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {documents?.map((document) => (
+                    <SelectItem key={document.id} value={document.id}>{document.originalName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kyc-document-date">Date on the document</Label>
+              <Input
+                id="kyc-document-date"
+                type="date"
+                value={documentDate}
+                onChange={(e) => setDocumentDate(e.target.value)}
+                data-testid="input-kyc-document-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kyc-expires-at">Expiry date (optional)</Label>
+              <Input
+                id="kyc-expires-at"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                data-testid="input-kyc-expires-at"
+              />
+              {adding && kycRequirements[adding].maxAgeMonths && (
+                <p className="text-xs text-muted-foreground">
+                  Counts for {kycRequirements[adding].maxAgeMonths} months from the date on the document.
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={addMutation.isPending || !documentId || !documentDate} data-testid="button-submit-kyc">
+                {addMutation.isPending ? "Submitting..." : "Submit for Verification"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
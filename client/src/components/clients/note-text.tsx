@@ -0,0 +1,66 @@
+import type { ReactNode } from "react";
+
+// Renders the Markdown subset interaction notes are written in: paragraphs,
+// "- " lists, **bold** and *italic*. It builds elements rather than HTML, so
+// nothing typed into a note can become markup.
+
+function inlineText(text: string): ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*|\*[^*]+\*)/g).map((part, index) => {
+    if (part.length > 4 && part.startsWith("**") && part.endsWith("**")) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.length > 2 && part.startsWith("*") && part.endsWith("*")) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+}
+
+type Block = { type: "paragraph" | "list"; lines: string[] };
+
+function noteBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  for (const line of text.split("\n")) {
+    const listItem = line.match(/^\s*[-*]\s+(.*)$/);
+    const type = listItem ? "list" : "paragraph";
+    const last = blocks[blocks.length - 1];
+    if (!line.trim()) {
+      blocks.push({ type: "paragraph", lines: [] });
+    } else if (last && last.type === type && last.lines.length > 0) {
+      last.lines.push(listItem ? listItem[1] : line);
+    } else {
+      blocks.push({ type, lines: [listItem ? listItem[1] : line] });
+    }
+  }
+  return blocks.filter((block) => block.lines.length > 0);
+}
+
+interface NoteTextProps {
+  text: string;
+  className?: string;
+}
+
+export default function NoteText({ text, className }: NoteTextProps) {
+  return (
+    <div className={`space-y-2 ${className ?? ""}`}>
+      {noteBlocks(text).map((block, index) =>
+        block.type === "list" ? (
+          <ul key={index} className="list-disc pl-5">
+            {block.lines.map((line, lineIndex) => (
+              <li key={lineIndex}>{inlineText(line)}</li>
+            ))}
+          </ul>
+        ) : (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <span key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {inlineText(line)}
+              </span>
+            ))}
+          </p>
+        ),
+      )}
+    </div>
+  );
+}
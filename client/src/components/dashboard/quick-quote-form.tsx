@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Client } from "@shared/schema";
+import type { Client, TaxRate } from "@shared/schema";
+import { calculateQuoteTotals } from "@shared/quoteTotals";
 
 interface QuickQuoteFormProps {
   clients?: Client[];
@@ -24,23 +25,25 @@ export default function QuickQuoteForm({ clients }: QuickQuoteFormProps) {
   });
   const { toast } = useToast();
 
+  const { data: taxRate } = useQuery<TaxRate | null>({
+    queryKey: ["/api/tax-rates/current"],
+  });
+
   const createQuoteMutation = useMutation({
     mutationFn: async (data: any) => {
+      const value = parseFloat(data.estimatedValue) || 0;
+      const totals = calculateQuoteTotals(
+        [{ description: data.title, quantity: 1, rate: value }],
+        taxRate ? parseFloat(taxRate.ratePercent) : 0,
+      );
       const response = await apiRequest("POST", "/api/quotes", {
         clientId: data.clientId,
         title: data.title,
         description: data.description,
-        items: [
-          {
-            description: data.title,
-            quantity: 1,
-            rate: parseFloat(data.estimatedValue) || 0,
-            amount: parseFloat(data.estimatedValue) || 0,
-          }
-        ],
-        subtotal: data.estimatedValue,
-        tax: "0",
-        total: data.estimatedValue,
+        items: totals.items,
+        subtotal: totals.subtotal.toFixed(2),
+        tax: totals.tax.toFixed(2),
+        total: totals.total.toFixed(2),
       });
       return response.json();
     },
@@ -116,7 +119,9 @@ export default function QuickQuoteForm({ clients }: QuickQuoteFormProps) {
               </Select>
             </div>
             <div>
-              <Label htmlFor="estimatedValue">Estimated Value</Label>
+              <Label htmlFor="estimatedValue">
+                Estimated Value{taxRate ? ` (excl. ${taxRate.name})` : ""}
+              </Label>
               <Input
                 id="estimatedValue"
                 type="number"
@@ -1,9 +1,10 @@
 import { useLocation } from "wouter";
-import { Bell, Plus } from "lucide-react";
+import { Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import QuoteForm from "@/components/quotes/quote-form";
+import NotificationsMenu from "@/components/layout/notifications-menu";
 
 const pageTitles = {
   "/": "Dashboard",
@@ -39,17 +40,7 @@ export default function Header() {
             )}
           </div>
           <div className="flex items-center space-x-4">
-            <Button
-              variant="outline"
-              size="sm"
-              className="relative"
-              data-testid="button-notifications"
-            >
-              <Bell className="h-4 w-4" />
-              <span className="absolute -top-1 -right-1 w-5 h-5 bg-destructive text-destructive-foreground rounded-full text-xs flex items-center justify-center">
-                3
-              </span>
-            </Button>
+            <NotificationsMenu />
             <Button
               onClick={() => setIsQuoteModalOpen(true)}
               className="bg-primary hover:bg-primary/90 text-primary-foreground"
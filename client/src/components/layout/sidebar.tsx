@@ -6,12 +6,17 @@ import {
   Calendar, 
   Folder, 
   LogOut,
-  User
+  KeyRound,
+  Code,
+  ShieldCheck,
+  User,
+  UserCog
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import OpianLogo from "@/assets/opian-logo";
 import { cn } from "@/lib/utils";
+import { DEFAULT_ROLES } from "@shared/permissions";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
@@ -21,9 +26,18 @@ const navigation = [
   { name: "Documents", href: "/documents", icon: Folder },
 ];
 
+const adminNavigation = [
+  { name: "Users", href: "/admin/users", icon: UserCog, permission: "users.manage" },
+  { name: "Access", href: "/admin/access", icon: ShieldCheck, permission: "users.manage" },
+];
+
 export default function Sidebar() {
   const [location] = useLocation();
   const { user } = useAuth() as { user: any };
+  const items = [
+    ...navigation,
+    ...adminNavigation.filter((item) => user?.permissions?.includes(item.permission)),
+  ];
 
   const handleLogout = async () => {
     try {
@@ -56,7 +70,7 @@ export default function Sidebar() {
       {/* Navigation Menu */}
       <nav className="p-4">
         <ul className="space-y-2">
-          {navigation.map((item) => {
+          {items.map((item) => {
             const Icon = item.icon;
             const isActive = location === item.href;
             
@@ -93,9 +107,31 @@ export default function Sidebar() {
                   : user?.email || "User"}
               </p>
               <p className="text-xs text-muted-foreground truncate" data-testid="text-user-role">
-                {user?.role === "admin" ? "Admin" : "Consultant"}
+                {DEFAULT_ROLES.find((role) => role.key === user?.role)?.name ?? "Consultant"}
               </p>
             </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              asChild
+              className="text-muted-foreground hover:text-foreground"
+              title="Security"
+            >
+              <Link href="/security" data-testid="link-security">
+                <KeyRound className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              asChild
+              className="text-muted-foreground hover:text-foreground"
+              title="API Tokens"
+            >
+              <Link href="/api-tokens" data-testid="link-api-tokens">
+                <Code className="h-4 w-4" />
+              </Link>
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { PlanProjections } from "@shared/investmentPlan";
+
+interface ProjectionScheduleProps {
+  quoteId: string;
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-ZA", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function ProjectionSchedule({ quoteId }: ProjectionScheduleProps) {
+  const [selectedScenario, setSelectedScenario] = useState("forecast");
+
+  const { data: projections, isLoading } = useQuery<PlanProjections>({
+    queryKey: ["/api/quotes", quoteId, "projections"],
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardHeader>
+          <div className="h-4 bg-muted rounded w-1/3"></div>
+        </CardHeader>
+        <CardContent>
+          <div className="h-48 bg-muted rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!projections) {
+    return null;
+  }
+
+  const chartConfig = Object.fromEntries(
+    projections.scenarios.map((scenario, index) => [
+      scenario.key,
+      { label: scenario.label, color: `var(--chart-${(index % 5) + 1})` },
+    ]),
+  ) satisfies ChartConfig;
+
+  // One row per plan year with each scenario's closing capital
+  const chartData = projections.scenarios[0].years.map((row) => ({
+    year: `Year ${row.year}`,
+    ...Object.fromEntries(
+      projections.scenarios.map((scenario) => [
+        scenario.key,
+        scenario.years.find((y) => y.year === row.year)?.closingCapital ?? 0,
+      ]),
+    ),
+  }));
+
+  const scenario = projections.scenarios.find((s) => s.key === selectedScenario) ?? projections.scenarios[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Income Projections</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Capital value at the end of each year under each rate of return scenario
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto" data-testid="chart-projections">
+          <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="year" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value) => formatAmount(value)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {projections.scenarios.map((s) => (
+              <Line
+                key={s.key}
+                dataKey={s.key}
+                type="monotone"
+                stroke={`var(--color-${s.key})`}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+
+        <Tabs value={scenario.key} onValueChange={setSelectedScenario}>
+          <TabsList>
+            {projections.scenarios.map((s) => (
+              <TabsTrigger key={s.key} value={s.key} data-testid={`tab-projection-${s.key}`}>
+                {s.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Table data-testid="table-projections">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Opening Capital</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead className="text-right">Dividend Income</TableHead>
+              <TableHead className="text-right">Fees Deducted</TableHead>
+              <TableHead className="text-right">Closing Capital</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scenario.years.map((row) => (
+              <TableRow key={row.year}>
+                <TableCell>{row.year}</TableCell>
+                <TableCell className="text-right">{formatAmount(row.openingCapital)}</TableCell>
+                <TableCell className="text-right">{(row.dividendRate * 100).toFixed(2)}%</TableCell>
+                <TableCell className="text-right">{formatAmount(row.dividendIncome)}</TableCell>
+                <TableCell className="text-right">{formatAmount(row.feesDeducted)}</TableCell>
+                <TableCell className="text-right font-medium">{formatAmount(row.closingCapital)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
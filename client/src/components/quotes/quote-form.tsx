@@ -7,30 +7,43 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertQuoteSchema, type Quote, type InsertQuote } from "@shared/schema";
+import {
+  insertQuoteSchema,
+  planInputsSchema,
+  quoteLineItemSchema,
+  quoteTypes,
+  type Quote,
+  type InsertQuote,
+  type PlanInputs,
+  type QuoteLineItem,
+  type TaxRate,
+} from "@shared/schema";
+import { calculateLineAmount, calculateQuoteTotals } from "@shared/quoteTotals";
+import {
+  calculatePlan,
+  planQuoteFigures,
+  DEFAULT_DIVIDEND_PERCENTS,
+  DEFAULT_SCENARIO_PERCENTS,
+} from "@shared/investmentPlan";
 import { z } from "zod";
 
-const quoteItemSchema = z.object({
-  description: z.string().min(1, "Description is required"),
-  quantity: z.number().min(1, "Quantity must be at least 1"),
-  rate: z.number().min(0, "Rate must be non-negative"),
-  amount: z.number().min(0, "Amount must be non-negative"),
-});
-
-const quoteFormSchema = insertQuoteSchema.extend({
+// Status is changed through the quote's actions, not edited here
+const quoteFormSchema = insertQuoteSchema.omit({ status: true }).extend({
   clientId: z.string().min(1, "Client is required"),
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
-  items: z.array(quoteItemSchema).min(1, "At least one item is required"),
+  items: z.array(quoteLineItemSchema).min(1, "At least one item is required"),
   subtotal: z.number(),
   tax: z.number(),
   total: z.number(),
   validUntil: z.string().optional(),
-  status: z.enum(["draft", "sent", "accepted", "rejected"]).default("draft"),
+  type: z.enum(quoteTypes).default("standard"),
+  planInputs: planInputsSchema,
 });
 
 type QuoteFormData = z.infer<typeof quoteFormSchema>;
@@ -40,6 +53,25 @@ interface QuoteFormProps {
   onSuccess: () => void;
 }
 
+const emptyItem = (): QuoteLineItem => ({
+  description: "",
+  quantity: 1,
+  rate: 0,
+  discountPercent: 0,
+  amount: 0,
+  taxExempt: false,
+});
+
+const defaultPlanInputs = (): PlanInputs => ({
+  investmentAmount: 100000,
+  sharePrice: 10,
+  boosterPercent: 10,
+  commencementDate: new Date().toISOString().split('T')[0],
+  termYears: 3,
+  dividendPercents: [...DEFAULT_DIVIDEND_PERCENTS],
+  scenarioPercents: [...DEFAULT_SCENARIO_PERCENTS],
+});
+
 export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
   const { toast } = useToast();
   const isEditing = !!quote;
@@ -48,18 +80,28 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
     queryKey: ["/api/clients"],
   });
 
+  // The server applies the tax rate in force on the quote date; this is only
+  // for the preview. Existing quotes keep the rate they were saved with.
+  const { data: taxRate } = useQuery<TaxRate | null>({
+    queryKey: ["/api/tax-rates/current"],
+  });
+  const taxRatePercent = quote?.taxRate != null
+    ? parseFloat(quote.taxRate)
+    : taxRate ? parseFloat(taxRate.ratePercent) : 0;
+
   const form = useForm<QuoteFormData>({
     resolver: zodResolver(quoteFormSchema),
     defaultValues: {
       clientId: "",
       title: "",
       description: "",
-      items: [{ description: "", quantity: 1, rate: 0, amount: 0 }],
+      items: [emptyItem()],
       subtotal: 0,
       tax: 0,
       total: 0,
       validUntil: "",
-      status: "draft",
+      type: "standard",
+      planInputs: defaultPlanInputs(),
     },
   });
 
@@ -78,35 +120,60 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
         clientId: quote.clientId,
         title: quote.title,
         description: quote.description || "",
-        items: Array.isArray(quote.items) ? quote.items : [{ description: "", quantity: 1, rate: 0, amount: 0 }],
+        items: quote.items.length > 0
+          ? quote.items.map((item) => ({ ...emptyItem(), ...item }))
+          : [emptyItem()],
         subtotal: parseFloat(quote.subtotal),
         tax: parseFloat(quote.tax),
         total: parseFloat(quote.total),
         validUntil,
-        status: quote.status as "draft" | "sent" | "accepted" | "rejected",
+        type: quote.type === "investment_plan" ? "investment_plan" : "standard",
+        planInputs: quote.planInputs
+          ? { ...defaultPlanInputs(), ...(quote.planInputs as Partial<PlanInputs>) }
+          : defaultPlanInputs(),
       });
     }
   }, [quote, form]);
 
+  // Investment plan quotes are previewed with the same engine the server uses,
+  // and their line item and totals follow the plan figures.
+  const quoteType = form.watch("type");
+  const parsedPlanInputs = planInputsSchema.safeParse(form.watch("planInputs"));
+  const planCalculation = quoteType === "investment_plan" && parsedPlanInputs.success
+    ? calculatePlan(parsedPlanInputs.data)
+    : null;
+  const planFiguresKey = planCalculation ? JSON.stringify(planQuoteFigures(planCalculation)) : "";
+
+  useEffect(() => {
+    if (!planFiguresKey) return;
+    const figures = JSON.parse(planFiguresKey) as ReturnType<typeof planQuoteFigures>;
+    form.setValue("items", figures.items);
+    form.setValue("subtotal", parseFloat(figures.subtotal));
+    form.setValue("tax", parseFloat(figures.tax));
+    form.setValue("total", parseFloat(figures.total));
+  }, [planFiguresKey, form]);
+
   const calculateTotals = () => {
-    const items = form.getValues("items");
-    const subtotal = items.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-    const tax = subtotal * 0.1; // 10% tax rate
-    const total = subtotal + tax;
-
-    form.setValue("subtotal", subtotal);
-    form.setValue("tax", tax);
-    form.setValue("total", total);
+    const totals = calculateQuoteTotals(form.getValues("items"), taxRatePercent);
+
+    form.setValue("subtotal", totals.subtotal);
+    form.setValue("tax", totals.tax);
+    form.setValue("total", totals.total);
   };
 
   const updateItemAmount = (index: number) => {
-    const quantity = form.getValues(`items.${index}.quantity`);
-    const rate = form.getValues(`items.${index}.rate`);
-    const amount = quantity * rate;
+    const amount = calculateLineAmount(form.getValues(`items.${index}`));
     form.setValue(`items.${index}.amount`, amount);
     calculateTotals();
   };
 
+  // Recalculate once the tax rate has loaded or changed
+  useEffect(() => {
+    if (quoteType === "standard") {
+      calculateTotals();
+    }
+  }, [taxRatePercent, quoteType]);
+
   const createQuoteMutation = useMutation({
     mutationFn: async (data: QuoteFormData) => {
       const payload = {
@@ -116,6 +183,7 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
         tax: data.tax.toString(),
         total: data.total.toString(),
         validUntil: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+        planInputs: data.type === "investment_plan" ? data.planInputs : null,
       };
 
       if (isEditing) {
@@ -177,20 +245,16 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
 
         <div>
           <Label htmlFor="status">Status</Label>
-          <Select
-            value={form.watch("status")}
-            onValueChange={(value) => form.setValue("status", value as "draft" | "sent" | "accepted" | "rejected")}
-          >
-            <SelectTrigger data-testid="select-quote-status">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="draft">Draft</SelectItem>
-              <SelectItem value="sent">Sent</SelectItem>
-              <SelectItem value="accepted">Accepted</SelectItem>
-              <SelectItem value="rejected">Rejected</SelectItem>
-            </SelectContent>
-          </Select>
+          <Input
+            id="status"
+            value={quote?.status ?? "draft"}
+            disabled
+            className="capitalize"
+            data-testid="input-quote-status"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Send, accept or withdraw the quote from its detail page.
+          </p>
         </div>
       </div>
 
@@ -218,6 +282,29 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
             {...form.register("validUntil")}
             data-testid="input-quote-valid-until"
           />
+          {!isEditing && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Leave blank to use the standard validity period.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="type">Quote Type</Label>
+          <Select
+            value={quoteType}
+            onValueChange={(value) => form.setValue("type", value as "standard" | "investment_plan")}
+          >
+            <SelectTrigger data-testid="select-quote-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="standard">Standard (line items)</SelectItem>
+              <SelectItem value="investment_plan">Investment Plan</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
@@ -233,117 +320,287 @@ export default function QuoteForm({ quote, onSuccess }: QuoteFormProps) {
         />
       </div>
 
-      {/* Quote Items */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <CardTitle>Quote Items</CardTitle>
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={() => append({ description: "", quantity: 1, rate: 0, amount: 0 })}
-              data-testid="button-add-quote-item"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Item
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {fields.map((field, index) => (
-              <div key={field.id} className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border border-border rounded-lg">
-                <div className="md:col-span-2">
-                  <Label htmlFor={`items.${index}.description`}>Description</Label>
-                  <Input
-                    {...form.register(`items.${index}.description`)}
-                    placeholder="Item description"
-                    data-testid={`input-quote-item-description-${index}`}
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor={`items.${index}.quantity`}>Quantity</Label>
-                  <Input
-                    type="number"
-                    min="1"
-                    {...form.register(`items.${index}.quantity`, {
-                      valueAsNumber: true,
-                      onChange: () => updateItemAmount(index),
-                    })}
-                    data-testid={`input-quote-item-quantity-${index}`}
-                  />
-                </div>
+      {quoteType === "investment_plan" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Investment Plan</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="planInputs.investmentAmount">Investment Amount</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...form.register("planInputs.investmentAmount", { valueAsNumber: true })}
+                  data-testid="input-plan-investment-amount"
+                />
+                {form.formState.errors.planInputs?.investmentAmount && (
+                  <p className="text-sm text-destructive mt-1">
+                    {form.formState.errors.planInputs.investmentAmount.message}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="planInputs.sharePrice">Share Sale Value</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...form.register("planInputs.sharePrice", { valueAsNumber: true })}
+                  data-testid="input-plan-share-price"
+                />
+              </div>
+              <div>
+                <Label htmlFor="planInputs.boosterPercent">Investment Booster (%)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...form.register("planInputs.boosterPercent", { valueAsNumber: true })}
+                  data-testid="input-plan-booster"
+                />
+              </div>
+              <div>
+                <Label htmlFor="planInputs.commencementDate">Commencement Date</Label>
+                <Input
+                  type="date"
+                  {...form.register("planInputs.commencementDate")}
+                  data-testid="input-plan-commencement-date"
+                />
+              </div>
+              <div>
+                <Label htmlFor="planInputs.termYears">Term (years)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  {...form.register("planInputs.termYears", { valueAsNumber: true })}
+                  data-testid="input-plan-term-years"
+                />
+                {form.formState.errors.planInputs?.termYears && (
+                  <p className="text-sm text-destructive mt-1">
+                    {form.formState.errors.planInputs.termYears.message}
+                  </p>
+                )}
+              </div>
+            </div>
 
-                <div>
-                  <Label htmlFor={`items.${index}.rate`}>Rate</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    {...form.register(`items.${index}.rate`, {
-                      valueAsNumber: true,
-                      onChange: () => updateItemAmount(index),
-                    })}
-                    data-testid={`input-quote-item-rate-${index}`}
-                  />
-                </div>
+            <div className="mt-4">
+              <Label>Dividend Allocation per Year (%)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-2">
+                {DEFAULT_DIVIDEND_PERCENTS.map((_, index) => (
+                  <div key={index}>
+                    <Label className="text-xs text-muted-foreground">Year {index + 1}</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      {...form.register(`planInputs.dividendPercents.${index}`, { valueAsNumber: true })}
+                      data-testid={`input-plan-dividend-${index}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
 
-                <div className="flex items-end space-x-2">
-                  <div className="flex-1">
-                    <Label>Amount</Label>
+            <div className="mt-4">
+              <Label>Rate of Return Scenarios (%)</Label>
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-4 mt-2">
+                {DEFAULT_SCENARIO_PERCENTS.map((_, index) => (
+                  <div key={index}>
+                    <Label className="text-xs text-muted-foreground">Scenario {index + 1}</Label>
                     <Input
                       type="number"
                       step="0.01"
-                      readOnly
-                      {...form.register(`items.${index}.amount`, { valueAsNumber: true })}
-                      className="bg-muted"
-                      data-testid={`input-quote-item-amount-${index}`}
+                      {...form.register(`planInputs.scenarioPercents.${index}`, { valueAsNumber: true })}
+                      data-testid={`input-plan-scenario-${index}`}
                     />
                   </div>
-                  {fields.length > 1 && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        remove(index);
-                        calculateTotals();
-                      }}
-                      data-testid={`button-remove-quote-item-${index}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  )}
+                ))}
+              </div>
+            </div>
+
+            {planCalculation && (
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm" data-testid="plan-preview">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Allocated to commutation with enhancement</span>
+                  <span className="font-medium">${planCalculation.allocatedAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Shares purchased</span>
+                  <span className="font-medium">{planCalculation.sharesPurchased}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Redemption date</span>
+                  <span className="font-medium">{planCalculation.redemptionDate}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">First year income</span>
+                  <span className="font-medium">
+                    ${planCalculation.firstYearIncome.toFixed(2)} ({(planCalculation.firstYearDividendRate * 100).toFixed(2)}%)
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Placement fee (once off)</span>
+                  <span className="font-medium">${planCalculation.placementFee.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Admin fees over term</span>
+                  <span className="font-medium">${planCalculation.totalAdminFees.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Commission over term</span>
+                  <span className="font-medium">${planCalculation.totalCommission.toFixed(2)}</span>
                 </div>
               </div>
-            ))}
-          </div>
-
-          {/* Totals */}
-          <div className="mt-6 space-y-2 max-w-md ml-auto">
-            <div className="flex justify-between">
-              <Label>Subtotal:</Label>
-              <span className="font-medium" data-testid="text-quote-subtotal">
-                ${form.watch("subtotal")}
-              </span>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Quote Items */}
+      {quoteType === "standard" && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Quote Items</CardTitle>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append(emptyItem())}
+                data-testid="button-add-quote-item"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
             </div>
-            <div className="flex justify-between">
-              <Label>Tax (10%):</Label>
-              <span className="font-medium" data-testid="text-quote-tax">
-                ${form.watch("tax")}
-              </span>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {fields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-1 md:grid-cols-6 gap-4 p-4 border border-border rounded-lg">
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`items.${index}.description`}>Description</Label>
+                    <Input
+                      {...form.register(`items.${index}.description`)}
+                      placeholder="Item description"
+                      data-testid={`input-quote-item-description-${index}`}
+                    />
+                    <div className="flex items-center space-x-2 mt-2">
+                      <Checkbox
+                        id={`items.${index}.taxExempt`}
+                        checked={!!form.watch(`items.${index}.taxExempt`)}
+                        onCheckedChange={(checked) => {
+                          form.setValue(`items.${index}.taxExempt`, checked === true);
+                          calculateTotals();
+                        }}
+                        data-testid={`checkbox-quote-item-tax-exempt-${index}`}
+                      />
+                      <Label htmlFor={`items.${index}.taxExempt`} className="text-xs text-muted-foreground">
+                        {taxRate?.name ?? "Tax"} exempt
+                      </Label>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`items.${index}.quantity`}>Quantity</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      {...form.register(`items.${index}.quantity`, {
+                        valueAsNumber: true,
+                        onChange: () => updateItemAmount(index),
+                      })}
+                      data-testid={`input-quote-item-quantity-${index}`}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`items.${index}.rate`}>Rate</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      {...form.register(`items.${index}.rate`, {
+                        valueAsNumber: true,
+                        onChange: () => updateItemAmount(index),
+                      })}
+                      data-testid={`input-quote-item-rate-${index}`}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor={`items.${index}.discountPercent`}>Discount (%)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      {...form.register(`items.${index}.discountPercent`, {
+                        valueAsNumber: true,
+                        onChange: () => updateItemAmount(index),
+                      })}
+                      data-testid={`input-quote-item-discount-${index}`}
+                    />
+                  </div>
+
+                  <div className="flex items-end space-x-2">
+                    <div className="flex-1">
+                      <Label>Amount</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        readOnly
+                        {...form.register(`items.${index}.amount`, { valueAsNumber: true })}
+                        className="bg-muted"
+                        data-testid={`input-quote-item-amount-${index}`}
+                      />
+                    </div>
+                    {fields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          remove(index);
+                          calculateTotals();
+                        }}
+                        data-testid={`button-remove-quote-item-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
             </div>
-            <div className="flex justify-between text-lg font-semibold border-t pt-2">
-              <Label>Total:</Label>
-              <span data-testid="text-quote-total">
-                ${form.watch("total")}
-              </span>
+
+            {/* Totals */}
+            <div className="mt-6 space-y-2 max-w-md ml-auto">
+              <div className="flex justify-between">
+                <Label>Subtotal:</Label>
+                <span className="font-medium" data-testid="text-quote-subtotal">
+                  ${form.watch("subtotal")}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <Label>{taxRate?.name ?? "Tax"} ({taxRatePercent}%):</Label>
+                <span className="font-medium" data-testid="text-quote-tax">
+                  ${form.watch("tax")}
+                </span>
+              </div>
+              <div className="flex justify-between text-lg font-semibold border-t pt-2">
+                <Label>Total:</Label>
+                <span data-testid="text-quote-total">
+                  ${form.watch("total")}
+                </span>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       <div className="flex justify-end space-x-4">
         <Button
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { planInputsSchema, type Quote, type QuoteRevision } from "@shared/schema";
+
+interface QuoteRevisionsProps {
+  quote: Quote;
+  onClone?: (quote: Quote) => void;
+}
+
+interface RevisionField {
+  label: string;
+  render: (snapshot: Quote) => string[];
+}
+
+const formatAmount = (value: string | number | null | undefined) =>
+  value === null || value === undefined ? "-" : `$${Number(value).toFixed(2)}`;
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? format(new Date(value), "d MMM yyyy") : "-";
+
+// Rows of the side-by-side comparison. Each renders to lines of text so
+// multi-line values such as the items compare line by line.
+const revisionFields: RevisionField[] = [
+  { label: "Title", render: (snapshot) => [snapshot.title] },
+  { label: "Description", render: (snapshot) => [snapshot.description || "-"] },
+  { label: "Type", render: (snapshot) => [snapshot.type === "investment_plan" ? "Investment Plan" : "Standard"] },
+  { label: "Status", render: (snapshot) => [snapshot.status] },
+  { label: "Valid until", render: (snapshot) => [formatDate(snapshot.validUntil)] },
+  {
+    label: "Plan inputs",
+    render: (snapshot) => {
+      const parsed = planInputsSchema.safeParse(snapshot.planInputs);
+      if (!parsed.success) {
+        return ["-"];
+      }
+      const inputs = parsed.data;
+      return [
+        `Investment ${formatAmount(inputs.investmentAmount)}`,
+        `Commencing ${inputs.commencementDate} for ${inputs.termYears} years`,
+        `Dividends ${inputs.dividendPercents.map((percent) => `${percent}%`).join(", ")}`,
+      ];
+    },
+  },
+  {
+    label: "Items",
+    render: (snapshot) =>
+      snapshot.items.map((item) => {
+        const discount = item.discountPercent ? ` less ${item.discountPercent}%` : "";
+        return `${item.description}: ${item.quantity} x ${formatAmount(item.rate)}${discount} = ${formatAmount(item.amount)}`;
+      }),
+  },
+  { label: "Subtotal", render: (snapshot) => [formatAmount(snapshot.subtotal)] },
+  {
+    label: "Tax",
+    render: (snapshot) => [`${formatAmount(snapshot.tax)}${snapshot.taxRate ? ` (${parseFloat(snapshot.taxRate)}%)` : ""}`],
+  },
+  { label: "Total", render: (snapshot) => [formatAmount(snapshot.total)] },
+];
+
+export default function QuoteRevisions({ quote, onClone }: QuoteRevisionsProps) {
+  const { toast } = useToast();
+  const [leftRevision, setLeftRevision] = useState<number | null>(null);
+  const [rightRevision, setRightRevision] = useState<number | null>(null);
+
+  const { data: revisions, isLoading } = useQuery<QuoteRevision[]>({
+    queryKey: ["/api/quotes", quote.id, "revisions"],
+  });
+
+  // Compare the previous revision with the latest by default
+  useEffect(() => {
+    if (!revisions?.length) {
+      return;
+    }
+    setRightRevision(revisions[0].revision);
+    setLeftRevision((revisions[1] ?? revisions[0]).revision);
+  }, [revisions]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest("POST", `/api/quotes/${quote.id}/revisions/${revision}/restore`);
+      return response.json();
+    },
+    onSuccess: (_, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: "Success",
+        description: `Revision ${revision} restored as the latest revision`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cloneMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest("POST", `/api/quotes/${quote.id}/revisions/${revision}/clone`);
+      return response.json();
+    },
+    onSuccess: (newQuote: Quote) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `Quote ${newQuote.quoteNumber} created from this revision`,
+      });
+      onClone?.(newQuote);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to clone revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted rounded animate-pulse" />;
+  }
+
+  if (!revisions?.length) {
+    return <p className="text-sm text-muted-foreground">No revisions recorded for this quote.</p>;
+  }
+
+  const left = revisions.find((r) => r.revision === leftRevision);
+  const right = revisions.find((r) => r.revision === rightRevision);
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void, testId: string) => (
+    <Select value={value?.toString()} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Select a revision..." />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((r) => (
+          <SelectItem key={r.revision} value={r.revision.toString()}>
+            {quote.quoteNumber} rev {r.revision}
+            {r.createdAt ? ` · ${format(new Date(r.createdAt), "d MMM yyyy HH:mm")}` : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const revisionActions = (revision: QuoteRevision | undefined, side: string) =>
+    revision && (
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => restoreMutation.mutate(revision.revision)}
+          disabled={revision.revision === quote.revision || restoreMutation.isPending}
+          data-testid={`button-restore-revision-${side}`}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Restore
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => cloneMutation.mutate(revision.revision)}
+          disabled={cloneMutation.isPending}
+          data-testid={`button-clone-revision-${side}`}
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          Clone as new quote
+        </Button>
+      </div>
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 items-end">
+        <div />
+        <div className="space-y-2">
+          <Label>Compare</Label>
+          {revisionSelect(leftRevision, setLeftRevision, "select-revision-left")}
+        </div>
+        <div className="space-y-2">
+          <Label>With</Label>
+          {revisionSelect(rightRevision, setRightRevision, "select-revision-right")}
+        </div>
+      </div>
+
+      <div className="border rounded-md divide-y text-sm" data-testid="table-revision-diff">
+        {revisionFields.map((field) => {
+          const leftLines = left ? field.render(left.snapshot) : [];
+          const rightLines = right ? field.render(right.snapshot) : [];
+          const changed = leftLines.join("\n") !== rightLines.join("\n");
+          return (
+            <div
+              key={field.label}
+              className={`grid grid-cols-[8rem_1fr_1fr] gap-4 px-3 py-2 ${changed ? "bg-accent/40" : ""}`}
+            >
+              <span className="font-medium text-muted-foreground">{field.label}</span>
+              {[leftLines, rightLines].map((lines, column) => {
+                const other = column === 0 ? rightLines : leftLines;
+                return (
+                  <div key={column} className="space-y-1">
+                    {lines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={line !== other[index] ? (column === 0 ? "text-destructive" : "text-primary font-medium") : ""}
+                      >
+                        {line}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-4">
+        <div />
+        {revisionActions(left, "left")}
+        {revisionActions(right, "right")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// A short description of a browser's user agent string, e.g. "Chrome on Windows".
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const platforms: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? "Unknown device";
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ADMIN_ROLE, permissionLabels, permissions, type Permission } from "@shared/permissions";
+import type { Branch, RoleWithPermissions, UserAccess, UserSummary } from "@shared/schema";
+
+// Select items can't have an empty value
+const NONE = "none";
+
+export default function AdminAccess() {
+  const [branchName, setBranchName] = useState("");
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth() as { user: any };
+  const canEditRoles = !!currentUser?.platformAdmin;
+
+  const { data: users, isLoading } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: roles } = useQuery<RoleWithPermissions[]>({
+    queryKey: ["/api/admin/roles"],
+  });
+
+  const { data: branches } = useQuery<Branch[]>({
+    queryKey: ["/api/admin/branches"],
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateAccessMutation = useMutation({
+    mutationFn: async ({ id, access }: { id: string; access: UserAccess }) => {
+      await apiRequest("PUT", `/api/admin/users/${id}/access`, access);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "User access updated",
+      });
+    },
+    onError: (error) => showError(error, "Failed to update user access"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ key, permissions }: { key: string; permissions: Permission[] }) => {
+      await apiRequest("PUT", `/api/admin/roles/${key}/permissions`, { permissions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    },
+    onError: (error) => showError(error, "Failed to update role permissions"),
+  });
+
+  const createBranchMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", "/api/admin/branches", { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/branches"] });
+      setBranchName("");
+      toast({
+        title: "Success",
+        description: "Branch created",
+      });
+    },
+    onError: (error) => showError(error, "Failed to create branch"),
+  });
+
+  const updateAccess = (user: UserSummary, changes: Partial<UserAccess>) => {
+    updateAccessMutation.mutate({
+      id: user.id,
+      access: {
+        role: user.role,
+        branchId: user.branchId,
+        actsForUserId: user.actsForUserId,
+        ...changes,
+      },
+    });
+  };
+
+  const togglePermission = (role: RoleWithPermissions, permission: Permission, granted: boolean) => {
+    updateRoleMutation.mutate({
+      key: role.key,
+      permissions: granted
+        ? [...role.permissions, permission]
+        : role.permissions.filter((p) => p !== permission),
+    });
+  };
+
+  const userName = (user: UserSummary) => `${user.firstName} ${user.lastName}`;
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold mb-6">Access</h1>
+        <div className="h-64 bg-muted rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-semibold text-foreground">Access</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Branch managers see the records of everyone in their branch. Assistants work on behalf of the consultant
+            they are assigned to.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table data-testid="table-user-access">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead>Works for</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((user) => (
+                <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                  <TableCell className="font-medium">{userName(user)}</TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => updateAccess(user, { role })}
+                      disabled={updateAccessMutation.isPending}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-role-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles?.map((role) => (
+                          <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.branchId ?? NONE}
+                      onValueChange={(value) => updateAccess(user, { branchId: value === NONE ? null : value })}
+                      disabled={updateAccessMutation.isPending}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-branch-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No branch</SelectItem>
+                        {branches?.map((branch) => (
+                          <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.actsForUserId ?? NONE}
+                      onValueChange={(value) => updateAccess(user, { actsForUserId: value === NONE ? null : value })}
+                      disabled={updateAccessMutation.isPending}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-acts-for-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Nobody</SelectItem>
+                        {users
+                          .filter((other) => other.id !== user.id)
+                          .map((other) => (
+                            <SelectItem key={other.id} value={other.id}>{userName(other)}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Role Permissions</CardTitle>
+          <CardDescription>
+            Without a record permission, users only work with their own clients. Admins always have every permission.
+            {!canEditRoles && " Roles are shared by every organisation, so only a platform admin can change them."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table data-testid="table-role-permissions">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {roles?.map((role) => (
+                  <TableHead key={role.key} className="text-center">{role.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {permissions.map((permission) => (
+                <TableRow key={permission}>
+                  <TableCell>{permissionLabels[permission]}</TableCell>
+                  {roles?.map((role) => (
+                    <TableCell key={role.key} className="text-center">
+                      <Checkbox
+                        checked={role.key === ADMIN_ROLE || role.permissions.includes(permission)}
+                        disabled={!canEditRoles || role.key === ADMIN_ROLE || updateRoleMutation.isPending}
+                        onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                        data-testid={`checkbox-${role.key}-${permission}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Branches</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {branches?.length ? (
+            <ul className="space-y-1 text-sm">
+              {branches.map((branch) => (
+                <li key={branch.id} data-testid={`branch-${branch.id}`}>
+                  {branch.name}
+                  <span className="text-muted-foreground">
+                    {" "}· {users?.filter((user) => user.branchId === branch.id).length ?? 0} member(s)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No branches yet.</p>
+          )}
+          <form
+            className="flex space-x-2 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (branchName.trim()) {
+                createBranchMutation.mutate(branchName.trim());
+              }
+            }}
+          >
+            <Input
+              value={branchName}
+              onChange={(e) => setBranchName(e.target.value)}
+              placeholder="Branch name"
+              data-testid="input-branch-name"
+            />
+            <Button type="submit" disabled={createBranchMutation.isPending || !branchName.trim()} data-testid="button-add-branch">
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
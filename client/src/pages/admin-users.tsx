@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Edit, History, KeyRound, LockOpen, Plus, ShieldOff, UserCheck, UserX, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import UserForm from "@/components/admin/user-form";
+import UserInvites from "@/components/admin/user-invites";
+import SignupDomains from "@/components/admin/signup-domains";
+import SecurityPolicy from "@/components/admin/security-policy";
+import LoginActivity from "@/components/account/login-activity";
+import { PASSWORD_MIN_LENGTH } from "@shared/passwordPolicy";
+import type { RoleWithPermissions, UserSummary } from "@shared/schema";
+
+export default function AdminUsers() {
+  const { user: currentUser } = useAuth() as { user: any };
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<UserSummary | null>(null);
+  const [passwordUser, setPasswordUser] = useState<UserSummary | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [reassigningUser, setReassigningUser] = useState<UserSummary | null>(null);
+  const [successorId, setSuccessorId] = useState("");
+  const [activityUser, setActivityUser] = useState<UserSummary | null>(null);
+  const { toast } = useToast();
+
+  const { data: users, isLoading } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: roles } = useQuery<RoleWithPermissions[]>({
+    queryKey: ["/api/admin/roles"],
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      await apiRequest("POST", `/api/admin/users/${id}/${active ? "activate" : "deactivate"}`);
+    },
+    onSuccess: (_, { active }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: active ? "User enabled" : "User disabled and signed out",
+      });
+    },
+    onError: (error) => showError(error, "Failed to change user status"),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) => {
+      await apiRequest("POST", `/api/admin/users/${id}/password`, { password });
+    },
+    onSuccess: () => {
+      setPasswordUser(null);
+      setNewPassword("");
+      toast({
+        title: "Success",
+        description: "Password reset",
+      });
+    },
+    onError: (error) => showError(error, "Failed to reset password"),
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "User unlocked",
+      });
+    },
+    onError: (error) => showError(error, "Failed to unlock user"),
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/users/${id}/reset-two-factor`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset",
+      });
+    },
+    onError: (error) => showError(error, "Failed to reset two-factor authentication"),
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: async ({ id, toUserId }: { id: string; toUserId: string }) => {
+      const response = await apiRequest("POST", `/api/admin/users/${id}/reassign`, { toUserId });
+      return response.json() as Promise<{ clients: number; quotes: number; meetings: number }>;
+    },
+    onSuccess: (moved) => {
+      setReassigningUser(null);
+      setSuccessorId("");
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/meetings"] });
+      toast({
+        title: "Success",
+        description: `Moved ${moved.clients} client(s), ${moved.quotes} quote(s) and ${moved.meetings} meeting(s)`,
+      });
+    },
+    onError: (error) => showError(error, "Failed to reassign records"),
+  });
+
+  const handleSetActive = (user: UserSummary, active: boolean) => {
+    if (active || confirm(`Disable ${userName(user)}? They will be signed out immediately.`)) {
+      setActiveMutation.mutate({ id: user.id, active });
+    }
+  };
+
+  const handleResetTwoFactor = (user: UserSummary) => {
+    if (confirm(`Reset two-factor authentication for ${userName(user)}? Their authenticator app and recovery codes will stop working.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
+  const isLocked = (user: UserSummary) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const userName = (user: UserSummary) => `${user.firstName} ${user.lastName}`;
+
+  const roleName = (key: string) => roles?.find((role) => role.key === key)?.name ?? key;
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold mb-6">Users</h1>
+        <div className="h-64 bg-muted rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-foreground">Users</h1>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-add-user">
+          <Plus className="mr-2 h-4 w-4" />
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table data-testid="table-users">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>2FA</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((user) => (
+                <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                  <TableCell className="font-medium">{userName(user)}</TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>{roleName(user.role)}</TableCell>
+                  <TableCell>
+                    {user.totpEnabledAt ? <Badge variant="default">On</Badge> : <Badge variant="outline">Off</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {isLocked(user) ? (
+                      <Badge variant="destructive">
+                        Locked until {format(new Date(user.lockedUntil!), "HH:mm")}
+                      </Badge>
+                    ) : user.isActive ? (
+                      <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        Disabled{user.deactivatedAt && ` ${format(new Date(user.deactivatedAt), "MMM d, yyyy")}`}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingUser(user)}
+                      title="Edit"
+                      data-testid={`button-edit-user-${user.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPasswordUser(user)}
+                      title="Reset password"
+                      data-testid={`button-reset-password-${user.id}`}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReassigningUser(user)}
+                      title="Reassign records"
+                      data-testid={`button-reassign-user-${user.id}`}
+                    >
+                      <Users className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setActivityUser(user)}
+                      title="Sign-in activity"
+                      data-testid={`button-login-activity-${user.id}`}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {isLocked(user) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => unlockMutation.mutate(user.id)}
+                        disabled={unlockMutation.isPending}
+                        title="Unlock"
+                        data-testid={`button-unlock-user-${user.id}`}
+                      >
+                        <LockOpen className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {user.totpEnabledAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleResetTwoFactor(user)}
+                        disabled={resetTwoFactorMutation.isPending}
+                        title="Reset two-factor authentication"
+                        data-testid={`button-reset-two-factor-${user.id}`}
+                      >
+                        <ShieldOff className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {user.id !== currentUser?.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleSetActive(user, !user.isActive)}
+                        disabled={setActiveMutation.isPending}
+                        title={user.isActive ? "Disable" : "Enable"}
+                        data-testid={`button-toggle-user-${user.id}`}
+                      >
+                        {user.isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <SecurityPolicy />
+
+      <UserInvites />
+
+      <SignupDomains />
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+          </DialogHeader>
+          <UserForm onSuccess={() => setIsCreateOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+          </DialogHeader>
+          {editingUser && <UserForm user={editingUser} onSuccess={() => setEditingUser(null)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordUser} onOpenChange={() => { setPasswordUser(null); setNewPassword(""); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              {passwordUser && `${userName(passwordUser)} will be signed out everywhere and must use the new password.`}
+              {` Use at least ${PASSWORD_MIN_LENGTH} characters mixing letters, numbers and symbols.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              data-testid="input-new-password"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => passwordUser && resetPasswordMutation.mutate({ id: passwordUser.id, password: newPassword })}
+              disabled={resetPasswordMutation.isPending || newPassword.length < PASSWORD_MIN_LENGTH}
+              data-testid="button-confirm-reset-password"
+            >
+              {resetPasswordMutation.isPending ? "Saving..." : "Reset Password"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reassigningUser} onOpenChange={() => { setReassigningUser(null); setSuccessorId(""); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reassign Records</DialogTitle>
+            <DialogDescription>
+              {reassigningUser && `Move every client, quote and meeting owned by ${userName(reassigningUser)} to:`}
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={successorId} onValueChange={setSuccessorId}>
+            <SelectTrigger data-testid="select-successor">
+              <SelectValue placeholder="Choose a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {users
+                ?.filter((user) => user.isActive && user.id !== reassigningUser?.id)
+                .map((user) => (
+                  <SelectItem key={user.id} value={user.id}>{userName(user)}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => reassigningUser && reassignMutation.mutate({ id: reassigningUser.id, toUserId: successorId })}
+              disabled={reassignMutation.isPending || !successorId}
+              data-testid="button-confirm-reassign"
+            >
+              {reassignMutation.isPending ? "Moving..." : "Reassign"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!activityUser} onOpenChange={() => setActivityUser(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Sign-in Activity</DialogTitle>
+            <DialogDescription>
+              {activityUser && `Recent sign-in attempts for ${userName(activityUser)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {activityUser && <LoginActivity url={`/api/admin/users/${activityUser.id}/login-attempts`} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
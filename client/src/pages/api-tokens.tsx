@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  apiTokenResourceLabels,
+  apiTokenResources,
+  type ApiTokenResource,
+  type ApiTokenScope,
+} from "@shared/permissions";
+import type { ApiTokenSummary } from "@shared/schema";
+
+type ResourceAccess = "none" | "read" | "write";
+
+const expiryOptions = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+const noAccess = Object.fromEntries(apiTokenResources.map((resource) => [resource, "none"])) as Record<ApiTokenResource, ResourceAccess>;
+
+export default function ApiTokens() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [access, setAccess] = useState(noAccess);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/auth/api-tokens"],
+  });
+
+  const scopes = apiTokenResources
+    .filter((resource) => access[resource] !== "none")
+    .map((resource) => `${resource}:${access[resource]}` as ApiTokenScope);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/api-tokens", { name, scopes, expiresInDays });
+      return response.json() as Promise<ApiTokenSummary & { token: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/api-tokens"] });
+      setCreateOpen(false);
+      setName("");
+      setAccess(noAccess);
+      setCreatedToken(result.token);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/api-tokens"] });
+      toast({
+        title: "Success",
+        description: "API token revoked",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevoke = (token: ApiTokenSummary) => {
+    if (confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      revokeMutation.mutate(token.id);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Copied",
+      description: "API token copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <h1 className="text-2xl font-semibold text-foreground">API Tokens</h1>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Personal API Tokens</CardTitle>
+            <CardDescription>
+              Scripts and reporting tools send a token as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+              A token can do no more than your role allows, and can't manage user accounts,
+              invitations or security settings.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setCreateOpen(true)} data-testid="button-new-api-token">
+            <Plus className="mr-2 h-4 w-4" />
+            New Token
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse" />
+          ) : !tokens?.length ? (
+            <p className="text-sm text-muted-foreground">You don't have any API tokens.</p>
+          ) : (
+            <Table data-testid="table-api-tokens">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => {
+                  const expired = new Date(token.expiresAt) <= new Date();
+                  return (
+                    <TableRow key={token.id} data-testid={`row-api-token-${token.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{token.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {token.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {expired ? (
+                          <Badge variant="destructive">Expired</Badge>
+                        ) : (
+                          format(new Date(token.expiresAt), "MMM d, yyyy")
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {token.lastUsedAt ? (
+                          <span title={token.lastUsedIp ?? undefined}>
+                            {formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}
+                          </span>
+                        ) : (
+                          "Never"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(token)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`button-revoke-api-token-${token.id}`}
+                        >
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>Give the token only the access your script needs.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Monthly reporting export"
+                maxLength={100}
+                data-testid="input-api-token-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                <SelectTrigger data-testid="select-api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="space-y-2">
+                {apiTokenResources.map((resource) => (
+                  <div key={resource} className="flex items-center justify-between">
+                    <span className="text-sm">{apiTokenResourceLabels[resource]}</span>
+                    <Select
+                      value={access[resource]}
+                      onValueChange={(value) => setAccess({ ...access, [resource]: value as ResourceAccess })}
+                    >
+                      <SelectTrigger className="w-40" data-testid={`select-api-token-scope-${resource}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No access</SelectItem>
+                        <SelectItem value="read">Read</SelectItem>
+                        <SelectItem value="write">Read and write</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+                data-testid="button-create-api-token"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdToken} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Copy Your API Token</DialogTitle>
+            <DialogDescription>
+              Store it somewhere safe, such as your script's secret settings. It won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block font-mono text-sm break-all rounded border bg-muted p-3" data-testid="text-api-token">
+            {createdToken}
+          </code>
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={copyToken} data-testid="button-copy-api-token">
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button onClick={() => setCreatedToken(null)} data-testid="button-close-api-token">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
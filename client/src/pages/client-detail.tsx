@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Edit } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ClientForm from "@/components/clients/client-form";
+import ClientTimeline from "@/components/clients/client-timeline";
+import ClientInteractions from "@/components/clients/client-interactions";
+import ClientRelationships from "@/components/clients/client-relationships";
+import ClientContacts from "@/components/clients/client-contacts";
+import KycChecklist from "@/components/clients/kyc-checklist";
+import { clientTypeLabels, type ClientType } from "@shared/clientProfile";
+import type { Client } from "@shared/schema";
+
+export default function ClientDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const { data: client, isLoading } = useQuery<Client>({
+    queryKey: ["/api/clients", id],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-4">
+        <div className="h-8 bg-muted rounded w-1/3 animate-pulse" />
+        <div className="h-64 bg-muted rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="p-6">
+        <p className="text-muted-foreground">Client not found.</p>
+        <Link href="/clients" className="text-primary hover:underline">Back to clients</Link>
+      </div>
+    );
+  }
+
+  const details = [
+    { label: "Email", value: client.email },
+    { label: "Phone", value: client.phone },
+    { label: "Company", value: client.company },
+    { label: "Address", value: client.address },
+  ].filter((detail) => detail.value);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Link href="/clients">
+            <Button variant="ghost" size="sm" data-testid="button-back-to-clients">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground" data-testid="text-client-name">{client.name}</h1>
+            <div className="flex items-center gap-2 mt-1">
+              <Badge variant="outline">{clientTypeLabels[client.clientType as ClientType] ?? client.clientType}</Badge>
+              <Badge variant="secondary" data-testid="badge-client-status">{client.status}</Badge>
+            </div>
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => setIsEditOpen(true)} data-testid="button-edit-client">
+          <Edit className="mr-2 h-4 w-4" />
+          Edit
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClientInteractions client={client} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClientTimeline client={client} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {details.length === 0 ? (
+                <p className="text-muted-foreground">No contact details.</p>
+              ) : (
+                details.map((detail) => (
+                  <div key={detail.label}>
+                    <p className="text-xs text-muted-foreground">{detail.label}</p>
+                    <p className="whitespace-pre-line">{detail.value}</p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Relationships</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClientRelationships client={client} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Contacts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClientContacts client={client} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>FICA</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <KycChecklist client={client} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Client</DialogTitle>
+            <p className="text-sm text-muted-foreground">Update client information and settings.</p>
+          </DialogHeader>
+          <ClientForm client={client} onSuccess={() => setIsEditOpen(false)} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Search, Edit, Trash2, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,12 +10,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import ClientForm from "@/components/clients/client-form";
+import KycChecklist from "@/components/clients/kyc-checklist";
 import type { Client } from "@shared/schema";
 
 export default function Clients() {
   const [searchQuery, setSearchQuery] = useState("");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [kycClient, setKycClient] = useState<Client | null>(null);
   const { toast } = useToast();
 
   const { data: clients, isLoading } = useQuery<Client[]>({
@@ -108,7 +111,7 @@ export default function Clients() {
               Add Client
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add New Client</DialogTitle>
               <p className="text-sm text-muted-foreground">Create a new client profile to manage their information and projects.</p>
@@ -155,7 +158,9 @@ export default function Clients() {
                       {client.name.split(' ').map(n => n[0]).join('').slice(0, 2).toUpperCase()}
                     </div>
                     <div>
-                      <CardTitle className="text-base" data-testid={`text-client-name-${client.id}`}>{client.name}</CardTitle>
+                      <CardTitle className="text-base" data-testid={`text-client-name-${client.id}`}>
+                        <Link href={`/clients/${client.id}`} className="hover:underline">{client.name}</Link>
+                      </CardTitle>
                       {client.company && (
                         <p className="text-xs text-muted-foreground" data-testid={`text-client-company-${client.id}`}>
                           {client.company}
@@ -183,6 +188,15 @@ export default function Clients() {
                   )}
                 </div>
                 <div className="flex justify-end space-x-2 mt-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setKycClient(client)}
+                    title="FICA checklist"
+                    data-testid={`button-kyc-client-${client.id}`}
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -209,7 +223,7 @@ export default function Clients() {
 
       {/* Edit Client Dialog */}
       <Dialog open={!!editingClient} onOpenChange={() => setEditingClient(null)}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Client</DialogTitle>
             <p className="text-sm text-muted-foreground">Update client information and settings.</p>
@@ -222,6 +236,16 @@ export default function Clients() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* FICA Checklist Dialog */}
+      <Dialog open={!!kycClient} onOpenChange={() => setKycClient(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>FICA Checklist{kycClient && ` for ${kycClient.name}`}</DialogTitle>
+          </DialogHeader>
+          {kycClient && <KycChecklist client={kycClient} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
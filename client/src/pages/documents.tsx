@@ -63,6 +63,8 @@ export default function Documents() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedClientId] });
+      // Deleting a document also takes it off the client's FICA checklist
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", selectedClientId, "kyc"] });
       toast({
         title: "Success",
         description: "Document deleted successfully",
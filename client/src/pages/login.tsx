@@ -4,18 +4,41 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Link } from "wouter";
 import OpianLogo from "@/assets/opian-logo";
 import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+interface SignInMethods {
+  local: boolean;
+  providers: { key: string; name: string }[];
+}
 
 export default function Login() {
+  // Sign-in through an external provider comes back here with ?error= or ?two-factor=1
+  const [params] = useState(() => new URLSearchParams(window.location.search));
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  const [error, setError] = useState(params.get("error") ?? "");
   const [loading, setLoading] = useState(false);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(params.get("two-factor") === "1");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
   const queryClient = useQueryClient();
 
+  const { data: signInMethods } = useQuery<SignInMethods>({
+    queryKey: ["/api/auth/providers"],
+  });
+  const localAuth = signInMethods?.local ?? true;
+
+  const signedIn = async () => {
+    // Invalidate auth query to trigger re-fetch
+    await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    // Redirect will happen automatically via useAuth hook
+    window.location.href = "/";
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -27,11 +50,11 @@ export default function Login() {
         password,
       });
 
-      if (response.ok) {
-        // Invalidate auth query to trigger re-fetch
-        await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-        // Redirect will happen automatically via useAuth hook
-        window.location.href = "/";
+      const result = await response.json();
+      if (result.twoFactorRequired) {
+        setTwoFactorRequired(true);
+      } else {
+        await signedIn();
       }
     } catch (err: any) {
       setError(err.message || "Login failed. Please try again.");
@@ -40,6 +63,106 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/login/two-factor", { code });
+      await signedIn();
+    } catch (err: any) {
+      setError(err.message || "Login failed. Please try again.");
+      setCode("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+    setError("");
+  };
+
+  if (twoFactorRequired) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-6">
+              <OpianLogo className="h-16 w-auto" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                    disabled={loading}
+                    data-testid="input-recovery-code"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    autoFocus
+                    disabled={loading}
+                    data-testid="input-two-factor-code"
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                disabled={loading || (useRecoveryCode ? !code.trim() : code.length < 6)}
+                data-testid="button-verify-two-factor"
+              >
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+            </form>
+
+            <div className="mt-4 text-center text-sm">
+              <button type="button" onClick={toggleRecoveryCode} className="text-primary hover:underline">
+                {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -49,59 +172,90 @@ export default function Login() {
           </div>
           <CardTitle className="text-2xl font-bold">Sign In</CardTitle>
           <CardDescription>
-            Enter your credentials to access Opian Core
+            {localAuth ? "Enter your credentials to access Opian Core" : "Sign in to access Opian Core"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <Alert variant="destructive">
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-            
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {signInMethods && signInMethods.providers.length > 0 && (
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter your email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={loading}
-              />
+              {signInMethods.providers.map((provider) => (
+                <Button key={provider.key} variant="outline" size="lg" className="w-full" asChild>
+                  <a href={`/api/auth/providers/${provider.key}/start`} data-testid={`button-sign-in-${provider.key}`}>
+                    Sign in with {provider.name}
+                  </a>
+                </Button>
+              ))}
+              {localAuth && (
+                <div className="relative py-2">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-card px-2 text-muted-foreground">or</span>
+                  </div>
+                </div>
+              )}
             </div>
+          )}
+
+          {localAuth && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
+            
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
                 disabled={loading}
-              />
+              >
+                {loading ? "Signing In..." : "Sign In"}
+              </Button>
+            </form>
+          )}
+
+          {localAuth && (
+            <div className="mt-4 text-center text-sm">
+              Don't have an account?{" "}
+              <Link href="/register" className="text-primary hover:underline">
+                Create one
+              </Link>
             </div>
-            
-            <Button
-              type="submit"
-              className="w-full"
-              size="lg"
-              disabled={loading}
-            >
-              {loading ? "Signing In..." : "Sign In"}
-            </Button>
-          </form>
-          
-          <div className="mt-4 text-center text-sm">
-            Don't have an account?{" "}
-            <Link href="/register" className="text-primary hover:underline">
-              Create one
-            </Link>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
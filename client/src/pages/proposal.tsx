@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { CheckCircle2, Download, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import OpianLogo from "@/assets/opian-logo";
+import { apiRequest } from "@/lib/queryClient";
+import { planInputsSchema, type QuoteLineItem } from "@shared/schema";
+import { calculatePlan } from "@shared/investmentPlan";
+import { PROPOSAL_CONDITIONS, PROPOSAL_ISSUER } from "@shared/proposalTerms";
+
+// The client-safe view of a quote returned for a share token
+interface PublicProposal {
+  quoteNumber: string;
+  revision: number;
+  title: string;
+  description: string | null;
+  type: string;
+  items: QuoteLineItem[];
+  planInputs: unknown;
+  subtotal: string;
+  tax: string;
+  taxRate: string | null;
+  total: string;
+  status: string;
+  validUntil: string | null;
+  clientName: string | null;
+  preparedBy: string | null;
+  linkExpiresAt: string;
+}
+
+export default function Proposal() {
+  const { token } = useParams<{ token: string }>();
+  const [conditions, setConditions] = useState<boolean[]>(PROPOSAL_CONDITIONS.map(() => false));
+  const [signatoryName, setSignatoryName] = useState("");
+  const [signatoryIdNumber, setSignatoryIdNumber] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [decision, setDecision] = useState<"accepted" | "declined" | null>(null);
+
+  const { data: proposal, isLoading, error: loadError } = useQuery<PublicProposal>({
+    queryKey: ["/api/public/proposals", token],
+  });
+
+  const respond = async (choice: "accept" | "decline") => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const response = await apiRequest("POST", `/api/public/proposals/${token}/respond`, {
+        decision: choice,
+        signatoryName,
+        signatoryIdNumber,
+        conditionsAccepted: conditions,
+        reason: reason || undefined,
+      });
+      const result = await response.json();
+      setDecision(result.decision);
+    } catch (err: any) {
+      setError(err.message || "Your response could not be recorded. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="h-32 w-full max-w-3xl bg-muted rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (loadError || !proposal) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="flex justify-center mb-6">
+              <OpianLogo className="h-16 w-auto" />
+            </div>
+            <CardTitle>Link unavailable</CardTitle>
+            <CardDescription>
+              This proposal link is invalid or has expired. Please contact your consultant for a new one.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const parsedPlanInputs = proposal.type === "investment_plan" ? planInputsSchema.safeParse(proposal.planInputs) : null;
+  const plan = parsedPlanInputs?.success ? calculatePlan(parsedPlanInputs.data) : null;
+  const allConditionsAccepted = conditions.every(Boolean);
+  const signed = signatoryName.trim().length >= 2 && signatoryIdNumber.trim().length >= 6;
+  const isOpen = proposal.status === "sent" && !decision;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <OpianLogo className="h-12 w-auto" />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/public/proposals/${token}/pdf`, "_blank")}
+            data-testid="button-download-proposal"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download PDF
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="text-proposal-title">{proposal.title}</CardTitle>
+            <CardDescription>
+              {proposal.quoteNumber} rev {proposal.revision}
+              {proposal.clientName && ` · Prepared for ${proposal.clientName}`}
+              {proposal.preparedBy && ` by ${proposal.preparedBy}`}
+              {proposal.validUntil && ` · Valid until ${format(new Date(proposal.validUntil), "d MMMM yyyy")}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {proposal.description && (
+              <p className="text-sm text-muted-foreground">{proposal.description}</p>
+            )}
+
+            {plan ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm" data-testid="proposal-plan-summary">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Investment amount</span>
+                  <span className="font-medium">${plan.investmentAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Allocated amount</span>
+                  <span className="font-medium">${plan.allocatedAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Shares purchased</span>
+                  <span className="font-medium">{plan.sharesPurchased}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Term</span>
+                  <span className="font-medium">{plan.termYears} years</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Commencement date</span>
+                  <span className="font-medium">{plan.commencementDate}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Exit date</span>
+                  <span className="font-medium">{plan.redemptionDate}</span>
+                </div>
+              </div>
+            ) : (
+              <Table data-testid="table-proposal-items">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {proposal.items.map((item, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">${Number(item.rate).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${Number(item.amount).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-1 max-w-xs ml-auto text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>${parseFloat(proposal.subtotal).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Tax{proposal.taxRate ? ` (${parseFloat(proposal.taxRate)}%)` : ""}:</span>
+                <span>${parseFloat(proposal.tax).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Total:</span>
+                <span data-testid="text-proposal-total">${parseFloat(proposal.total).toFixed(2)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {decision ? (
+          <Alert data-testid="alert-proposal-response">
+            {decision === "accepted" ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <AlertDescription>
+              Thank you. Your {decision === "accepted" ? "acceptance" : "decision to decline"} has been recorded
+              and {proposal.preparedBy ?? "your consultant"} has been notified.
+            </AlertDescription>
+          </Alert>
+        ) : !isOpen ? (
+          <Alert>
+            <AlertDescription>This quote is {proposal.status} and can no longer be accepted online.</AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Client Sign</CardTitle>
+              <CardDescription>
+                Please read and accept each condition, then type your full name and ID number as your signature.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                {PROPOSAL_CONDITIONS.map((condition, index) => (
+                  <div key={index} className="flex items-start space-x-3">
+                    <Checkbox
+                      id={`condition-${index}`}
+                      checked={conditions[index]}
+                      onCheckedChange={(checked) =>
+                        setConditions((current) => current.map((value, i) => (i === index ? checked === true : value)))
+                      }
+                      data-testid={`checkbox-condition-${index}`}
+                    />
+                    <Label htmlFor={`condition-${index}`} className="text-sm font-normal leading-snug">
+                      {condition}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="signatoryName">Full name</Label>
+                  <Input
+                    id="signatoryName"
+                    value={signatoryName}
+                    onChange={(e) => setSignatoryName(e.target.value)}
+                    disabled={loading}
+                    data-testid="input-signatory-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signatoryIdNumber">ID or passport number</Label>
+                  <Input
+                    id="signatoryIdNumber"
+                    value={signatoryIdNumber}
+                    onChange={(e) => setSignatoryIdNumber(e.target.value)}
+                    disabled={loading}
+                    data-testid="input-signatory-id-number"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reason">Comments (optional)</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  disabled={loading}
+                  rows={2}
+                  data-testid="input-response-reason"
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                By accepting, you agree that your typed name and ID number serve as your signature on this proposal
+                from {PROPOSAL_ISSUER.name}. The time of signing and your IP address are recorded.
+              </p>
+
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => respond("decline")}
+                  disabled={loading || !signed}
+                  data-testid="button-decline-proposal"
+                >
+                  Decline
+                </Button>
+                <Button
+                  onClick={() => respond("accept")}
+                  disabled={loading || !signed || !allConditionsAccepted}
+                  data-testid="button-accept-proposal"
+                >
+                  {loading ? "Submitting..." : "Accept Proposal"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Copy, Download, FolderPlus, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import ProjectionSchedule from "@/components/quotes/projection-schedule";
+import { planInputsSchema, type Client, type Quote, type QuoteResponse, type QuoteStatusChangeWithUser } from "@shared/schema";
+import { calculatePlan } from "@shared/investmentPlan";
+import { availableQuoteActions, type QuoteStatusAction } from "@shared/quoteStatus";
+
+// Expiry is left to the scheduler, so it isn't offered as a button
+const actionLabels: Partial<Record<QuoteStatusAction, string>> = {
+  send: "Mark as Sent",
+  accept: "Accept",
+  reject: "Reject",
+  withdraw: "Withdraw",
+  reopen: "Reopen as Draft",
+};
+
+export default function QuoteDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [shareLink, setShareLink] = useState<{ url: string; expiresAt: string } | null>(null);
+
+  const { data: quote, isLoading } = useQuery<Quote>({
+    queryKey: ["/api/quotes", id],
+  });
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: statusHistory } = useQuery<QuoteStatusChangeWithUser[]>({
+    queryKey: ["/api/quotes", id, "status-history"],
+  });
+
+  const { data: responses } = useQuery<QuoteResponse[]>({
+    queryKey: ["/api/quotes", id, "responses"],
+  });
+
+  // Only a quote awaiting acceptance needs its client's FICA status
+  const { data: kyc } = useQuery<{ complete: boolean }>({
+    queryKey: ["/api/clients", quote?.clientId, "kyc"],
+    enabled: quote?.status === "sent",
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${id}/share`);
+      return response.json();
+    },
+    onSuccess: (link: { url: string; expiresAt: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      setShareLink(link);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create share link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyShareLink = async () => {
+    if (!shareLink) return;
+    await navigator.clipboard.writeText(shareLink.url);
+    toast({
+      title: "Copied",
+      description: "Share link copied to clipboard",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: QuoteStatusAction) => {
+      const response = await apiRequest("POST", `/api/quotes/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (updatedQuote: Quote) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `Quote is now ${updatedQuote.status}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change quote status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const savePdfMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${id}/pdf`);
+      return response.json();
+    },
+    onSuccess: () => {
+      if (quote) {
+        queryClient.invalidateQueries({ queryKey: ["/api/documents", quote.clientId] });
+      }
+      toast({
+        title: "Success",
+        description: "Quote PDF saved to the client's documents",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save quote PDF",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Card className="animate-pulse">
+          <CardHeader>
+            <div className="h-4 bg-muted rounded w-1/3"></div>
+            <div className="h-3 bg-muted rounded w-1/4"></div>
+          </CardHeader>
+          <CardContent>
+            <div className="h-3 bg-muted rounded w-full mb-2"></div>
+            <div className="h-3 bg-muted rounded w-2/3"></div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="p-6 text-center">
+        <h3 className="text-lg font-semibold text-foreground mb-2">Quote not found</h3>
+        <Link href="/quotes">
+          <Button variant="outline">Back to Quotes</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const client = clients?.find((c) => c.id === quote.clientId);
+  const parsedPlanInputs = quote.type === "investment_plan" ? planInputsSchema.safeParse(quote.planInputs) : null;
+  const plan = parsedPlanInputs?.success ? calculatePlan(parsedPlanInputs.data) : null;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/quotes">
+            <Button variant="outline" size="sm" data-testid="button-back-to-quotes">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground" data-testid="text-quote-number">
+              {quote.quoteNumber}
+              {quote.revision > 1 && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">rev {quote.revision}</span>
+              )}
+            </h1>
+            <p className="text-sm text-muted-foreground" data-testid="text-quote-client">
+              {client?.name || "Unknown Client"} · {quote.title}
+              {quote.agreementNumber && ` · Agreement ${quote.agreementNumber}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Badge variant="outline">{quote.status}</Badge>
+          {availableQuoteActions(quote.status).map((action) => actionLabels[action] && (
+            <Button
+              key={action}
+              variant={action === "accept" ? "default" : "outline"}
+              size="sm"
+              onClick={() => statusMutation.mutate(action)}
+              disabled={statusMutation.isPending}
+              data-testid={`button-quote-${action}`}
+            >
+              {actionLabels[action]}
+            </Button>
+          ))}
+          {(quote.status === "draft" || quote.status === "sent") && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => shareMutation.mutate()}
+              disabled={shareMutation.isPending}
+              data-testid="button-share-quote"
+            >
+              <Share2 className="mr-2 h-4 w-4" />
+              Share with Client
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/quotes/${quote.id}/pdf`, "_blank")}
+            data-testid="button-download-quote-pdf"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => savePdfMutation.mutate()}
+            disabled={savePdfMutation.isPending}
+            data-testid="button-save-quote-pdf"
+          >
+            <FolderPlus className="mr-2 h-4 w-4" />
+            {savePdfMutation.isPending ? "Saving..." : "Save to Documents"}
+          </Button>
+        </div>
+      </div>
+
+      {quote.status === "sent" && kyc && !kyc.complete && (
+        <Alert data-testid="alert-fica-incomplete">
+          <AlertDescription>
+            {client?.name ?? "The client"}'s FICA documents aren't all verified yet, so this quote can't be accepted.
+            Complete the FICA checklist on the Clients page first.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {quote.description && (
+        <p className="text-sm text-muted-foreground">{quote.description}</p>
+      )}
+
+      {plan ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Investment Summary</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm" data-testid="plan-summary">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Investment amount</span>
+                <span className="font-medium">${plan.investmentAmount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Allocated to commutation with enhancement</span>
+                <span className="font-medium">${plan.allocatedAmount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Shares purchased</span>
+                <span className="font-medium">{plan.sharesPurchased}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Term in years</span>
+                <span className="font-medium">{plan.termYears}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Commencement date</span>
+                <span className="font-medium">{plan.commencementDate}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Exit date</span>
+                <span className="font-medium">{plan.redemptionDate}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Percentage dividend first year</span>
+                <span className="font-medium">{(plan.firstYearDividendRate * 100).toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Income allocated to capital in first year</span>
+                <span className="font-medium">${plan.firstYearIncome.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Placement fee (once off)</span>
+                <span className="font-medium">${plan.placementFee.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Admin fees over term</span>
+                <span className="font-medium">${plan.totalAdminFees.toFixed(2)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Quote Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table data-testid="table-quote-items">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quote.items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">${Number(item.rate).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{item.discountPercent ? `${item.discountPercent}%` : "-"}</TableCell>
+                    <TableCell className="text-right">${Number(item.amount).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="mt-6 space-y-2 max-w-md ml-auto text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span className="font-medium">${parseFloat(quote.subtotal).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Tax:</span>
+                <span className="font-medium">${parseFloat(quote.tax).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-lg font-semibold border-t pt-2">
+                <span>Total:</span>
+                <span data-testid="text-quote-total">${parseFloat(quote.total).toFixed(2)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {plan && <ProjectionSchedule quoteId={quote.id} />}
+
+      {responses && responses.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Client Responses</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {responses.map((response) => (
+              <div key={response.id} className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-1 text-sm" data-testid={`quote-response-${response.id}`}>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Decision</span>
+                  <span className="font-medium capitalize">{response.decision}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Signed</span>
+                  <span className="font-medium">
+                    {response.createdAt ? format(new Date(response.createdAt), "d MMM yyyy HH:mm:ss") : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Signatory</span>
+                  <span className="font-medium">{response.signatoryName}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">ID number</span>
+                  <span className="font-medium">{response.signatoryIdNumber}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Conditions accepted</span>
+                  <span className="font-medium">{response.conditionsAccepted ? "Yes" : "No"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Revision</span>
+                  <span className="font-medium">rev {response.quoteRevision}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">IP address</span>
+                  <span className="font-medium">{response.ipAddress || "-"}</span>
+                </div>
+                <div className="flex justify-between md:col-span-2">
+                  <span className="text-muted-foreground">PDF SHA-256</span>
+                  <span className="font-mono text-xs break-all">{response.pdfHash}</span>
+                </div>
+                {response.reason && (
+                  <p className="md:col-span-2 text-muted-foreground">"{response.reason}"</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {statusHistory && statusHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Status History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table data-testid="table-quote-status-history">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statusHistory.map((change) => (
+                  <TableRow key={change.id}>
+                    <TableCell>{change.createdAt ? format(new Date(change.createdAt), "d MMM yyyy HH:mm") : "-"}</TableCell>
+                    <TableCell>{change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : `Created as ${change.toStatus}`}</TableCell>
+                    <TableCell>{change.changedByName ?? "System"}</TableCell>
+                    <TableCell className="text-muted-foreground">{change.note || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!shareLink} onOpenChange={() => setShareLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Share with Client</DialogTitle>
+            <DialogDescription>
+              Send this link to the client to review and accept the proposal online.
+              {shareLink && ` It expires on ${format(new Date(shareLink.expiresAt), "d MMMM yyyy")}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex space-x-2">
+            <Input value={shareLink?.url ?? ""} readOnly data-testid="input-share-link" />
+            <Button variant="outline" onClick={copyShareLink} data-testid="button-copy-share-link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, FileText, Edit, Trash2, Download } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, FileText, Edit, Trash2, Download, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,11 +9,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import QuoteForm from "@/components/quotes/quote-form";
+import QuoteRevisions from "@/components/quotes/quote-revisions";
+import { isFinalQuoteStatus } from "@shared/quoteStatus";
 import type { Quote } from "@shared/schema";
 
 export default function Quotes() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+  const [historyQuote, setHistoryQuote] = useState<Quote | null>(null);
   const { toast } = useToast();
 
   const { data: quotes, isLoading } = useQuery<Quote[]>({
@@ -148,7 +152,12 @@ export default function Quotes() {
                 <div className="flex items-start justify-between">
                   <div>
                     <CardTitle className="text-base" data-testid={`text-quote-number-${quote.id}`}>
-                      {quote.quoteNumber}
+                      <Link href={`/quotes/${quote.id}`} className="hover:underline">
+                        {quote.quoteNumber}
+                      </Link>
+                      {quote.revision > 1 && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">rev {quote.revision}</span>
+                      )}
                     </CardTitle>
                     <p className="text-sm text-muted-foreground" data-testid={`text-quote-client-${quote.id}`}>
                       {getClientName(quote.clientId)}
@@ -174,17 +183,28 @@ export default function Quotes() {
                       ${parseFloat(quote.total).toFixed(2)}
                     </span>
                     <div className="flex space-x-1">
+                      {!isFinalQuoteStatus(quote.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingQuote(quote)}
+                          data-testid={`button-edit-quote-${quote.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setEditingQuote(quote)}
-                        data-testid={`button-edit-quote-${quote.id}`}
+                        onClick={() => setHistoryQuote(quote)}
+                        data-testid={`button-quote-history-${quote.id}`}
                       >
-                        <Edit className="h-4 w-4" />
+                        <History className="h-4 w-4" />
                       </Button>
                       <Button
                         variant="outline"
                         size="sm"
+                        onClick={() => window.open(`/api/quotes/${quote.id}/pdf`, "_blank")}
                         data-testid={`button-download-quote-${quote.id}`}
                       >
                         <Download className="h-4 w-4" />
@@ -221,6 +241,21 @@ export default function Quotes() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Revision History Dialog */}
+      <Dialog open={!!historyQuote} onOpenChange={() => setHistoryQuote(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Revision History · {historyQuote?.quoteNumber}</DialogTitle>
+          </DialogHeader>
+          {historyQuote && (
+            <QuoteRevisions
+              quote={quotes?.find((q) => q.id === historyQuote.id) ?? historyQuote}
+              onClone={() => setHistoryQuote(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,9 +7,17 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Link } from "wouter";
 import OpianLogo from "@/assets/opian-logo";
 import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { PASSWORD_MIN_LENGTH, passwordProblems, personalPasswordTerms } from "@shared/passwordPolicy";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+interface Invitation {
+  email: string;
+  expiresAt: string;
+}
 
 export default function Register() {
+  // Invitation links look like /register?invite=<token>
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
@@ -17,8 +25,23 @@ export default function Register() {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  // Set when the account was created but the email address still needs confirming
+  const [awaitingVerification, setAwaitingVerification] = useState(false);
+  const [resent, setResent] = useState(false);
   const queryClient = useQueryClient();
 
+  const { data: invite, error: inviteError } = useQuery<Invitation>({
+    queryKey: ["/api/auth/invites", inviteToken],
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (invite) {
+      setEmail(invite.email);
+    }
+  }, [invite]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -28,8 +51,9 @@ export default function Register() {
       return;
     }
 
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters long");
+    const problems = passwordProblems(password, personalPasswordTerms({ email, firstName, lastName }));
+    if (problems.length > 0) {
+      setError(problems[0]);
       return;
     }
 
@@ -41,9 +65,13 @@ export default function Register() {
         lastName,
         email,
         password,
+        inviteToken: inviteToken ?? undefined,
       });
 
-      if (response.ok) {
+      const result = await response.json();
+      if (result.verificationRequired) {
+        setAwaitingVerification(true);
+      } else {
         // Invalidate auth query to trigger re-fetch
         await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
         // Redirect will happen automatically via useAuth hook
@@ -56,6 +84,49 @@ export default function Register() {
     }
   };
 
+  const resendVerification = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/resend-verification", { email });
+      setResent(true);
+    } catch (err: any) {
+      setError(err.message || "Could not resend the email. Please try again.");
+    }
+  };
+
+  if (awaitingVerification) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-6">
+              <OpianLogo className="h-16 w-auto" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Check Your Email</CardTitle>
+            <CardDescription>
+              We've sent a confirmation link to {email}. Follow it to finish creating your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={resendVerification}
+              disabled={resent}
+              data-testid="button-resend-verification"
+            >
+              {resent ? "Email sent" : "Resend email"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -65,7 +136,9 @@ export default function Register() {
           </div>
           <CardTitle className="text-2xl font-bold">Create Account</CardTitle>
           <CardDescription>
-            Join Opian Core to start managing your clients
+            {invite
+              ? "You've been invited to join Opian Core"
+              : "Registration is open to invited users and approved company email addresses"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -75,6 +148,14 @@ export default function Register() {
                 <AlertDescription>{error}</AlertDescription>
               </Alert>
             )}
+
+            {inviteError && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  This invitation is invalid or has expired. Please ask your administrator for a new one.
+                </AlertDescription>
+              </Alert>
+            )}
             
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -113,7 +194,7 @@ export default function Register() {
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
-                disabled={loading}
+                disabled={loading || !!invite}
               />
             </div>
             
@@ -127,8 +208,11 @@ export default function Register() {
                 onChange={(e) => setPassword(e.target.value)}
                 required
                 disabled={loading}
-                minLength={6}
+                minLength={PASSWORD_MIN_LENGTH}
               />
+              <p className="text-xs text-muted-foreground">
+                At least {PASSWORD_MIN_LENGTH} characters mixing letters, numbers and symbols, or a longer passphrase
+              </p>
             </div>
             
             <div className="space-y-2">
@@ -141,7 +225,7 @@ export default function Register() {
                 onChange={(e) => setConfirmPassword(e.target.value)}
                 required
                 disabled={loading}
-                minLength={6}
+                minLength={PASSWORD_MIN_LENGTH}
               />
             </div>
             
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import OpianLogo from "@/assets/opian-logo";
+import { apiRequest } from "@/lib/queryClient";
+import { PASSWORD_MIN_LENGTH, passwordProblems } from "@shared/passwordPolicy";
+
+export default function ResetPassword() {
+  // Reset links look like /reset-password?token=<token>
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") ?? "");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    const problems = passwordProblems(password);
+    if (problems.length > 0) {
+      setError(problems[0]);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.message || "Password reset failed. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-6">
+            <OpianLogo className="h-16 w-auto" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+          <CardDescription>
+            You'll be signed out everywhere else once it's changed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {done ? (
+            <Alert data-testid="alert-password-reset">
+              <AlertDescription>Your password has been updated.</AlertDescription>
+            </Alert>
+          ) : !token ? (
+            <Alert variant="destructive">
+              <AlertDescription>This reset link is incomplete. Please use the link from your email.</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="password">New Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  minLength={PASSWORD_MIN_LENGTH}
+                  data-testid="input-new-password"
+                />
+                <p className="text-xs text-muted-foreground">
+                  At least {PASSWORD_MIN_LENGTH} characters mixing letters, numbers and symbols, or a longer passphrase
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  minLength={PASSWORD_MIN_LENGTH}
+                  data-testid="input-confirm-password"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                disabled={loading}
+                data-testid="button-reset-password"
+              >
+                {loading ? "Saving..." : "Update Password"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center text-sm">
+            <Link href="/login" className="text-primary hover:underline">
+              Go to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Download, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import LoginActivity from "@/components/account/login-activity";
+import ActiveSessions from "@/components/account/active-sessions";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  uri: string;
+  qrCode: string;
+}
+
+// Actions that need a current code before they go ahead
+type ConfirmAction = "recovery-codes" | "disable";
+
+export default function Security() {
+  const { user } = useAuth() as { user: any };
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [confirmCode, setConfirmCode] = useState("");
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const startSetupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setSetupCode("");
+    },
+    onError: (error) => showError(error, "Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/enable", { code: setupCode });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setSetupCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+    },
+    onError: (error) => {
+      setSetupCode("");
+      showError(error, "Failed to enable two-factor authentication");
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (action: ConfirmAction) => {
+      const response = await apiRequest("POST", `/api/auth/two-factor/${action}`, { code: confirmCode });
+      return response.json() as Promise<{ recoveryCodes?: string[] }>;
+    },
+    onSuccess: (data, action) => {
+      closeConfirm();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+      if (action === "recovery-codes") {
+        setRecoveryCodes(data.recoveryCodes ?? null);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+        toast({
+          title: "Success",
+          description: "Two-factor authentication turned off",
+        });
+      }
+    },
+    onError: (error) => showError(error, "Failed to verify code"),
+  });
+
+  const closeConfirm = () => {
+    setConfirmAction(null);
+    setConfirmCode("");
+  };
+
+  // The app only lets a user in once they've seen their recovery codes
+  const closeRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Opian Core recovery codes for ${user?.email}\n\n${recoveryCodes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "opian-core-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold mb-6">Security</h1>
+        <div className="h-48 bg-muted rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-3xl">
+      <h1 className="text-2xl font-semibold text-foreground">Security</h1>
+
+      {user?.twoFactorSetupRequired && !recoveryCodes && (
+        <Alert>
+          <AlertDescription>
+            Your organisation requires two-factor authentication. Set it up below to continue using Opian Core.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Signing in asks for a code from an authenticator app on your phone as well as your password.
+            </CardDescription>
+          </div>
+          {status?.enabled ? (
+            <Badge variant="default" data-testid="badge-two-factor-status">On</Badge>
+          ) : (
+            <Badge variant="secondary" data-testid="badge-two-factor-status">Off</Badge>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status?.enabled ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {status.enabledAt && `Turned on ${format(new Date(status.enabledAt), "MMM d, yyyy")}. `}
+                You have {status.recoveryCodesRemaining} unused recovery code(s).
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmAction("recovery-codes")}
+                  data-testid="button-new-recovery-codes"
+                >
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setConfirmAction("disable")}
+                    data-testid="button-disable-two-factor"
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </div>
+            </>
+          ) : setup ? (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                enableMutation.mutate();
+              }}
+            >
+              <p className="text-sm">
+                Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+              </p>
+              <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-48 w-48 border rounded" data-testid="img-two-factor-qr" />
+              <p className="text-sm text-muted-foreground">
+                Can't scan it? Enter this key in the app instead:{" "}
+                <code className="font-mono text-foreground break-all" data-testid="text-two-factor-secret">{setup.secret}</code>
+              </p>
+              <div className="space-y-2">
+                <Label>Code from the app</Label>
+                <InputOTP maxLength={6} value={setupCode} onChange={setSetupCode} data-testid="input-two-factor-setup-code">
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <div className="flex space-x-2">
+                <Button type="submit" disabled={enableMutation.isPending || setupCode.length < 6} data-testid="button-enable-two-factor">
+                  {enableMutation.isPending ? "Verifying..." : "Turn On"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button
+              onClick={() => startSetupMutation.mutate()}
+              disabled={startSetupMutation.isPending}
+              data-testid="button-setup-two-factor"
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {startSetupMutation.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {!user?.twoFactorSetupRequired && <ActiveSessions />}
+
+      {!user?.twoFactorSetupRequired && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Sign-in Activity</CardTitle>
+            <CardDescription>
+              If you see a sign-in you don't recognise, change your password and tell your administrator.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LoginActivity url="/api/auth/login-attempts" />
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!confirmAction} onOpenChange={(open) => !open && closeConfirm()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirmAction === "disable" ? "Turn Off Two-Factor Authentication" : "New Recovery Codes"}</DialogTitle>
+            <DialogDescription>
+              {confirmAction === "disable"
+                ? "Enter a code from your authenticator app, or a recovery code, to turn off two-factor authentication."
+                : "Enter a code from your authenticator app, or a recovery code. Your old recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (confirmAction) {
+                confirmMutation.mutate(confirmAction);
+              }
+            }}
+          >
+            <Input
+              value={confirmCode}
+              onChange={(e) => setConfirmCode(e.target.value)}
+              placeholder="Authentication or recovery code"
+              autoComplete="off"
+              data-testid="input-confirm-two-factor-code"
+            />
+            <div className="flex justify-end">
+              <Button type="submit" disabled={confirmMutation.isPending || !confirmCode.trim()} data-testid="button-confirm-two-factor">
+                {confirmMutation.isPending ? "Verifying..." : "Continue"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && closeRecoveryCodes()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Your Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose your phone. Keep them somewhere safe; they won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+            {recoveryCodes?.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <div className="flex justify-between">
+            <div className="space-x-2">
+              <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={downloadRecoveryCodes} data-testid="button-download-recovery-codes">
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </div>
+            <Button onClick={closeRecoveryCodes} data-testid="button-close-recovery-codes">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
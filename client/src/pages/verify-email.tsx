@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import OpianLogo from "@/assets/opian-logo";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function VerifyEmail() {
+  // Verification links look like /verify-email?token=<token>
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") ?? "");
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(token ? "verifying" : "failed");
+  // Tokens are single-use, so only ever submit once
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    apiRequest("POST", "/api/auth/verify-email", { token })
+      .then(() => setStatus("verified"))
+      .catch(() => setStatus("failed"));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-6">
+            <OpianLogo className="h-16 w-auto" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Confirm Email</CardTitle>
+          <CardDescription>
+            {status === "verifying" && "Confirming your email address..."}
+            {status === "verified" && "Your email address is confirmed"}
+            {status === "failed" && "We couldn't confirm your email address"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "verified" && (
+            <Button
+              className="w-full"
+              size="lg"
+              onClick={() => { window.location.href = "/"; }}
+              data-testid="button-continue"
+            >
+              Continue to Opian Core
+            </Button>
+          )}
+          {status === "failed" && (
+            <>
+              <Alert variant="destructive">
+                <AlertDescription>
+                  This link is invalid or has expired. Confirmation links can only be used once.
+                </AlertDescription>
+              </Alert>
+              <div className="text-center text-sm">
+                <Link href="/login" className="text-primary hover:underline">
+                  Go to sign in
+                </Link>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
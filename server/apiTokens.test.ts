@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { Request } from "express";
+import { requiredTokenScope } from "./apiTokens";
+
+function scopeFor(method: string, path: string) {
+  return requiredTokenScope({ method, baseUrl: "", path } as Request);
+}
+
+describe("requiredTokenScope", () => {
+  it("maps paths to their resource, reads for GET and writes otherwise", () => {
+    expect(scopeFor("GET", "/api/clients/abc")).toEqual({ resource: "clients", access: "read" });
+    expect(scopeFor("POST", "/api/quotes")).toEqual({ resource: "quotes", access: "write" });
+    expect(scopeFor("POST", "/api/admin/branches")).toEqual({ resource: "users", access: "write" });
+  });
+
+  it("keeps sign-in settings to browser sessions", () => {
+    expect(scopeFor("POST", "/api/auth/api-tokens")).toBeNull();
+  });
+
+  it("keeps security-sensitive admin endpoints to browser sessions", () => {
+    expect(scopeFor("PUT", "/api/admin/security-policy")).toBeNull();
+    expect(scopeFor("GET", "/api/admin/security-policy")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/signup-domains")).toBeNull();
+    expect(scopeFor("DELETE", "/api/admin/signup-domains/example.com")).toBeNull();
+    expect(scopeFor("PUT", "/api/admin/roles/consultant/permissions")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/users/abc/password")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/users/abc/reset-two-factor/")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/Users/abc/Password")).toBeNull();
+  });
+
+  it("keeps user accounts and invitations to browser sessions", () => {
+    // Changing someone's email, then resetting the password, takes over their account
+    expect(scopeFor("PUT", "/api/admin/users/abc")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/users")).toBeNull();
+    expect(scopeFor("GET", "/api/admin/users")).toBeNull();
+    expect(scopeFor("PUT", "/api/admin/users/abc/access")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/users/abc/activate")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/invites")).toBeNull();
+    expect(scopeFor("POST", "/api/admin/USERS")).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import type { Request } from 'express';
+import type { ApiTokenAccess, ApiTokenResource } from '@shared/permissions';
+import { generateToken } from './tokens';
+
+// Marks the string as an Opian Core token, so secret scanners can spot leaked ones
+const API_TOKEN_PREFIX = 'opn_';
+
+// How much of the token is kept in clear to tell tokens apart
+const VISIBLE_PREFIX_LENGTH = 12;
+
+export const MAX_API_TOKENS_PER_USER = 20;
+
+// The token is shown to its owner once; only its hash and prefix are stored
+export function generateApiToken(): { token: string; tokenPrefix: string } {
+  const token = API_TOKEN_PREFIX + generateToken();
+  return { token, tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH) };
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const [scheme, token] = (req.get('authorization') ?? '').split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
+
+// Which scope group each API path belongs to. Paths not listed here, such as
+// /api/auth, take a browser session: a token can't mint tokens or change the
+// account's sign-in settings.
+const resourcePaths: [string, ApiTokenResource][] = [
+  ['/api/dashboard/', 'clients'],
+  ['/api/clients', 'clients'],
+  ['/api/quotes', 'quotes'],
+  ['/api/meetings', 'meetings'],
+  ['/api/documents', 'documents'],
+  ['/api/notifications', 'notifications'],
+  ['/api/admin/', 'users'],
+  ['/api/tax-rates', 'settings'],
+  ['/api/number-sequences', 'settings'],
+];
+
+// Admin paths that take a browser session even though they sit under
+// /api/admin/: a users:write token can't create, invite or change user
+// accounts (an email change is one password reset away from a takeover), or
+// change who may sign in and with what. Matched case-insensitively, as
+// Express matches routes.
+const sessionOnlyPaths = [
+  /^\/api\/admin\/users(\/|$)/i,
+  /^\/api\/admin\/invites(\/|$)/i,
+  /^\/api\/admin\/security-policy\/?$/i,
+  /^\/api\/admin\/signup-domains(\/|$)/i,
+  /^\/api\/admin\/roles\/[^/]+\/permissions\/?$/i,
+];
+
+// The scope an API token needs for the request, or null if tokens can't be used for it
+export function requiredTokenScope(req: Request): { resource: ApiTokenResource; access: ApiTokenAccess } | null {
+  const path = req.baseUrl + req.path;
+  if (sessionOnlyPaths.some((pattern) => pattern.test(path))) {
+    return null;
+  }
+  const match = resourcePaths.find(([prefix]) =>
+    prefix.endsWith('/') ? path.startsWith(prefix) : path === prefix || path.startsWith(`${prefix}/`),
+  );
+  if (!match) {
+    return null;
+  }
+  const access = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+  return { resource: match[1], access };
+}
@@ -0,0 +1,136 @@
+import type { Request } from 'express';
+import { DEFAULT_ORGANISATION_ID } from '@shared/schema';
+import { DEFAULT_ROLE } from '@shared/permissions';
+import { OidcProvider } from './oidcProvider';
+import { SamlProvider } from './samlProvider';
+
+// Sign-in methods are configured with environment variables:
+//
+//   AUTH_LOCAL=false                 turns off email and password sign-in (on by default)
+//   AUTH_PROVIDERS=entra,adfs        external providers, each configured as AUTH_<KEY>_*:
+//
+//   AUTH_ENTRA_TYPE=oidc             oidc or saml
+//   AUTH_ENTRA_NAME=Microsoft        shown as "Sign in with Microsoft"
+//   AUTH_ENTRA_ISSUER, AUTH_ENTRA_CLIENT_ID, AUTH_ENTRA_CLIENT_SECRET, AUTH_ENTRA_SCOPES (oidc)
+//   AUTH_ADFS_ENTRY_POINT, AUTH_ADFS_IDP_CERT, AUTH_ADFS_ENTITY_ID (saml)
+//
+// and for either type:
+//
+//   AUTH_<KEY>_ALLOW_SIGNUP=true     create users on their first sign-in (otherwise the
+//                                    email must match an existing user)
+//   AUTH_<KEY>_TRUST_EMAIL=true      treat every email address the provider sends as verified;
+//                                    only for single-tenant providers that issue the addresses
+//                                    themselves. Otherwise a first sign-in is matched to a user
+//                                    by email only when an OIDC provider sends email_verified=true
+//   AUTH_<KEY>_ORGANISATION_ID       organisation new users join (default organisation)
+//   AUTH_<KEY>_DEFAULT_ROLE          role new users get (consultant)
+//   AUTH_<KEY>_ROLE_MAP              group=role pairs, e.g. "Opian Admins=admin,Compliance=compliance_officer";
+//                                    when set, the role is updated from the groups at every sign-in
+//   AUTH_<KEY>_GROUPS_CLAIM          claim or attribute holding the groups (groups)
+//
+// An http:// OIDC issuer is allowed so tests can point at a local mock issuer.
+
+// Who signed in, as vouched for by the provider
+export interface ExternalIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  groups: string[];
+}
+
+export interface AuthProviderSettings {
+  key: string;
+  name: string;
+  allowSignup: boolean;
+  trustEmail: boolean;
+  organisationId: string;
+  defaultRole: string;
+  roleMap: Record<string, string>;
+  groupsClaim: string;
+}
+
+export interface AuthProvider {
+  readonly settings: AuthProviderSettings;
+  // How the provider returns to the callback URL
+  readonly callbackMethod: 'get' | 'post';
+  // Where to send the browser, and what to remember until it comes back
+  start(callbackUrl: string): Promise<{ redirectUrl: string; flowData: Record<string, string> }>;
+  // Checks the provider's response at the callback and says who signed in
+  finish(req: Request, callbackUrl: string, flowData: Record<string, string>): Promise<ExternalIdentity>;
+}
+
+// Raised when the provider's response is rejected; the message is shown to the user
+export class AuthProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthProviderError";
+  }
+}
+
+export function providerEnv(key: string, name: string): string | undefined {
+  return process.env[`AUTH_${key.toUpperCase()}_${name}`] || undefined;
+}
+
+export function requiredProviderEnv(key: string, name: string): string {
+  const value = providerEnv(key, name);
+  if (!value) {
+    throw new Error(`AUTH_${key.toUpperCase()}_${name} environment variable is required for the ${key} sign-in provider`);
+  }
+  return value;
+}
+
+function parseRoleMap(value: string | undefined): Record<string, string> {
+  const roleMap: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const separator = pair.lastIndexOf('=');
+    if (separator > 0) {
+      roleMap[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return roleMap;
+}
+
+function loadProvider(key: string): AuthProvider {
+  if (!/^[a-z0-9_]+$/.test(key)) {
+    throw new Error(`Sign-in provider keys may only use lowercase letters, digits and underscores, not "${key}"`);
+  }
+
+  const settings: AuthProviderSettings = {
+    key,
+    name: providerEnv(key, 'NAME') ?? key,
+    allowSignup: providerEnv(key, 'ALLOW_SIGNUP') === 'true',
+    trustEmail: providerEnv(key, 'TRUST_EMAIL') === 'true',
+    organisationId: providerEnv(key, 'ORGANISATION_ID') ?? DEFAULT_ORGANISATION_ID,
+    defaultRole: providerEnv(key, 'DEFAULT_ROLE') ?? DEFAULT_ROLE,
+    roleMap: parseRoleMap(providerEnv(key, 'ROLE_MAP')),
+    groupsClaim: providerEnv(key, 'GROUPS_CLAIM') ?? 'groups',
+  };
+
+  const type = providerEnv(key, 'TYPE');
+  switch (type) {
+    case 'oidc':
+      return new OidcProvider(settings);
+    case 'saml':
+      return new SamlProvider(settings);
+    default:
+      throw new Error(`AUTH_${key.toUpperCase()}_TYPE must be "oidc" or "saml"`);
+  }
+}
+
+export const localAuthEnabled = process.env.AUTH_LOCAL !== 'false';
+
+let providers: Map<string, AuthProvider> | undefined;
+
+// Reads the configuration on first use, so a mistake fails loudly at startup
+export function getAuthProviders(): Map<string, AuthProvider> {
+  providers ??= new Map(
+    (process.env.AUTH_PROVIDERS ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => [key, loadProvider(key)]),
+  );
+  return providers;
+}
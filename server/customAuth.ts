@@ -1,11 +1,56 @@
 import express from 'express';
-import session from 'express-session';
+import session, { type SessionData } from 'express-session';
 import bcrypt from 'bcrypt';
 import { nanoid } from 'nanoid';
 import MySQLStore from 'express-mysql-session';
 import { pool } from './db';
 import { storage } from './mysqlStorage';
-import type { Express, RequestHandler } from 'express';
+import { buildActor, hasPermission, isPlatformAdmin } from './policy';
+import { generateToken, sha256 } from './tokens';
+import { sendEmail } from './email';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  matchTotpStep,
+  normaliseRecoveryCode,
+  totpQrCode,
+  totpUri,
+} from './twoFactor';
+import {
+  LOGIN_HISTORY_LIMIT,
+  ipBlockedUntil,
+  isLockedOut,
+  recordFailedLogin,
+  recordLoginAttempt,
+  recordSuccessfulLogin,
+  tooManyAttempts,
+} from './loginThrottle';
+import {
+  AuthProviderError,
+  getAuthProviders,
+  localAuthEnabled,
+  type AuthProviderSettings,
+  type ExternalIdentity,
+} from './authProviders';
+import {
+  bearerToken,
+  generateApiToken,
+  requiredTokenScope,
+  MAX_API_TOKENS_PER_USER,
+} from './apiTokens';
+import { DEFAULT_ROLE, tokenAllows, type Permission } from '@shared/permissions';
+import { passwordProblems, personalPasswordTerms } from '@shared/passwordPolicy';
+import {
+  registerSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorCodeSchema,
+  createApiTokenSchema,
+  type User,
+  type UserTokenPurpose,
+} from '@shared/schema';
+import { z } from 'zod';
+import type { Express, Request, RequestHandler, Response } from 'express';
 
 // Extend session types
 declare module 'express-session' {
@@ -13,6 +58,19 @@ declare module 'express-session' {
     user?: {
       id: string;
       email: string;
+      sessionVersion?: number; // missing on sessions from before versions existed, which count as 0
+    };
+    // Where and when the session is used, for the user's list of sessions
+    activity?: {
+      ipAddress: string;
+      userAgent: string | null;
+      signedInAt: number;
+      lastSeenAt: number;
+    };
+    // Password accepted, waiting for the second factor
+    pendingTwoFactor?: {
+      id: string;
+      expiresAt: number;
     };
   }
 }
@@ -57,6 +115,254 @@ export function getSession() {
   });
 }
 
+// Ends every session a user has open, e.g. when their password changes or
+// their account is disabled. Bumping the version also stops any session the
+// delete misses, such as one being saved at the same moment. Pass `keep` to
+// leave the session making the request signed in.
+export async function destroyUserSessions(userId: string, keep?: Request): Promise<void> {
+  const sessionVersion = await storage.bumpSessionVersion(userId);
+  if (keep?.session.user) {
+    keep.session.user.sessionVersion = sessionVersion;
+    await pool.execute(
+      `DELETE FROM sessions WHERE JSON_UNQUOTE(JSON_EXTRACT(data, '$.user.id')) = ? AND session_id <> ?`,
+      [userId, keep.sessionID],
+    );
+  } else {
+    await pool.execute(
+      `DELETE FROM sessions WHERE JSON_UNQUOTE(JSON_EXTRACT(data, '$.user.id')) = ?`,
+      [userId],
+    );
+  }
+}
+
+// A user's unexpired sessions as kept by the session store
+async function getUserSessions(userId: string): Promise<{ sessionId: string; expires: number; data: SessionData }[]> {
+  const [rows] = await pool.execute(
+    `SELECT session_id, expires, data FROM sessions
+     WHERE JSON_UNQUOTE(JSON_EXTRACT(data, '$.user.id')) = ? AND expires > UNIX_TIMESTAMP()`,
+    [userId],
+  );
+  return (rows as any[]).map((row) => ({
+    sessionId: row.session_id,
+    expires: row.expires,
+    data: JSON.parse(row.data),
+  }));
+}
+
+// Signs the request's session in as the user
+function startSession(req: Request, user: User) {
+  const now = Date.now();
+  req.session.user = { id: user.id, email: user.email, sessionVersion: user.sessionVersion };
+  req.session.activity = {
+    ipAddress: req.ip || 'unknown',
+    userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+    signedInAt: now,
+    lastSeenAt: now,
+  };
+}
+
+// How often a session's last-seen time is refreshed, so most requests don't
+// have to write the session back to the store
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// How long emailed links stay valid
+const PASSWORD_RESET_MINUTES = parseInt(process.env.PASSWORD_RESET_MINUTES || '60', 10);
+const EMAIL_VERIFICATION_HOURS = parseInt(process.env.EMAIL_VERIFICATION_HOURS || '48', 10);
+
+// Replaces any earlier link of the same kind and returns the new token
+async function issueUserToken(user: User, purpose: UserTokenPurpose, lifetimeMs: number): Promise<string> {
+  const token = generateToken();
+  await storage.discardUserTokens(user.id, purpose);
+  await storage.createUserToken({
+    userId: user.id,
+    purpose,
+    tokenHash: sha256(token),
+    expiresAt: new Date(Date.now() + lifetimeMs),
+  });
+  return token;
+}
+
+function appUrl(req: Request, path: string): string {
+  return `${req.protocol}://${req.get('host')}${path}`;
+}
+
+async function sendVerificationEmail(req: Request, user: User) {
+  const token = await issueUserToken(user, 'email_verification', EMAIL_VERIFICATION_HOURS * 60 * 60 * 1000);
+  const url = appUrl(req, `/verify-email?token=${token}`);
+  await sendEmail({
+    to: user.email,
+    subject: 'Confirm your email address for Opian Core',
+    text: `Hi ${user.firstName},\n\nPlease confirm your email address to finish setting up your Opian Core account:\n\n${url}\n\nThis link expires in ${EMAIL_VERIFICATION_HOURS} hours.`,
+  });
+}
+
+async function sendPasswordResetEmail(req: Request, user: User) {
+  const token = await issueUserToken(user, 'password_reset', PASSWORD_RESET_MINUTES * 60 * 1000);
+  const url = appUrl(req, `/reset-password?token=${token}`);
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset your Opian Core password',
+    text: `Hi ${user.firstName},\n\nSomeone asked to reset the password for your Opian Core account. If it was you, choose a new password here:\n\n${url}\n\nThis link expires in ${PASSWORD_RESET_MINUTES} minutes. If you didn't ask for a reset, you can ignore this email.`,
+  });
+}
+
+// Cookie tying a sign-in at an external provider to the browser that started it.
+// SameSite=None in production so the SAML provider's cross-site POST carries it.
+const AUTH_FLOW_COOKIE = 'opian_auth_flow';
+const AUTH_FLOW_MINUTES = 10;
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of req.headers.cookie?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+// The role a provider's groups map to, or null if the provider has no role map
+async function roleForGroups(settings: AuthProviderSettings, groups: string[]): Promise<string | null> {
+  const mappings = Object.entries(settings.roleMap);
+  if (mappings.length === 0) {
+    return null;
+  }
+  const role = mappings.find(([group]) => groups.includes(group))?.[1] ?? settings.defaultRole;
+  const roles = await storage.getRoles();
+  if (!roles.some((r) => r.key === role)) {
+    console.error(`Sign-in provider ${settings.key} maps to unknown role "${role}"`);
+    return null;
+  }
+  return role;
+}
+
+// Finds the user an external identity signs in as: the user its provider and
+// subject were linked to before, else the user with the same verified email
+// address, else (if the provider allows sign-up) a new user. An unverified
+// address never reaches an account, or anyone could claim one by setting it.
+async function resolveExternalUser(settings: AuthProviderSettings, identity: ExternalIdentity): Promise<User> {
+  const mappedRole = await roleForGroups(settings, identity.groups);
+  let user: User | undefined;
+
+  const linked = await storage.getUserIdentity(settings.key, identity.subject);
+  if (linked) {
+    await storage.recordIdentityLogin(linked.id, identity.email);
+    user = await storage.getUser(linked.userId);
+  } else {
+    if (!identity.email || !(identity.emailVerified || settings.trustEmail)) {
+      throw new AuthProviderError("Your sign-in provider didn't share a verified email address");
+    }
+
+    const existing = (await storage.searchUsers(identity.email))[0];
+    if (existing) {
+      if (existing.organisationId !== settings.organisationId) {
+        throw new AuthProviderError("This account can't sign in with this provider");
+      }
+      await storage.createUserIdentity({
+        userId: existing.id,
+        provider: settings.key,
+        subject: identity.subject,
+        email: identity.email,
+      });
+      user = existing;
+    } else if (settings.allowSignup) {
+      user = await storage.createUserWithIdentity(
+        {
+          id: nanoid(),
+          email: identity.email,
+          firstName: identity.firstName ?? identity.email.split('@')[0],
+          lastName: identity.lastName ?? '',
+          // Never used: these users sign in through the provider
+          passwordHash: await hashPassword(generateToken()),
+          role: mappedRole ?? settings.defaultRole,
+          organisationId: settings.organisationId,
+          emailVerifiedAt: new Date(),
+        },
+        { provider: settings.key, subject: identity.subject, email: identity.email },
+      );
+    } else {
+      throw new AuthProviderError("There's no Opian Core account for this email address. Ask your administrator for an invitation.");
+    }
+  }
+
+  if (!user) {
+    throw new AuthProviderError("There's no Opian Core account for this email address");
+  }
+  // A provider with a role map decides the role at every sign-in
+  if (mappedRole && mappedRole !== user.role) {
+    user = await storage.updateUser(user.id, { role: mappedRole });
+  }
+  return user;
+}
+
+// Routes for email and password sign-in answer 404 when it's turned off
+const requireLocalAuth: RequestHandler = (req, res, next) => {
+  if (!localAuthEnabled) {
+    return res.status(404).json({ message: "Password sign-in is disabled" });
+  }
+  next();
+};
+
+// How long a user has to enter their authentication code after their password
+const TWO_FACTOR_LOGIN_MINUTES = 5;
+
+// Issues a fresh set of recovery codes, replacing any earlier ones
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map((code) => sha256(normaliseRecoveryCode(code))));
+  return codes;
+}
+
+// Accepts a code from the user's authenticator app or one of their recovery codes
+async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  const step = matchTotpStep(code, user.totpSecret);
+  if (step !== null) {
+    if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep) {
+      return false;
+    }
+    await storage.updateUser(user.id, { totpLastUsedStep: step });
+    return true;
+  }
+
+  return storage.useRecoveryCode(user.id, sha256(normaliseRecoveryCode(code)));
+}
+
+// Checks the code a signed-in user gives to change their two-factor settings.
+// Wrong codes count towards the sign-in lockout, so a session left open can't
+// be used to guess them. Sends the error response and returns false if the
+// code isn't accepted.
+async function confirmSecondFactor(req: Request, res: Response, user: User, code: string): Promise<boolean> {
+  if (isLockedOut(user)) {
+    await recordLoginAttempt(req, user.email, user.id, false, 'locked');
+    tooManyAttempts(res, user.lockedUntil!);
+    return false;
+  }
+  if (!await verifySecondFactor(user, code)) {
+    const lockedUntil = await recordFailedLogin(req, user.email, user, 'invalid_code');
+    if (lockedUntil) {
+      tooManyAttempts(res, lockedUntil);
+    } else {
+      res.status(400).json({ message: "Invalid authentication code" });
+    }
+    return false;
+  }
+  return true;
+}
+
+// True when the user's organisation requires two-factor authentication and
+// they haven't set it up yet
+async function twoFactorSetupRequired(user: User): Promise<boolean> {
+  if (user.totpEnabledAt) {
+    return false;
+  }
+  const organisation = await storage.getOrganisation(user.organisationId);
+  return !!organisation?.requireTwoFactor;
+}
+
 // Password hashing utilities
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12;
@@ -67,64 +373,282 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-// Authentication middleware
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  if (!req.session?.user?.id) {
-    return res.status(401).json({ message: "Unauthorized" });
+// Resolves the user's role permissions and the records they may work with
+async function loadActor(user: User) {
+  const rolePermissions = await storage.getRolePermissions(user.role);
+  const branchUserIds = user.branchId ? await storage.getBranchUserIds(user.branchId) : [];
+  return buildActor(user, rolePermissions, branchUserIds);
+}
+
+// The user a bearer token acts for, or undefined once a 401 or 403 has been sent
+async function apiTokenUser(req: Request, res: Response, token: string): Promise<User | undefined> {
+  const apiToken = await storage.getApiTokenByHash(sha256(token));
+  const user = apiToken && apiToken.expiresAt > new Date() ? await storage.getUser(apiToken.userId) : undefined;
+  if (!apiToken || !user || !user.isActive) {
+    res.status(401).json({ message: "Unauthorized" });
+    return undefined;
   }
 
-  try {
-    // Verify user still exists in database
-    const user = await storage.getUser(req.session.user.id);
-    if (!user) {
-      req.session.destroy(() => {});
+  const scope = requiredTokenScope(req);
+  if (!scope) {
+    res.status(403).json({ message: "API tokens can't be used for this endpoint" });
+    return undefined;
+  }
+  if (!tokenAllows(apiToken.scopes, scope.resource, scope.access)) {
+    res.status(403).json({ message: `This API token doesn't have the ${scope.resource}:${scope.access} scope` });
+    return undefined;
+  }
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await storage.recordApiTokenUse(apiToken.id, req.ip || 'unknown');
+  }
+  return user;
+}
+
+// Authentication middleware, for a browser session or a personal API token.
+// Users who still have to set up two-factor authentication only get through
+// to the routes that let them do so.
+function authenticate(allowTwoFactorSetup: boolean): RequestHandler {
+  return async (req, res, next) => {
+    const token = bearerToken(req);
+    if (!token && !req.session?.user?.id) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Attach user to request for easy access
-    (req as any).user = user;
+    try {
+      let user: User | undefined;
+      if (token) {
+        user = await apiTokenUser(req, res, token);
+        if (!user) {
+          return;
+        }
+      } else {
+        // Verify user still exists in database and hasn't been disabled
+        user = await storage.getUser(req.session.user!.id);
+        // Signed out everywhere (e.g. by a password change) since this session began
+        const sessionVersion = req.session.user!.sessionVersion ?? 0;
+        if (!user || !user.isActive || sessionVersion !== user.sessionVersion) {
+          req.session.destroy(() => {});
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+
+        const now = Date.now();
+        const activity = req.session.activity;
+        if (!activity || now - activity.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+          req.session.activity = {
+            ipAddress: req.ip || 'unknown',
+            userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+            // Sessions from before activity was recorded started at an unknown time
+            signedInAt: activity?.signedInAt ?? now,
+            lastSeenAt: now,
+          };
+        }
+      }
+
+      if (!allowTwoFactorSetup && await twoFactorSetupRequired(user)) {
+        return res.status(403).json({
+          message: "Set up two-factor authentication to continue",
+          twoFactorSetupRequired: true,
+        });
+      }
+
+      // Attach user, with their permissions, to request for easy access
+      (req as any).user = await loadActor(user);
+      next();
+    } catch (error) {
+      console.error("Error verifying user session:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+export const isAuthenticated = authenticate(false);
+
+const isAuthenticatedForTwoFactorSetup = authenticate(true);
+
+// Use after isAuthenticated on routes that need a role permission
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!hasPermission((req as any).user, permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
     next();
-  } catch (error) {
-    console.error("Error verifying user session:", error);
-    res.status(500).json({ message: "Internal server error" });
-  }
-};
+  };
+}
 
 // Setup authentication routes
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
 
-  // Registration endpoint
-  app.post('/api/auth/register', async (req, res) => {
+  // Sign-in methods for the login page
+  app.get('/api/auth/providers', (req, res) => {
+    res.json({
+      local: localAuthEnabled,
+      providers: Array.from(getAuthProviders().values(), ({ settings }) => ({ key: settings.key, name: settings.name })),
+    });
+  });
+
+  // Sends the browser to an external provider to sign in
+  app.get('/api/auth/providers/:key/start', async (req, res) => {
+    const provider = getAuthProviders().get(req.params.key);
+    if (!provider) {
+      return res.status(404).json({ message: "Sign-in provider not found" });
+    }
+
+    try {
+      const callbackUrl = appUrl(req, `/api/auth/providers/${provider.settings.key}/callback`);
+      const { redirectUrl, flowData } = await provider.start(callbackUrl);
+      const token = generateToken();
+      await storage.createAuthFlow({
+        tokenHash: sha256(token),
+        provider: provider.settings.key,
+        data: flowData,
+        expiresAt: new Date(Date.now() + AUTH_FLOW_MINUTES * 60 * 1000),
+      });
+
+      const production = process.env.NODE_ENV === 'production';
+      res.cookie(AUTH_FLOW_COOKIE, token, {
+        httpOnly: true,
+        secure: production,
+        sameSite: production ? 'none' : 'lax',
+        maxAge: AUTH_FLOW_MINUTES * 60 * 1000,
+        path: '/api/auth/providers',
+      });
+      res.redirect(redirectUrl);
+    } catch (error) {
+      console.error("Error starting external sign-in:", error);
+      res.redirect(`/login?error=${encodeURIComponent("Sign-in is unavailable right now. Please try again.")}`);
+    }
+  });
+
+  // Where the provider sends the browser back: a GET for OIDC, a POST for SAML
+  const finishExternalLogin: RequestHandler = async (req, res) => {
+    const provider = getAuthProviders().get(req.params.key);
+    if (!provider || req.method.toLowerCase() !== provider.callbackMethod) {
+      return res.status(404).json({ message: "Sign-in provider not found" });
+    }
+    const loginError = (message: string) => res.redirect(`/login?error=${encodeURIComponent(message)}`);
+
     try {
-      const { email, password, firstName, lastName } = req.body;
+      const token = readCookie(req, AUTH_FLOW_COOKIE);
+      res.clearCookie(AUTH_FLOW_COOKIE, { path: '/api/auth/providers' });
+      const flow = token ? await storage.consumeAuthFlow(sha256(token)) : undefined;
+      if (!flow || flow.provider !== provider.settings.key) {
+        return loginError("Your sign-in has expired. Please try again.");
+      }
 
-      if (!email || !password || !firstName || !lastName) {
-        return res.status(400).json({ message: "All fields are required" });
+      const callbackUrl = appUrl(req, `/api/auth/providers/${provider.settings.key}/callback`);
+      const identity = await provider.finish(req, callbackUrl, flow.data);
+      let user: User;
+      try {
+        user = await resolveExternalUser(provider.settings, identity);
+      } catch (error) {
+        await recordLoginAttempt(req, identity.email ?? identity.subject, null, false, 'unknown_user');
+        throw error;
+      }
+      if (!user.isActive) {
+        await recordLoginAttempt(req, user.email, user.id, false, 'disabled');
+        return loginError("This account has been disabled");
+      }
+
+      // Users with two-factor authentication still enter their code
+      if (user.totpEnabledAt) {
+        delete req.session.user;
+        req.session.pendingTwoFactor = {
+          id: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_MINUTES * 60 * 1000,
+        };
+        return res.redirect('/login?two-factor=1');
+      }
+
+      await recordSuccessfulLogin(req, user);
+      startSession(req, user);
+      res.redirect('/');
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        return loginError(error.message);
+      }
+      console.error("External sign-in error:", error);
+      loginError("Sign-in failed. Please try again.");
+    }
+  };
+  app.get('/api/auth/providers/:key/callback', finishExternalLogin);
+  app.post('/api/auth/providers/:key/callback', finishExternalLogin);
+
+  // Invitation details for the registration page
+  app.get('/api/auth/invites/:token', async (req, res) => {
+    try {
+      const invite = await storage.getUserInviteByTokenHash(sha256(req.params.token));
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json({ email: invite.email, expiresAt: invite.expiresAt });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Registration endpoint. Closed unless the user has an invitation or their
+  // email domain is on an organisation's sign-up list.
+  app.post('/api/auth/register', requireLocalAuth, async (req, res) => {
+    try {
+      const { inviteToken, password, ...profile } = registerSchema.parse(req.body);
+      const problems = passwordProblems(password, personalPasswordTerms(profile));
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems[0] });
       }
 
       // Check if user already exists
-      const existingUsers = await storage.searchUsers(email);
+      const existingUsers = await storage.searchUsers(profile.email);
       if (existingUsers.length > 0) {
         return res.status(400).json({ message: "User already exists" });
       }
 
-      // Hash password and create user
-      const hashedPassword = await hashPassword(password);
-      const userId = nanoid();
-      
-      const user = await storage.upsertUser({
-        id: userId,
-        email,
-        firstName,
-        lastName,
-        passwordHash: hashedPassword,
-        role: 'consultant', // default role
-      });
+      const passwordHash = await hashPassword(password);
+      let user: User | undefined;
+
+      if (inviteToken) {
+        const invite = await storage.getUserInviteByTokenHash(sha256(inviteToken));
+        if (!invite) {
+          return res.status(400).json({ message: "This invitation is invalid or has expired" });
+        }
+        if (invite.email !== profile.email.toLowerCase()) {
+          return res.status(400).json({ message: "This invitation is for a different email address" });
+        }
+        user = await storage.registerInvitedUser(invite.id, {
+          ...profile,
+          id: nanoid(),
+          email: invite.email,
+          passwordHash,
+          role: invite.role,
+          organisationId: invite.organisationId,
+          // The invitation was addressed to this email
+          emailVerifiedAt: new Date(),
+        });
+        if (!user) {
+          return res.status(400).json({ message: "This invitation is invalid or has expired" });
+        }
+      } else {
+        const signupDomain = await storage.getSignupDomain(profile.email.split('@')[1].toLowerCase());
+        if (!signupDomain) {
+          return res.status(403).json({ message: "Registration is by invitation only" });
+        }
+        // Domain sign-ups must prove they own the address before signing in
+        user = await storage.upsertUser({
+          ...profile,
+          id: nanoid(),
+          passwordHash,
+          role: DEFAULT_ROLE,
+          organisationId: signupDomain.organisationId,
+        });
+        await sendVerificationEmail(req, user);
+        return res.status(201).json({ email: user.email, verificationRequired: true });
+      }
 
       // Create session
-      req.session.user = { id: user.id, email: user.email };
+      startSession(req, user);
       
       res.status(201).json({
         id: user.id,
@@ -134,36 +658,73 @@ export async function setupAuth(app: Express) {
         role: user.role,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
       console.error("Registration error:", error);
       res.status(500).json({ message: "Registration failed" });
     }
   });
 
   // Login endpoint
-  app.post('/api/auth/login', async (req, res) => {
+  app.post('/api/auth/login', requireLocalAuth, async (req, res) => {
     try {
       const { email, password } = req.body;
 
-      if (!email || !password) {
+      if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
         return res.status(400).json({ message: "Email and password are required" });
       }
 
+      const blockedUntil = await ipBlockedUntil(req.ip || 'unknown');
+      if (blockedUntil) {
+        return tooManyAttempts(res, blockedUntil);
+      }
+
       // Find user by email
       const users = await storage.searchUsers(email);
       const user = users.find(u => u.email === email);
       
       if (!user || !user.passwordHash) {
+        await recordFailedLogin(req, email, undefined, 'unknown_user');
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Verify password
+      // A wrong password gets the same answer whether or not the account
+      // exists or is locked; only the right password learns of a lockout
       const isValidPassword = await comparePassword(password, user.passwordHash);
+      if (isLockedOut(user)) {
+        await recordLoginAttempt(req, email, user.id, false, 'locked');
+        return isValidPassword
+          ? tooManyAttempts(res, user.lockedUntil!)
+          : res.status(401).json({ message: "Invalid credentials" });
+      }
       if (!isValidPassword) {
+        await recordFailedLogin(req, email, user, 'invalid_password');
         return res.status(401).json({ message: "Invalid credentials" });
       }
+      if (!user.isActive) {
+        await recordLoginAttempt(req, email, user.id, false, 'disabled');
+        return res.status(403).json({ message: "This account has been disabled" });
+      }
+      if (!user.emailVerifiedAt) {
+        await recordLoginAttempt(req, email, user.id, false, 'unverified');
+        return res.status(403).json({ message: "Please confirm your email address before signing in" });
+      }
+
+      // The session only becomes signed in once the second factor is checked
+      if (user.totpEnabledAt) {
+        delete req.session.user;
+        req.session.pendingTwoFactor = {
+          id: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_MINUTES * 60 * 1000,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
+
+      await recordSuccessfulLogin(req, user);
 
       // Create session
-      req.session.user = { id: user.id, email: user.email };
+      startSession(req, user);
       
       res.json({
         id: user.id,
@@ -178,6 +739,147 @@ export async function setupAuth(app: Express) {
     }
   });
 
+  // Second login step for users with two-factor authentication
+  app.post('/api/auth/login/two-factor', async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const user = await storage.getUser(pending.id);
+      if (!user || !user.isActive) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+      if (isLockedOut(user)) {
+        delete req.session.pendingTwoFactor;
+        await recordLoginAttempt(req, user.email, user.id, false, 'locked');
+        return tooManyAttempts(res, user.lockedUntil!);
+      }
+      // Wrong codes count towards the lockout just like wrong passwords
+      if (!await verifySecondFactor(user, code)) {
+        const lockedUntil = await recordFailedLogin(req, user.email, user, 'invalid_code');
+        if (lockedUntil) {
+          delete req.session.pendingTwoFactor;
+          return tooManyAttempts(res, lockedUntil);
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await recordSuccessfulLogin(req, user);
+      delete req.session.pendingTwoFactor;
+      startSession(req, user);
+
+      res.json({
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid authentication code", errors: error.errors });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // Email verification: the link from the verification email signs the user in
+  app.post('/api/auth/verify-email', async (req, res) => {
+    try {
+      const token = typeof req.body?.token === 'string' ? req.body.token : '';
+      const userToken = token && await storage.consumeUserToken(sha256(token), 'email_verification');
+      const user = userToken && await storage.getUser(userToken.userId);
+      if (!user || !user.isActive) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      startSession(req, user);
+      res.json({ message: "Email address confirmed" });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Email verification failed" });
+    }
+  });
+
+  // Responses don't say whether the address has an account
+  app.post('/api/auth/resend-verification', requireLocalAuth, async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const user = (await storage.searchUsers(email))[0];
+      if (user && user.isActive && !user.emailVerifiedAt) {
+        await sendVerificationEmail(req, user);
+      }
+      res.json({ message: "If that address is awaiting confirmation, we've sent a new link" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email address", errors: error.errors });
+      }
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send confirmation email" });
+    }
+  });
+
+  // Password reset. Asking for a reset never reveals whether the address has an account.
+  app.post('/api/auth/forgot-password', requireLocalAuth, async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const user = (await storage.searchUsers(email))[0];
+      if (user && user.isActive) {
+        await sendPasswordResetEmail(req, user);
+      }
+      res.json({ message: "If that address has an account, we've sent a link to reset the password" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email address", errors: error.errors });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to send password reset email" });
+    }
+  });
+
+  app.post('/api/auth/reset-password', requireLocalAuth, async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const pendingToken = await storage.getUserToken(sha256(token), 'password_reset');
+      const user = pendingToken && await storage.getUser(pendingToken.userId);
+      if (!user || !user.isActive) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+
+      // Checked before the link is used up, so the user can pick another password
+      const problems = passwordProblems(password, personalPasswordTerms(user));
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems[0] });
+      }
+      if (!(await storage.consumeUserToken(sha256(token), 'password_reset'))) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+
+      // Following the emailed link also proves the address, and unlocks the account
+      await storage.updateUser(user.id, {
+        passwordHash: await hashPassword(password),
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null,
+      });
+      await destroyUserSessions(user.id);
+      res.json({ message: "Password updated. You can now sign in." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password reset data", errors: error.errors });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
   // Logout endpoint
   app.post('/api/auth/logout', (req, res) => {
     req.session.destroy((err) => {
@@ -191,7 +893,7 @@ export async function setupAuth(app: Express) {
   });
 
   // Get current user endpoint
-  app.get('/api/auth/user', isAuthenticated, async (req, res) => {
+  app.get('/api/auth/user', isAuthenticatedForTwoFactorSetup, async (req, res) => {
     try {
       const user = (req as any).user;
       res.json({
@@ -200,10 +902,249 @@ export async function setupAuth(app: Express) {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        permissions: user.permissions,
+        platformAdmin: isPlatformAdmin(user),
+        twoFactorEnabled: !!user.totpEnabledAt,
+        twoFactorSetupRequired: await twoFactorSetupRequired(user),
       });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
-}
\ No newline at end of file
+
+  // The signed-in user's recent sign-in attempts
+  app.get('/api/auth/login-attempts', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      res.json(await storage.getLoginAttempts(user.id, LOGIN_HISTORY_LIMIT));
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+      res.status(500).json({ message: "Failed to fetch login attempts" });
+    }
+  });
+
+  // Two-factor authentication status for the signed-in user
+  app.get('/api/auth/two-factor', isAuthenticatedForTwoFactorSetup, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      res.json({
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        required: !!(await storage.getOrganisation(user.organisationId))?.requireTwoFactor,
+        recoveryCodesRemaining: user.totpEnabledAt ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrolment with a new secret. It isn't used to sign in until it's
+  // confirmed with a code from the app.
+  app.post('/api/auth/two-factor/setup', isAuthenticatedForTwoFactorSetup, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totpSecret: secret, totpLastUsedStep: null });
+      const uri = totpUri(user.email, secret);
+      res.json({ secret, uri, qrCode: await totpQrCode(uri) });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post('/api/auth/two-factor/enable', isAuthenticatedForTwoFactorSetup, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = (req as any).user;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = matchTotpStep(code, user.totpSecret);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.updateUser(user.id, { totpEnabledAt: new Date(), totpLastUsedStep: step });
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid authentication code", errors: error.errors });
+      }
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/two-factor/recovery-codes', isAuthenticated, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = (req as any).user;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!await confirmSecondFactor(req, res, user, code)) {
+        return;
+      }
+
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid authentication code", errors: error.errors });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post('/api/auth/two-factor/disable', isAuthenticated, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = (req as any).user;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      const organisation = await storage.getOrganisation(user.organisationId);
+      if (organisation?.requireTwoFactor) {
+        return res.status(403).json({ message: "Your organisation requires two-factor authentication" });
+      }
+      if (!await confirmSecondFactor(req, res, user, code)) {
+        return;
+      }
+
+      await storage.disableTwoFactor(user.id);
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid authentication code", errors: error.errors });
+      }
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // The signed-in user's sessions. Ids are hashes of the session ids, which
+  // never leave the server.
+  app.get('/api/auth/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const sessions = (await getUserSessions(user.id))
+        .filter(({ data }) => (data.user?.sessionVersion ?? 0) === user.sessionVersion)
+        .map(({ sessionId, expires, data }) => ({
+          id: sha256(sessionId),
+          current: sessionId === req.sessionID,
+          ipAddress: data.activity?.ipAddress ?? null,
+          userAgent: data.activity?.userAgent ?? null,
+          signedInAt: data.activity ? new Date(data.activity.signedInAt) : null,
+          lastSeenAt: data.activity ? new Date(data.activity.lastSeenAt) : null,
+          expiresAt: new Date(expires * 1000),
+        }))
+        .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const session = (await getUserSessions(user.id)).find(({ sessionId }) => sha256(sessionId) === req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (session.sessionId === req.sessionID) {
+        req.session.destroy(() => {});
+        res.clearCookie('connect.sid');
+      } else {
+        await pool.execute(`DELETE FROM sessions WHERE session_id = ?`, [session.sessionId]);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error ending session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Signs the user out on every device, this one included
+  app.delete('/api/auth/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      await destroyUserSessions(user.id);
+      req.session.destroy(() => {});
+      res.clearCookie('connect.sid');
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error signing out everywhere:", error);
+      res.status(500).json({ message: "Failed to sign out everywhere" });
+    }
+  });
+
+  // Personal API tokens. They're managed from a browser session only.
+  app.get('/api/auth/api-tokens', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      res.json(await storage.getApiTokens(user.id));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post('/api/auth/api-tokens', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+
+      const existing = await storage.getApiTokens(user.id);
+      if (existing.length >= MAX_API_TOKENS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_API_TOKENS_PER_USER} API tokens. Revoke one you no longer use.` });
+      }
+
+      const { token, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: user.id,
+        name,
+        tokenHash: sha256(token),
+        tokenPrefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+      // The only time the token itself is sent
+      res.status(201).json({ ...apiToken, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid API token data", errors: error.errors });
+      }
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete('/api/auth/api-tokens/:id', isAuthenticated, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (!await storage.deleteApiToken(req.params.id, user.id)) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+}
@@ -1,6 +1,9 @@
 import mysql from 'mysql2/promise';
 import { drizzle } from 'drizzle-orm/mysql2';
 import * as schema from "@shared/schema";
+import { DEFAULT_ORGANISATION_ID } from "@shared/schema";
+import { DEFAULT_SEQUENCES, sequencePeriod } from "@shared/numberSequence";
+import { DEFAULT_ROLES } from "@shared/permissions";
 
 if (!process.env.XNEELO_DB_HOST || !process.env.XNEELO_DB_NAME || !process.env.XNEELO_DB_USER || !process.env.XNEELO_DB_PASSWORD) {
   throw new Error(
@@ -37,11 +40,112 @@ export async function testConnection() {
   }
 }
 
+// Add a column to an existing table (MySQL has no ADD COLUMN IF NOT EXISTS).
+// Returns whether the column was added.
+async function ensureColumnExists(
+  connection: mysql.PoolConnection,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<boolean> {
+  const [rows] = await connection.execute(
+    `SELECT COUNT(*) AS count FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column],
+  );
+  if ((rows as any[])[0].count === 0) {
+    await connection.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  return false;
+}
+
+// Change the type of an existing column, unless it already has that type
+async function ensureColumnType(
+  connection: mysql.PoolConnection,
+  table: string,
+  column: string,
+  dataType: string,
+  definition: string,
+): Promise<void> {
+  const [rows] = await connection.execute(
+    `SELECT data_type AS dataType FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = ? AND column_name = ?`,
+    [table, column],
+  );
+  const current = (rows as any[])[0]?.dataType;
+  if (current && current.toLowerCase() !== dataType) {
+    await connection.execute(`ALTER TABLE ${table} MODIFY COLUMN ${column} ${definition}`);
+  }
+}
+
 // Function to create tables if they don't exist
 export async function ensureTablesExist() {
   try {
     const connection = await pool.getConnection();
     
+    // Create organisations table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS organisations (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        name TEXT NOT NULL,
+        require_two_factor BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.execute(
+      `INSERT IGNORE INTO organisations (id, name) VALUES (?, ?)`,
+      [DEFAULT_ORGANISATION_ID, 'Opian Core'],
+    );
+
+    // Create roles and role permissions tables
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS roles (
+        role_key VARCHAR(50) PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        role_key VARCHAR(50) NOT NULL,
+        permission VARCHAR(50) NOT NULL,
+        PRIMARY KEY (role_key, permission),
+        FOREIGN KEY (role_key) REFERENCES roles(role_key) ON DELETE CASCADE
+      )
+    `);
+
+    // Seed the built-in roles. Permissions are only seeded with a new role so
+    // that an admin's later changes survive restarts.
+    for (const role of DEFAULT_ROLES) {
+      const [result] = await connection.execute(
+        `INSERT IGNORE INTO roles (role_key, name, description) VALUES (?, ?, ?)`,
+        [role.key, role.name, role.description],
+      );
+      if ((result as mysql.ResultSetHeader).affectedRows > 0) {
+        for (const permission of role.permissions) {
+          await connection.execute(
+            `INSERT IGNORE INTO role_permissions (role_key, permission) VALUES (?, ?)`,
+            [role.key, permission],
+          );
+        }
+      }
+    }
+
+    // Create branches table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS branches (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        organisation_id VARCHAR(36) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id)
+      )
+    `);
+
     // Create users table
     await connection.execute(`
       CREATE TABLE IF NOT EXISTS users (
@@ -52,8 +156,140 @@ export async function ensureTablesExist() {
         profile_image_url VARCHAR(512),
         password_hash VARCHAR(255) NOT NULL,
         role VARCHAR(50) NOT NULL DEFAULT 'consultant',
+        organisation_id VARCHAR(36) NOT NULL DEFAULT 'default',
+        branch_id VARCHAR(36),
+        acts_for_user_id VARCHAR(36),
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        deactivated_at TIMESTAMP NULL,
+        email_verified_at TIMESTAMP NULL,
+        totp_secret VARCHAR(64),
+        totp_enabled_at TIMESTAMP NULL,
+        totp_last_used_step INT,
+        failed_login_count INT NOT NULL DEFAULT 0,
+        locked_until TIMESTAMP NULL,
+        session_version INT NOT NULL DEFAULT 0,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id),
+        FOREIGN KEY (branch_id) REFERENCES branches(id)
+      )
+    `);
+
+    // Create user tokens table (password resets and email verification)
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_tokens (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36) NOT NULL,
+        purpose VARCHAR(30) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create two-factor recovery codes table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_recovery_codes (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36) NOT NULL,
+        code_hash VARCHAR(64) NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX IDX_user_recovery_codes_user (user_id)
+      )
+    `);
+
+    // Create external identities table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36) NOT NULL,
+        provider VARCHAR(50) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        email VARCHAR(255),
+        last_login_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE INDEX IDX_user_identity_subject (provider, subject)
+      )
+    `);
+
+    // Create personal API tokens table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        token_prefix VARCHAR(16) NOT NULL,
+        scopes JSON NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        last_used_at TIMESTAMP NULL,
+        last_used_ip VARCHAR(45),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create external sign-in flows table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS auth_flows (
+        token_hash VARCHAR(64) PRIMARY KEY,
+        provider VARCHAR(50) NOT NULL,
+        data JSON NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create login attempts table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36),
+        email VARCHAR(255) NOT NULL,
+        ip_address VARCHAR(45) NOT NULL,
+        user_agent VARCHAR(512),
+        succeeded BOOLEAN NOT NULL,
+        reason VARCHAR(30),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX IDX_login_attempts_user (user_id, created_at),
+        INDEX IDX_login_attempts_ip (ip_address, created_at)
+      )
+    `);
+
+    // Create user invitations table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_invites (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        organisation_id VARCHAR(36) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        role VARCHAR(50) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        accepted_at TIMESTAMP NULL,
+        accepted_by VARCHAR(36),
+        created_by VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id),
+        FOREIGN KEY (accepted_by) REFERENCES users(id),
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create sign-up domains table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS signup_domains (
+        domain VARCHAR(255) PRIMARY KEY,
+        organisation_id VARCHAR(36) NOT NULL,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id),
+        FOREIGN KEY (created_by) REFERENCES users(id)
       )
     `);
 
@@ -61,11 +297,24 @@ export async function ensureTablesExist() {
     await connection.execute(`
       CREATE TABLE IF NOT EXISTS clients (
         id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        client_type VARCHAR(20) NOT NULL DEFAULT 'individual',
         name TEXT NOT NULL,
         company TEXT,
         email TEXT,
         phone TEXT,
         address TEXT,
+        postal_address TEXT,
+        id_number TEXT,
+        passport_number TEXT,
+        date_of_birth DATE,
+        tax_number TEXT,
+        registration_number VARCHAR(50),
+        related_persons JSON,
+        bank_name VARCHAR(100),
+        bank_account_holder TEXT,
+        bank_account_number TEXT,
+        bank_branch_code VARCHAR(10),
+        bank_account_type VARCHAR(20),
         notes TEXT,
         status VARCHAR(50) NOT NULL DEFAULT 'active',
         created_by VARCHAR(36) NOT NULL,
@@ -83,11 +332,17 @@ export async function ensureTablesExist() {
         quote_number VARCHAR(100) NOT NULL UNIQUE,
         title TEXT NOT NULL,
         description TEXT,
+        type VARCHAR(50) NOT NULL DEFAULT 'standard',
         items JSON NOT NULL,
+        plan_inputs JSON,
+        projections JSON,
         subtotal DECIMAL(12,2) NOT NULL,
         tax DECIMAL(12,2) NOT NULL DEFAULT 0,
+        tax_rate DECIMAL(6,3),
         total DECIMAL(12,2) NOT NULL,
         status VARCHAR(50) NOT NULL DEFAULT 'draft',
+        accepted_at TIMESTAMP NULL,
+        revision INT NOT NULL DEFAULT 1,
         valid_until TIMESTAMP,
         created_by VARCHAR(36) NOT NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -97,6 +352,86 @@ export async function ensureTablesExist() {
       )
     `);
 
+    // Create quote revisions table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS quote_revisions (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        quote_id VARCHAR(36) NOT NULL,
+        revision INT NOT NULL,
+        snapshot JSON NOT NULL,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE INDEX IDX_quote_revision (quote_id, revision),
+        FOREIGN KEY (quote_id) REFERENCES quotes(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create quote status history table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS quote_status_history (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        quote_id VARCHAR(36) NOT NULL,
+        from_status VARCHAR(50),
+        to_status VARCHAR(50) NOT NULL,
+        changed_by VARCHAR(36),
+        note TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX IDX_quote_status_history_quote (quote_id),
+        FOREIGN KEY (quote_id) REFERENCES quotes(id) ON DELETE CASCADE,
+        FOREIGN KEY (changed_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create notifications table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(36) NOT NULL,
+        type VARCHAR(50) NOT NULL,
+        title TEXT NOT NULL,
+        message TEXT,
+        link VARCHAR(255),
+        read_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX IDX_notifications_user (user_id, read_at),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    // Create number sequences table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS number_sequences (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        organisation_id VARCHAR(36) NOT NULL,
+        sequence_key VARCHAR(100) NOT NULL,
+        format VARCHAR(100) NOT NULL,
+        reset_period VARCHAR(20) NOT NULL DEFAULT 'yearly',
+        current_period VARCHAR(20) NOT NULL DEFAULT '',
+        next_value INT NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE INDEX IDX_number_sequence_key (organisation_id, sequence_key),
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id)
+      )
+    `);
+
+    // Create tax rates table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS tax_rates (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        organisation_id VARCHAR(36) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        rate_percent DECIMAL(6,3) NOT NULL,
+        effective_from TIMESTAMP NOT NULL,
+        effective_to TIMESTAMP NULL,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (organisation_id) REFERENCES organisations(id),
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )
+    `);
+
     // Create meetings table
     await connection.execute(`
       CREATE TABLE IF NOT EXISTS meetings (
@@ -135,6 +470,242 @@ export async function ensureTablesExist() {
       )
     `);
 
+    // Create client FICA / KYC items table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS client_kyc_items (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        client_id VARCHAR(36) NOT NULL,
+        requirement VARCHAR(50) NOT NULL,
+        document_id VARCHAR(36) NOT NULL,
+        document_date TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        submitted_by VARCHAR(36) NOT NULL,
+        reviewed_by VARCHAR(36),
+        reviewed_at TIMESTAMP NULL,
+        review_note TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+        FOREIGN KEY (submitted_by) REFERENCES users(id),
+        FOREIGN KEY (reviewed_by) REFERENCES users(id),
+        INDEX IDX_client_kyc_items_client (client_id)
+      )
+    `);
+
+    // Create client contacts table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS client_contacts (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        client_id VARCHAR(36) NOT NULL,
+        role VARCHAR(30) NOT NULL,
+        name TEXT NOT NULL,
+        email TEXT,
+        phone TEXT,
+        notes TEXT,
+        created_by VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id),
+        INDEX IDX_client_contacts_client (client_id)
+      )
+    `);
+
+    // Create client interactions table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS client_interactions (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        client_id VARCHAR(36) NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        body TEXT NOT NULL,
+        occurred_at TIMESTAMP NOT NULL,
+        follow_up_on DATE,
+        author_id VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (author_id) REFERENCES users(id),
+        INDEX IDX_client_interactions_client (client_id, occurred_at)
+      )
+    `);
+
+    // Create client status history table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS client_status_history (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        client_id VARCHAR(36) NOT NULL,
+        from_status VARCHAR(50),
+        to_status VARCHAR(50) NOT NULL,
+        changed_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (changed_by) REFERENCES users(id),
+        INDEX IDX_client_status_history_client (client_id, created_at)
+      )
+    `);
+
+    // Create client relationships table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS client_relationships (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        from_client_id VARCHAR(36) NOT NULL,
+        to_client_id VARCHAR(36) NOT NULL,
+        type VARCHAR(30) NOT NULL,
+        created_by VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (from_client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (to_client_id) REFERENCES clients(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id),
+        UNIQUE INDEX IDX_client_relationships_link (from_client_id, to_client_id, type),
+        INDEX IDX_client_relationships_to (to_client_id)
+      )
+    `);
+
+    // Create quote share links table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS quote_share_links (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        quote_id VARCHAR(36) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_by VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (quote_id) REFERENCES quotes(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create quote responses table
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS quote_responses (
+        id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        quote_id VARCHAR(36) NOT NULL,
+        share_link_id VARCHAR(36) NOT NULL,
+        decision VARCHAR(20) NOT NULL,
+        signatory_name VARCHAR(255) NOT NULL,
+        signatory_id_number TEXT NOT NULL,
+        conditions_accepted BOOLEAN NOT NULL,
+        reason TEXT,
+        quote_revision INT NOT NULL,
+        pdf_hash VARCHAR(64) NOT NULL,
+        document_id VARCHAR(36),
+        ip_address VARCHAR(45),
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (quote_id) REFERENCES quotes(id) ON DELETE CASCADE,
+        FOREIGN KEY (share_link_id) REFERENCES quote_share_links(id) ON DELETE CASCADE,
+        FOREIGN KEY (document_id) REFERENCES documents(id)
+      )
+    `);
+
+    // Columns added after the initial release
+    await ensureColumnExists(connection, 'quotes', 'type', "VARCHAR(50) NOT NULL DEFAULT 'standard' AFTER description");
+    await ensureColumnExists(connection, 'quotes', 'plan_inputs', 'JSON AFTER items');
+    await ensureColumnExists(connection, 'quotes', 'projections', 'JSON AFTER plan_inputs');
+    await ensureColumnExists(connection, 'users', 'organisation_id', "VARCHAR(36) NOT NULL DEFAULT 'default' AFTER role");
+    await ensureColumnExists(connection, 'quotes', 'tax_rate', 'DECIMAL(6,3) AFTER tax');
+    await ensureColumnExists(connection, 'quotes', 'revision', 'INT NOT NULL DEFAULT 1 AFTER status');
+    await ensureColumnExists(connection, 'quotes', 'accepted_at', 'TIMESTAMP NULL AFTER status');
+    await ensureColumnExists(connection, 'quotes', 'agreement_number', 'VARCHAR(100) UNIQUE AFTER accepted_at');
+    await ensureColumnExists(connection, 'users', 'branch_id', 'VARCHAR(36) AFTER organisation_id');
+    await ensureColumnExists(connection, 'users', 'acts_for_user_id', 'VARCHAR(36) AFTER branch_id');
+    await ensureColumnExists(connection, 'users', 'is_active', 'BOOLEAN NOT NULL DEFAULT TRUE AFTER acts_for_user_id');
+    await ensureColumnExists(connection, 'users', 'deactivated_at', 'TIMESTAMP NULL AFTER is_active');
+    const addedEmailVerifiedAt = await ensureColumnExists(connection, 'users', 'email_verified_at', 'TIMESTAMP NULL AFTER deactivated_at');
+    if (addedEmailVerifiedAt) {
+      // Accounts from before verification existed are trusted as they are
+      await connection.execute(`UPDATE users SET email_verified_at = created_at, updated_at = updated_at`);
+    }
+    await ensureColumnExists(connection, 'users', 'totp_secret', 'VARCHAR(64) AFTER email_verified_at');
+    await ensureColumnExists(connection, 'users', 'totp_enabled_at', 'TIMESTAMP NULL AFTER totp_secret');
+    await ensureColumnExists(connection, 'users', 'totp_last_used_step', 'INT AFTER totp_enabled_at');
+    await ensureColumnExists(connection, 'users', 'failed_login_count', 'INT NOT NULL DEFAULT 0 AFTER totp_last_used_step');
+    await ensureColumnExists(connection, 'users', 'locked_until', 'TIMESTAMP NULL AFTER failed_login_count');
+    await ensureColumnExists(connection, 'users', 'session_version', 'INT NOT NULL DEFAULT 0 AFTER locked_until');
+    await ensureColumnExists(connection, 'organisations', 'require_two_factor', 'BOOLEAN NOT NULL DEFAULT FALSE AFTER name');
+    // Encrypted signatory ID numbers don't fit the original VARCHAR(50)
+    await ensureColumnType(connection, 'quote_responses', 'signatory_id_number', 'text', 'TEXT NOT NULL');
+    await ensureColumnExists(connection, 'clients', 'client_type', "VARCHAR(20) NOT NULL DEFAULT 'individual' AFTER id");
+    await ensureColumnExists(connection, 'clients', 'postal_address', 'TEXT AFTER address');
+    await ensureColumnExists(connection, 'clients', 'id_number', 'TEXT AFTER postal_address');
+    await ensureColumnExists(connection, 'clients', 'passport_number', 'TEXT AFTER id_number');
+    await ensureColumnExists(connection, 'clients', 'date_of_birth', 'DATE AFTER passport_number');
+    await ensureColumnExists(connection, 'clients', 'tax_number', 'TEXT AFTER date_of_birth');
+    await ensureColumnExists(connection, 'clients', 'registration_number', 'VARCHAR(50) AFTER tax_number');
+    await ensureColumnExists(connection, 'clients', 'related_persons', 'JSON AFTER registration_number');
+    await ensureColumnExists(connection, 'clients', 'bank_name', 'VARCHAR(100) AFTER related_persons');
+    await ensureColumnExists(connection, 'clients', 'bank_account_holder', 'TEXT AFTER bank_name');
+    await ensureColumnExists(connection, 'clients', 'bank_account_number', 'TEXT AFTER bank_account_holder');
+    await ensureColumnExists(connection, 'clients', 'bank_branch_code', 'VARCHAR(10) AFTER bank_account_number');
+    await ensureColumnExists(connection, 'clients', 'bank_account_type', 'VARCHAR(20) AFTER bank_branch_code');
+
+    // Carry on the default organisation's quote numbering from this year's
+    // highest existing number (compared numerically, so Q2025-1000 > Q2025-999)
+    const now = new Date();
+    const quotePrefix = `Q${now.getFullYear()}-`;
+    const [lastQuoteRows] = await connection.execute(
+      `SELECT MAX(CAST(SUBSTRING(quote_number, ?) AS UNSIGNED)) AS last FROM quotes WHERE quote_number LIKE ?`,
+      [quotePrefix.length + 1, `${quotePrefix}%`],
+    );
+    const lastQuoteNumber = Number((lastQuoteRows as any[])[0].last ?? 0);
+    await connection.execute(
+      `INSERT IGNORE INTO number_sequences (id, organisation_id, sequence_key, format, reset_period, current_period, next_value)
+       VALUES (UUID(), ?, 'quote', ?, ?, ?, ?)`,
+      [
+        DEFAULT_ORGANISATION_ID,
+        DEFAULT_SEQUENCES.quote.format,
+        DEFAULT_SEQUENCES.quote.resetPeriod,
+        sequencePeriod(DEFAULT_SEQUENCES.quote.resetPeriod, now),
+        lastQuoteNumber + 1,
+      ],
+    );
+
+    // Best available acceptance date for quotes accepted before it was recorded
+    await connection.execute(
+      `UPDATE quotes SET accepted_at = updated_at, updated_at = updated_at WHERE status = 'accepted' AND accepted_at IS NULL`
+    );
+
+    // Quotes saved before revisions existed start their history at revision 1
+    await connection.execute(`
+      INSERT INTO quote_revisions (id, quote_id, revision, snapshot, created_by, created_at)
+      SELECT UUID(), q.id, q.revision, JSON_OBJECT(
+        'id', q.id,
+        'quoteNumber', q.quote_number,
+        'clientId', q.client_id,
+        'title', q.title,
+        'description', q.description,
+        'type', q.type,
+        'items', q.items,
+        'planInputs', q.plan_inputs,
+        'projections', q.projections,
+        'subtotal', CAST(q.subtotal AS CHAR),
+        'tax', CAST(q.tax AS CHAR),
+        'taxRate', CAST(q.tax_rate AS CHAR),
+        'total', CAST(q.total AS CHAR),
+        'status', q.status,
+        'revision', q.revision,
+        'validUntil', DATE_FORMAT(q.valid_until, '%Y-%m-%dT%H:%i:%s.000Z'),
+        'createdBy', q.created_by,
+        'createdAt', DATE_FORMAT(q.created_at, '%Y-%m-%dT%H:%i:%s.000Z'),
+        'updatedAt', DATE_FORMAT(q.updated_at, '%Y-%m-%dT%H:%i:%s.000Z')
+      ), q.created_by, q.updated_at
+      FROM quotes q
+      WHERE NOT EXISTS (SELECT 1 FROM quote_revisions r WHERE r.quote_id = q.id)
+    `);
+
+    // South African VAT (15% since 1 April 2018) for the default organisation
+    const [existingRates] = await connection.execute(
+      `SELECT COUNT(*) AS count FROM tax_rates WHERE organisation_id = ?`,
+      [DEFAULT_ORGANISATION_ID],
+    );
+    if ((existingRates as any[])[0].count === 0) {
+      await connection.execute(
+        `INSERT INTO tax_rates (id, organisation_id, name, rate_percent, effective_from) VALUES (UUID(), ?, 'VAT', 15, '2018-04-01')`,
+        [DEFAULT_ORGANISATION_ID],
+      );
+    }
+
     console.log('Database tables created/verified successfully');
     connection.release();
   } catch (error) {
@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { nanoid } from "nanoid";
+import { log } from "./vite";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver an email. EMAIL_TRANSPORT picks the implementation.
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Opian Core <no-reply@opianfsgroup.com>';
+
+// Delivers through an SMTP server configured with SMTP_HOST, SMTP_PORT,
+// SMTP_SECURE, SMTP_USER and SMTP_PASSWORD
+export class SmtpTransport implements EmailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each email to EMAIL_OUTBOX_DIR as JSON and logs it, for development
+// and tests where nothing should leave the machine
+export class FileTransport implements EmailTransport {
+  constructor(private outboxDir = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox')) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    const file = path.join(this.outboxDir, `${Date.now()}-${nanoid(8)}.json`);
+    await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+    log(`"${message.subject}" to ${message.to} written to ${file}`, "email");
+  }
+}
+
+function createEmailTransport(): EmailTransport {
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+  switch (kind) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is required for the smtp email transport');
+      }
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+let transport: EmailTransport | undefined;
+
+// Swap the transport, e.g. for one that records messages in tests
+export function setEmailTransport(next: EmailTransport) {
+  transport = next;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  transport ??= createEmailTransport();
+  await transport.send({ from: EMAIL_FROM, ...message });
+}
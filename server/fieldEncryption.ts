@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+// Encrypts sensitive values (ID, tax and bank account numbers) before they
+// reach the database. CLIENT_DATA_KEY is a base64-encoded 32-byte key, e.g.
+// from `openssl rand -base64 32`; it's only required once such a value is saved.
+//
+// Stored values look like enc:v1:<iv>:<auth tag>:<ciphertext>, so the format
+// can change later without losing track of older values.
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+let key: Buffer | undefined;
+
+function encryptionKey(): Buffer {
+  if (!key) {
+    const value = process.env.CLIENT_DATA_KEY;
+    if (!value) {
+      throw new Error("CLIENT_DATA_KEY environment variable is required to store sensitive client details");
+    }
+    const decoded = Buffer.from(value, 'base64');
+    if (decoded.length !== 32) {
+      throw new Error("CLIENT_DATA_KEY must be 32 bytes, base64 encoded");
+    }
+    key = decoded;
+  }
+  return key;
+}
+
+export function encryptField<T extends string | null | undefined>(value: T): T {
+  if (!value) {
+    return value;
+  }
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return (PREFIX + [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':')) as T;
+}
+
+// Values without the prefix were saved before encryption and are returned as they are
+export function decryptField<T extends string | null | undefined>(value: T): T {
+  if (!value || !value.startsWith(PREFIX)) {
+    return value;
+  }
+  const [iv, authTag, ciphertext] = value.slice(PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8') as T;
+}
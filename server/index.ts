@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { testConnection, ensureTablesExist } from "./db";
+import { startQuoteExpiryScheduler } from "./quoteExpiry";
 
 const app = express();
 app.use(express.json());
@@ -79,5 +80,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startQuoteExpiryScheduler();
   });
 })();
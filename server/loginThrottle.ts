@@ -0,0 +1,90 @@
+import { storage } from './mysqlStorage';
+import type { Request, Response } from 'express';
+import type { User } from '@shared/schema';
+
+// Consecutive failures before an account is locked, and failures from one IP
+// address (over IP_WINDOW_MS) before it's blocked
+const LOGIN_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10);
+const LOGIN_IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || '20', 10);
+// The first lockout; each further round of failures doubles it
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const IP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// How many recent attempts users and admins see
+export const LOGIN_HISTORY_LIMIT = 50;
+
+export type LoginFailureReason = 'unknown_user' | 'invalid_password' | 'invalid_code' | 'locked' | 'disabled' | 'unverified';
+
+// 0 below the threshold, then the base lockout doubling with every further
+// `threshold` failures: 5 failures lock for 15 minutes, 10 for 30, 15 for 60...
+export function lockoutMs(failures: number, threshold: number): number {
+  if (failures < threshold) {
+    return 0;
+  }
+  const rounds = Math.floor(failures / threshold) - 1;
+  return Math.min(LOGIN_LOCKOUT_MINUTES * 60 * 1000 * 2 ** rounds, MAX_LOCKOUT_MS);
+}
+
+export function isLockedOut(user: User): boolean {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+}
+
+// When the IP address may try again, or null if it isn't blocked
+export async function ipBlockedUntil(ipAddress: string): Promise<Date | null> {
+  const { count, lastAt } = await storage.getFailedLoginsFromIp(ipAddress, new Date(Date.now() - IP_WINDOW_MS));
+  const lockout = lockoutMs(count, LOGIN_IP_MAX_FAILURES);
+  if (!lockout || !lastAt) {
+    return null;
+  }
+  const until = new Date(lastAt.getTime() + lockout);
+  return until > new Date() ? until : null;
+}
+
+export async function recordLoginAttempt(req: Request, email: string, userId: string | null, succeeded: boolean, reason?: LoginFailureReason) {
+  await storage.recordLoginAttempt({
+    userId,
+    email: email.slice(0, 255),
+    ipAddress: req.ip || 'unknown',
+    userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+    succeeded,
+    reason: reason ?? null,
+  });
+}
+
+// Logs the failure and counts it against the account. Returns when the
+// account is locked until if this failure locked it.
+export async function recordFailedLogin(req: Request, email: string, user: User | undefined, reason: LoginFailureReason): Promise<Date | null> {
+  await recordLoginAttempt(req, email, user?.id ?? null, false, reason);
+  if (!user) {
+    return null;
+  }
+
+  const failures = await storage.incrementFailedLogins(user.id);
+  const lockout = lockoutMs(failures, LOGIN_MAX_FAILURES);
+  // Only lock on reaching each threshold, so later attempts don't extend it
+  if (!lockout || failures % LOGIN_MAX_FAILURES !== 0) {
+    return null;
+  }
+  const lockedUntil = new Date(Date.now() + lockout);
+  await storage.updateUser(user.id, { lockedUntil });
+  return lockedUntil;
+}
+
+export async function recordSuccessfulLogin(req: Request, user: User) {
+  await recordLoginAttempt(req, user.email, user.id, true);
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+  }
+}
+
+export function tooManyAttempts(res: Response, until: Date) {
+  const seconds = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+  const minutes = Math.ceil(seconds / 60);
+  res.set('Retry-After', seconds.toString());
+  return res.status(429).json({
+    message: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    retryAfter: seconds,
+  });
+}
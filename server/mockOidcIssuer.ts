@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+// A minimal OpenID Connect issuer on localhost for tests: discovery, an
+// authorization endpoint that signs in straight away as whoever signInAs()
+// named, a token endpoint that checks the client, PKCE verifier and redirect
+// URI, and RS256-signed ID tokens. Point a provider at it with
+// AUTH_<KEY>_ISSUER=<issuer.url>, AUTH_<KEY>_CLIENT_ID and AUTH_<KEY>_CLIENT_SECRET.
+
+interface PendingCode {
+  claims: Record<string, unknown>;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+export class MockOidcIssuer {
+  readonly clientId = 'opian-test-client';
+  readonly clientSecret = 'opian-test-secret';
+  private keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private codes = new Map<string, PendingCode>();
+  private nextClaims: Record<string, unknown> | undefined;
+  private server: Server | undefined;
+  private origin = '';
+
+  get url(): string {
+    return this.origin;
+  }
+
+  // Claims of the user the next authorization request signs in as; sub is required
+  signInAs(claims: { sub: string } & Record<string, unknown>) {
+    this.nextClaims = claims;
+  }
+
+  async start(): Promise<this> {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get('/.well-known/openid-configuration', (_req, res) => {
+      res.json({
+        issuer: this.origin,
+        authorization_endpoint: `${this.origin}/authorize`,
+        token_endpoint: `${this.origin}/token`,
+        jwks_uri: `${this.origin}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      });
+    });
+
+    app.get('/jwks', (_req, res) => {
+      res.json({ keys: [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: 'mock', alg: 'RS256', use: 'sig' }] });
+    });
+
+    app.get('/authorize', (req, res) => {
+      const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+      if (client_id !== this.clientId || typeof redirect_uri !== 'string' || code_challenge_method !== 'S256' || typeof code_challenge !== 'string') {
+        return res.status(400).send('invalid_request');
+      }
+
+      const redirect = new URL(redirect_uri);
+      if (!this.nextClaims) {
+        redirect.searchParams.set('error', 'access_denied');
+        redirect.searchParams.set('error_description', 'No test user is signed in at the mock issuer');
+      } else {
+        const code = crypto.randomBytes(16).toString('hex');
+        this.codes.set(code, {
+          claims: this.nextClaims,
+          redirectUri: redirect_uri,
+          codeChallenge: code_challenge,
+          nonce: typeof nonce === 'string' ? nonce : undefined,
+        });
+        redirect.searchParams.set('code', code);
+      }
+      if (typeof state === 'string') {
+        redirect.searchParams.set('state', state);
+      }
+      res.redirect(redirect.href);
+    });
+
+    app.post('/token', (req, res) => {
+      const [basicId, basicSecret] = req.headers.authorization?.startsWith('Basic ')
+        ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+        : [req.body.client_id, req.body.client_secret];
+      if (basicId !== this.clientId || basicSecret !== this.clientSecret) {
+        return res.status(401).json({ error: 'invalid_client' });
+      }
+
+      // Codes are single use
+      const pending = this.codes.get(req.body.code);
+      this.codes.delete(req.body.code);
+      const challenge = base64url(crypto.createHash('sha256').update(String(req.body.code_verifier ?? '')).digest());
+      if (
+        req.body.grant_type !== 'authorization_code'
+        || !pending
+        || pending.redirectUri !== req.body.redirect_uri
+        || pending.codeChallenge !== challenge
+      ) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      res.json({
+        access_token: crypto.randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: this.signIdToken({
+          iss: this.origin,
+          aud: this.clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...pending.claims,
+        }),
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server = app.listen(0, '127.0.0.1', resolve);
+    });
+    this.origin = `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server ? this.server.close((error) => (error ? reject(error) : resolve())) : resolve();
+    });
+  }
+
+  private signIdToken(claims: Record<string, unknown>): string {
+    const input = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: 'mock' }))}.${base64url(JSON.stringify(claims))}`;
+    return `${input}.${base64url(crypto.sign('sha256', Buffer.from(input), this.keys.privateKey))}`;
+  }
+}
@@ -2,60 +2,329 @@ import {
   users,
   clients,
   quotes,
+  quoteRevisions,
+  quoteStatusHistory,
   meetings,
   documents,
+  clientKycItems,
+  clientContacts,
+  clientInteractions,
+  clientStatusHistory,
+  clientRelationships,
+  taxRates,
+  notifications,
+  quoteShareLinks,
+  quoteResponses,
+  numberSequences,
+  roles,
+  rolePermissions,
+  branches,
+  userInvites,
+  signupDomains,
+  userTokens,
+  userRecoveryCodes,
+  loginAttempts,
+  userIdentities,
+  authFlows,
+  apiTokens,
+  organisations,
+  DEFAULT_ORGANISATION_ID,
+  type Organisation,
+  type LoginAttempt,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type AuthFlow,
+  type ApiToken,
+  type ApiTokenSummary,
+  type InsertLoginAttempt,
   type User,
   type UpsertUser,
+  type UserSummary,
+  type RoleWithPermissions,
+  type Branch,
+  type InsertBranch,
+  type UserInvite,
+  type UserToken,
+  type UserTokenPurpose,
+  type InsertUserInvite,
+  type SignupDomain,
+  type InsertSignupDomain,
   type Client,
   type InsertClient,
   type Quote,
   type InsertQuote,
+  type QuoteComputedFields,
+  type QuoteRevision,
+  type QuoteStatusChangeWithUser,
+  type QuoteType,
+  type PlanInputs,
   type Meeting,
   type InsertMeeting,
   type Document,
   type InsertDocument,
+  type ClientKycItem,
+  type ClientKycItemWithDocument,
+  type ClientContact,
+  type InsertClientContact,
+  type ClientRelationship,
+  type ClientInteraction,
+  type ClientInteractionWithAuthor,
+  type InsertClientInteraction,
+  type TaxRate,
+  type InsertTaxRate,
+  type Notification,
+  type QuoteShareLink,
+  type QuoteResponse,
+  type InsertQuoteResponse,
+  type NumberSequence,
+  type NumberSequenceSettings,
+  type InsertNotification,
 } from "@shared/schema";
+import { canTransitionQuoteStatus, isFinalQuoteStatus } from "@shared/quoteStatus";
+import { kycChecklist, type KycRequirementType } from "@shared/kyc";
+import { interactionTypeLabels, type InteractionType } from "@shared/interactions";
+import { compareTimelineEvents, type TimelineCursor, type TimelineEvent, type TimelineEventKind } from "@shared/timeline";
+import { DEFAULT_SEQUENCES, formatSequenceNumber, sequencePeriod } from "@shared/numberSequence";
+import { calculateQuoteTotals, findTotalsDiscrepancies, type QuoteLineInput, type QuoteTotalsDiscrepancy } from "@shared/quoteTotals";
+import type { Permission } from "@shared/permissions";
 import { db } from "./db";
-import { eq, desc, like, and, or, count, sum, gte } from "drizzle-orm";
+import { decryptField, encryptField } from "./fieldEncryption";
+import { can, type Actor } from "./policy";
+import { eq, desc, like, and, or, count, sum, gte, lte, lt, isNull, gt, inArray, getTableColumns, sql } from "drizzle-orm";
+import type { MySqlColumn } from "drizzle-orm/mysql-core";
 import { nanoid } from "nanoid";
 
+// Client fields kept encrypted in the database
+const encryptedClientFields = ["idNumber", "passportNumber", "taxNumber", "bankAccountNumber"] as const;
+
+function encryptClient<T extends Partial<InsertClient>>(client: T): T {
+  const encrypted = { ...client };
+  for (const field of encryptedClientFields) {
+    encrypted[field] = encryptField(client[field]);
+  }
+  if (client.relatedPersons) {
+    encrypted.relatedPersons = client.relatedPersons.map((person) => ({ ...person, idNumber: encryptField(person.idNumber) }));
+  }
+  return encrypted;
+}
+
+function decryptQuoteResponse(response: QuoteResponse): QuoteResponse {
+  return { ...response, signatoryIdNumber: decryptField(response.signatoryIdNumber) };
+}
+
+function decryptClient(client: Client): Client {
+  const decrypted = { ...client };
+  for (const field of encryptedClientFields) {
+    decrypted[field] = decryptField(client[field]);
+  }
+  if (client.relatedPersons) {
+    decrypted.relatedPersons = client.relatedPersons.map((person) => ({ ...person, idNumber: decryptField(person.idNumber) }));
+  }
+  return decrypted;
+}
+
+// Raised when the totals submitted with a quote don't match the server's calculation
+export class QuoteTotalsError extends Error {
+  constructor(public discrepancies: QuoteTotalsDiscrepancy[]) {
+    super("Quote totals do not reconcile");
+    this.name = "QuoteTotalsError";
+  }
+}
+
+// Raised when a quote is accepted before its client's FICA documents are verified
+export class KycIncompleteError extends Error {
+  constructor(public outstanding: KycRequirementType[]) {
+    super("The client's FICA documents must be verified before the quote can be accepted");
+    this.name = "KycIncompleteError";
+  }
+}
+
+// Raised when a status change isn't allowed by the quote lifecycle
+export class QuoteStatusError extends Error {
+  constructor(public fromStatus: string | null, public toStatus: string) {
+    super(fromStatus ? `Cannot change a ${fromStatus} quote to ${toStatus}` : `New quotes cannot be ${toStatus}`);
+    this.name = "QuoteStatusError";
+  }
+}
+
+// Raised when a number sequence comes to a number that's already taken, e.g.
+// after its next value was set back or its format matches another sequence's
+export class NumberSequenceConflictError extends Error {
+  constructor(public sequenceKey: string, public number: string) {
+    super(`The ${sequenceKey} number sequence has reached ${number}, which is already in use. Change its format or next number under Settings.`);
+    this.name = "NumberSequenceConflictError";
+  }
+}
+
+// Raised when a settled quote's content is changed
+export class QuoteLockedError extends Error {
+  constructor(public status: string) {
+    super(`A ${status} quote can no longer be changed`);
+    this.name = "QuoteLockedError";
+  }
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   searchUsers(email: string): Promise<User[]>;
+  getUsers(organisationId: string): Promise<UserSummary[]>;
+  updateUser(id: string, user: Partial<UpsertUser>): Promise<User>;
+  reassignUserRecords(fromUserId: string, toUserId: string): Promise<{ clients: number; quotes: number; meetings: number }>;
+
+  // Emailed token operations (password reset, email verification)
+  createUserToken(token: { userId: string; purpose: UserTokenPurpose; tokenHash: string; expiresAt: Date }): Promise<UserToken>;
+  getUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined>;
+  consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined>;
+  discardUserTokens(userId: string, purpose: UserTokenPurpose): Promise<void>;
+
+  // Two-factor recovery codes
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  disableTwoFactor(userId: string): Promise<void>;
+
+  // Sign-in attempts and account lockout
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  getLoginAttempts(userId: string, limit: number): Promise<LoginAttempt[]>;
+  getFailedLoginsFromIp(ipAddress: string, since: Date): Promise<{ count: number; lastAt: Date | null }>;
+  incrementFailedLogins(userId: string): Promise<number>;
+  bumpSessionVersion(userId: string): Promise<number>;
+
+  // External identity provider operations
+  getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  recordIdentityLogin(id: string, email: string | null): Promise<void>;
+  createUserWithIdentity(user: UpsertUser, identity: Omit<InsertUserIdentity, "userId">): Promise<User>;
+  createAuthFlow(flow: { tokenHash: string; provider: string; data: Record<string, string>; expiresAt: Date }): Promise<void>;
+  consumeAuthFlow(tokenHash: string): Promise<AuthFlow | undefined>;
+
+  // Personal API token operations
+  getApiTokens(userId: string): Promise<ApiTokenSummary[]>;
+  createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiTokenSummary>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  recordApiTokenUse(id: string, ipAddress: string): Promise<void>;
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+
+  // Organisation operations
+  getOrganisation(id: string): Promise<Organisation | undefined>;
+  updateOrganisation(id: string, organisation: Partial<Pick<Organisation, "name" | "requireTwoFactor">>): Promise<Organisation>;
+
+  // Invitation and sign-up domain operations
+  createUserInvite(invite: InsertUserInvite): Promise<UserInvite>;
+  getUserInvite(id: string): Promise<UserInvite | undefined>;
+  getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined>;
+  getPendingUserInvites(organisationId: string): Promise<UserInvite[]>;
+  deleteUserInvite(id: string): Promise<void>;
+  registerInvitedUser(inviteId: string, user: UpsertUser): Promise<User | undefined>;
+  getSignupDomain(domain: string): Promise<SignupDomain | undefined>;
+  getSignupDomains(organisationId: string): Promise<SignupDomain[]>;
+  addSignupDomain(domain: InsertSignupDomain): Promise<SignupDomain>;
+  removeSignupDomain(domain: string, organisationId: string): Promise<void>;
+
+  // Role and branch operations
+  getRoles(): Promise<RoleWithPermissions[]>;
+  getRolePermissions(roleKey: string): Promise<string[]>;
+  setRolePermissions(roleKey: string, permissions: Permission[]): Promise<void>;
+  getBranches(organisationId: string): Promise<Branch[]>;
+  getBranch(id: string): Promise<Branch | undefined>;
+  createBranch(branch: InsertBranch): Promise<Branch>;
+  getBranchUserIds(branchId: string): Promise<string[]>;
   
   // Client operations
-  getClients(userId: string, isAdmin: boolean): Promise<Client[]>;
-  getClient(id: string): Promise<Client | undefined>;
-  createClient(client: InsertClient): Promise<Client>;
-  updateClient(id: string, client: Partial<InsertClient>): Promise<Client>;
+  getClients(viewer: Actor): Promise<Client[]>;
+  getClient(id: string, viewer?: Actor): Promise<Client | undefined>;
+  createClient(client: InsertClient, changedBy: string): Promise<Client>;
+  updateClient(id: string, client: Partial<InsertClient>, changedBy: string): Promise<Client>;
   deleteClient(id: string): Promise<void>;
-  searchClients(query: string, userId: string, isAdmin: boolean): Promise<Client[]>;
+  searchClients(query: string, viewer: Actor): Promise<Client[]>;
   
   // Quote operations
-  getQuotes(userId: string, isAdmin: boolean): Promise<Quote[]>;
-  getQuote(id: string): Promise<Quote | undefined>;
-  createQuote(quote: InsertQuote): Promise<Quote>;
-  updateQuote(id: string, quote: Partial<InsertQuote>): Promise<Quote>;
+  getQuotes(viewer: Actor): Promise<Quote[]>;
+  getQuote(id: string, viewer?: Actor): Promise<Quote | undefined>;
+  createQuote(quote: InsertQuote & QuoteComputedFields): Promise<Quote>;
+  updateQuote(id: string, quote: Partial<InsertQuote & QuoteComputedFields>, updatedBy?: string): Promise<Quote>;
   deleteQuote(id: string): Promise<void>;
-  getNextQuoteNumber(): Promise<string>;
+  transitionQuoteStatus(id: string, status: string, changedBy: string | null, note?: string): Promise<Quote>;
+  getQuoteStatusHistory(quoteId: string): Promise<QuoteStatusChangeWithUser[]>;
+  getQuoteRevisions(quoteId: string): Promise<QuoteRevision[]>;
+  getQuoteRevision(quoteId: string, revision: number): Promise<QuoteRevision | undefined>;
+  restoreQuoteRevision(quoteId: string, revision: number, userId: string): Promise<Quote>;
+  cloneQuoteRevision(quoteId: string, revision: number, userId: string): Promise<Quote>;
+  getOverdueSentQuotes(at: Date): Promise<Quote[]>;
+
+  // Quote sharing operations
+  createQuoteShareLink(link: { quoteId: string; tokenHash: string; expiresAt: Date; createdBy: string }): Promise<QuoteShareLink>;
+  getQuoteShareLinkByTokenHash(tokenHash: string): Promise<QuoteShareLink | undefined>;
+  getQuoteResponses(quoteId: string): Promise<QuoteResponse[]>;
+  recordQuoteResponse(response: InsertQuoteResponse): Promise<QuoteResponse>;
+  setQuoteResponseDocument(id: string, documentId: string): Promise<void>;
+
+  // Number sequence operations
+  getNumberSequences(organisationId: string): Promise<NumberSequence[]>;
+  upsertNumberSequence(organisationId: string, key: string, settings: NumberSequenceSettings): Promise<NumberSequence>;
+
+  // Tax rate operations
+  getTaxRates(organisationId: string): Promise<TaxRate[]>;
+  getEffectiveTaxRate(organisationId: string, at: Date): Promise<TaxRate | undefined>;
+  createTaxRate(taxRate: InsertTaxRate): Promise<TaxRate>;
   
   // Meeting operations
-  getMeetings(userId: string, isAdmin: boolean): Promise<Meeting[]>;
-  getMeeting(id: string): Promise<Meeting | undefined>;
+  getMeetings(viewer: Actor): Promise<Meeting[]>;
+  getMeeting(id: string, viewer?: Actor): Promise<Meeting | undefined>;
   createMeeting(meeting: InsertMeeting): Promise<Meeting>;
   updateMeeting(id: string, meeting: Partial<InsertMeeting>): Promise<Meeting>;
   deleteMeeting(id: string): Promise<void>;
   
   // Document operations
-  getDocuments(clientId: string): Promise<Document[]>;
-  getDocument(id: string): Promise<Document | undefined>;
+  getDocuments(clientId: string, viewer?: Actor): Promise<Document[]>;
+  getDocument(id: string, viewer?: Actor): Promise<Document | undefined>;
   createDocument(document: InsertDocument): Promise<Document>;
   deleteDocument(id: string): Promise<void>;
+
+  // FICA / KYC operations
+  getKycItems(clientId: string): Promise<ClientKycItemWithDocument[]>;
+  getKycItem(id: string): Promise<ClientKycItem | undefined>;
+  createKycItem(item: typeof clientKycItems.$inferInsert): Promise<ClientKycItem>;
+  reviewKycItem(id: string, review: { status: 'verified' | 'rejected'; reviewedBy: string; reviewNote?: string }): Promise<ClientKycItem | undefined>;
+  deleteKycItem(id: string): Promise<void>;
+
+  // Client contact and relationship operations
+  getClientContacts(clientId: string): Promise<ClientContact[]>;
+  getClientContact(id: string): Promise<ClientContact | undefined>;
+  createClientContact(contact: typeof clientContacts.$inferInsert): Promise<ClientContact>;
+  updateClientContact(id: string, contact: Partial<InsertClientContact>): Promise<ClientContact>;
+  deleteClientContact(id: string): Promise<void>;
+  getClientRelationships(clientId: string): Promise<ClientRelationship[]>;
+  getClientRelationship(id: string): Promise<ClientRelationship | undefined>;
+  createClientRelationship(relationship: typeof clientRelationships.$inferInsert): Promise<ClientRelationship>;
+  deleteClientRelationship(id: string): Promise<void>;
+  getHouseholdClientIds(clientId: string): Promise<string[]>;
+  getInvestedTotals(clientIds: string[]): Promise<Record<string, number>>;
+
+  // Client interaction operations
+  getClientInteractions(clientId: string): Promise<ClientInteractionWithAuthor[]>;
+  getClientInteraction(id: string): Promise<ClientInteraction | undefined>;
+  createClientInteraction(interaction: typeof clientInteractions.$inferInsert): Promise<ClientInteraction>;
+  updateClientInteraction(id: string, interaction: Partial<InsertClientInteraction>): Promise<ClientInteraction>;
+  deleteClientInteraction(id: string): Promise<void>;
+
+  // Client timeline operations
+  getClientTimeline(
+    clientId: string,
+    viewer: Actor,
+    options: { kinds: readonly TimelineEventKind[]; before?: TimelineCursor; limit: number }
+  ): Promise<{ events: TimelineEvent[]; next: TimelineCursor | null }>;
+
+  // Notification operations
+  getNotifications(userId: string): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<void>;
+  markAllNotificationsRead(userId: string): Promise<void>;
   
   // Dashboard stats
-  getDashboardStats(userId: string, isAdmin: boolean): Promise<{
+  getDashboardStats(viewer: Actor): Promise<{
     totalClients: number;
     activeQuotes: number;
     upcomingMeetings: number;
@@ -63,6 +332,54 @@ export interface IStorage {
   }>;
 }
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Validity applied to new quotes created without a valid-until date
+const DEFAULT_QUOTE_VALIDITY_DAYS = parseInt(process.env.QUOTE_VALIDITY_DAYS || '30', 10);
+
+// Stops a household walk early if links have been chained together carelessly
+const MAX_HOUSEHOLD_SIZE = 100;
+
+// Limits a list query to records owned by users the viewer may read
+function readableBy(ownerColumn: MySqlColumn, viewer: Actor) {
+  return viewer.readableOwnerIds ? inArray(ownerColumn, viewer.readableOwnerIds) : undefined;
+}
+
+function fullName(firstName: string | null, lastName: string | null): string | null {
+  return firstName ? `${firstName} ${lastName ?? ''}`.trim() : null;
+}
+
+// Limits one timeline source to events after the cursor in timeline order:
+// older, or as old with a lower event id ("<kind>:<row id>")
+function timelineAfter(kind: TimelineEventKind, atColumn: MySqlColumn, idColumn: MySqlColumn, cursor?: TimelineCursor) {
+  if (!cursor) {
+    return undefined;
+  }
+  const prefix = `${kind}:`;
+  if (cursor.id.startsWith(prefix)) {
+    return or(
+      lt(atColumn, cursor.at),
+      and(eq(atColumn, cursor.at), sql`BINARY ${idColumn} < ${cursor.id.slice(prefix.length)}`)
+    );
+  }
+  // Every event of another kind sorts wholly before or after the cursor's id
+  return prefix < cursor.id ? lte(atColumn, cursor.at) : lt(atColumn, cursor.at);
+}
+
+// The editable content of a quote as captured in a revision snapshot. JSON
+// round-trips turn dates into strings, so those are revived here.
+function revisionContent(snapshot: Quote) {
+  return {
+    type: snapshot.type as QuoteType,
+    title: snapshot.title,
+    description: snapshot.description,
+    items: snapshot.items,
+    planInputs: snapshot.planInputs as PlanInputs | null,
+    projections: snapshot.projections,
+    validUntil: snapshot.validUntil ? new Date(snapshot.validUntil) : null,
+  };
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -101,28 +418,406 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).where(eq(users.email, email));
   }
 
+  async getUsers(organisationId: string): Promise<UserSummary[]> {
+    const { passwordHash, totpSecret, ...columns } = getTableColumns(users);
+    return await db.select(columns).from(users).where(eq(users.organisationId, organisationId)).orderBy(users.firstName, users.lastName);
+  }
+
+  async updateUser(id: string, userData: Partial<UpsertUser>): Promise<User> {
+    await db.update(users).set({ ...userData, updatedAt: new Date() }).where(eq(users.id, id));
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  // Moves ownership in one go so a leaver's book isn't left half transferred
+  async reassignUserRecords(fromUserId: string, toUserId: string): Promise<{ clients: number; quotes: number; meetings: number }> {
+    return await db.transaction(async (tx) => {
+      const [clientResult] = await tx.update(clients).set({ createdBy: toUserId, updatedAt: new Date() }).where(eq(clients.createdBy, fromUserId));
+      // Keep updated_at: it dates the quote's content and its PDF
+      const [quoteResult] = await tx.update(quotes).set({ createdBy: toUserId, updatedAt: sql`${quotes.updatedAt}` }).where(eq(quotes.createdBy, fromUserId));
+      const [meetingResult] = await tx.update(meetings).set({ createdBy: toUserId, updatedAt: new Date() }).where(eq(meetings.createdBy, fromUserId));
+      return {
+        clients: clientResult.affectedRows,
+        quotes: quoteResult.affectedRows,
+        meetings: meetingResult.affectedRows,
+      };
+    });
+  }
+
+  // Emailed token operations (password reset, email verification)
+  async createUserToken(token: { userId: string; purpose: UserTokenPurpose; tokenHash: string; expiresAt: Date }): Promise<UserToken> {
+    const id = nanoid();
+    await db.insert(userTokens).values({ ...token, id });
+    const [result] = await db.select().from(userTokens).where(eq(userTokens.id, id));
+    return result;
+  }
+
+  // Marks a token used and returns it, or undefined if it's unknown, used or expired
+  // An unused, unexpired token, without using it up
+  async getUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(userTokens)
+      .where(and(eq(userTokens.tokenHash, tokenHash), eq(userTokens.purpose, purpose)));
+    return token && !token.usedAt && token.expiresAt >= new Date() ? token : undefined;
+  }
+
+  async consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .select()
+        .from(userTokens)
+        .where(and(eq(userTokens.tokenHash, tokenHash), eq(userTokens.purpose, purpose)))
+        .for("update");
+      if (!token || token.usedAt || token.expiresAt < new Date()) {
+        return undefined;
+      }
+
+      await tx.update(userTokens).set({ usedAt: new Date() }).where(eq(userTokens.id, token.id));
+      return token;
+    });
+  }
+
+  // Drops a user's outstanding tokens so only the newest link works
+  async discardUserTokens(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    await db.delete(userTokens).where(and(
+      eq(userTokens.userId, userId),
+      eq(userTokens.purpose, purpose),
+      isNull(userTokens.usedAt)
+    ));
+  }
+
+  // Two-factor recovery codes. Issuing a new set invalidates the old one.
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userRecoveryCodes).where(eq(userRecoveryCodes.userId, userId));
+      await tx.insert(userRecoveryCodes).values(codeHashes.map((codeHash) => ({ id: nanoid(), userId, codeHash })));
+    });
+  }
+
+  // Marks the code used; false if it's unknown or was used before
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const [result] = await db
+      .update(userRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(userRecoveryCodes.userId, userId),
+        eq(userRecoveryCodes.codeHash, codeHash),
+        isNull(userRecoveryCodes.usedAt)
+      ));
+    return result.affectedRows > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(userRecoveryCodes)
+      .where(and(eq(userRecoveryCodes.userId, userId), isNull(userRecoveryCodes.usedAt)));
+    return result.count;
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      await tx.delete(userRecoveryCodes).where(eq(userRecoveryCodes.userId, userId));
+    });
+  }
+
+  // Sign-in attempts and account lockout
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    await db.insert(loginAttempts).values({ ...attempt, id: nanoid() });
+  }
+
+  async getLoginAttempts(userId: string, limit: number): Promise<LoginAttempt[]> {
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(eq(loginAttempts.userId, userId))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+  }
+
+  async getFailedLoginsFromIp(ipAddress: string, since: Date): Promise<{ count: number; lastAt: Date | null }> {
+    const [result] = await db
+      .select({ count: count(), lastAt: sql<Date | null>`MAX(${loginAttempts.createdAt})` })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.ipAddress, ipAddress),
+        eq(loginAttempts.succeeded, false),
+        gte(loginAttempts.createdAt, since)
+      ));
+    return { count: result.count, lastAt: result.lastAt ? new Date(result.lastAt) : null };
+  }
+
+  // Counts a failed sign-in against the account and returns the new total
+  async incrementFailedLogins(userId: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ failedLoginCount: sql`${users.failedLoginCount} + 1`, updatedAt: sql`${users.updatedAt}` })
+        .where(eq(users.id, userId));
+      const [user] = await tx.select({ failedLoginCount: users.failedLoginCount }).from(users).where(eq(users.id, userId));
+      return user.failedLoginCount;
+    });
+  }
+
+  // Invalidates every session issued under the old version and returns the new one
+  async bumpSessionVersion(userId: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ sessionVersion: sql`${users.sessionVersion} + 1`, updatedAt: sql`${users.updatedAt}` })
+        .where(eq(users.id, userId));
+      const [user] = await tx.select({ sessionVersion: users.sessionVersion }).from(users).where(eq(users.id, userId));
+      return user.sessionVersion;
+    });
+  }
+
+  // External identity provider operations
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity;
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const id = nanoid();
+    await db.insert(userIdentities).values({ ...identity, id, lastLoginAt: new Date() });
+    const [result] = await db.select().from(userIdentities).where(eq(userIdentities.id, id));
+    return result;
+  }
+
+  async recordIdentityLogin(id: string, email: string | null): Promise<void> {
+    await db.update(userIdentities).set({ email, lastLoginAt: new Date() }).where(eq(userIdentities.id, id));
+  }
+
+  // Provisions a user on their first sign-in through an identity provider
+  async createUserWithIdentity(userData: UpsertUser, identity: Omit<InsertUserIdentity, "userId">): Promise<User> {
+    const userId = userData.id ?? nanoid();
+    await db.transaction(async (tx) => {
+      await tx.insert(users).values({ ...userData, id: userId });
+      await tx.insert(userIdentities).values({ ...identity, id: nanoid(), userId, lastLoginAt: new Date() });
+    });
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    return user;
+  }
+
+  async createAuthFlow(flow: { tokenHash: string; provider: string; data: Record<string, string>; expiresAt: Date }): Promise<void> {
+    // Abandoned sign-ins are cleared out as new ones start
+    await db.delete(authFlows).where(lte(authFlows.expiresAt, new Date()));
+    await db.insert(authFlows).values(flow);
+  }
+
+  // Removes the flow and returns it, or undefined if it's unknown or expired
+  async consumeAuthFlow(tokenHash: string): Promise<AuthFlow | undefined> {
+    return await db.transaction(async (tx) => {
+      const [flow] = await tx.select().from(authFlows).where(eq(authFlows.tokenHash, tokenHash)).for("update");
+      if (!flow) {
+        return undefined;
+      }
+      await tx.delete(authFlows).where(eq(authFlows.tokenHash, tokenHash));
+      return flow.expiresAt > new Date() ? flow : undefined;
+    });
+  }
+
+  // Personal API token operations
+  async getApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(apiTokens);
+    return await db.select(columns).from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiTokenSummary> {
+    const id = nanoid();
+    await db.insert(apiTokens).values({ ...token, id });
+    const { tokenHash, ...columns } = getTableColumns(apiTokens);
+    const [result] = await db.select(columns).from(apiTokens).where(eq(apiTokens.id, id));
+    return result;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async recordApiTokenUse(id: string, ipAddress: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date(), lastUsedIp: ipAddress }).where(eq(apiTokens.id, id));
+  }
+
+  // Revokes the token; false if the user has no token with that id
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const [result] = await db.delete(apiTokens).where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+    return result.affectedRows > 0;
+  }
+
+  // Organisation operations
+  async getOrganisation(id: string): Promise<Organisation | undefined> {
+    const [organisation] = await db.select().from(organisations).where(eq(organisations.id, id));
+    return organisation;
+  }
+
+  async updateOrganisation(id: string, organisation: Partial<Pick<Organisation, "name" | "requireTwoFactor">>): Promise<Organisation> {
+    await db.update(organisations).set({ ...organisation, updatedAt: new Date() }).where(eq(organisations.id, id));
+    const [result] = await db.select().from(organisations).where(eq(organisations.id, id));
+    return result;
+  }
+
+  // Invitation and sign-up domain operations
+  async createUserInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const id = nanoid();
+    await db.insert(userInvites).values({ ...invite, id });
+    const [result] = await db.select().from(userInvites).where(eq(userInvites.id, id));
+    return result;
+  }
+
+  async getUserInvite(id: string): Promise<UserInvite | undefined> {
+    const [invite] = await db.select().from(userInvites).where(eq(userInvites.id, id));
+    return invite;
+  }
+
+  async getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined> {
+    const [invite] = await db.select().from(userInvites).where(eq(userInvites.tokenHash, tokenHash));
+    return invite;
+  }
+
+  async getPendingUserInvites(organisationId: string): Promise<UserInvite[]> {
+    return await db
+      .select()
+      .from(userInvites)
+      .where(and(
+        eq(userInvites.organisationId, organisationId),
+        isNull(userInvites.acceptedAt),
+        gt(userInvites.expiresAt, new Date())
+      ))
+      .orderBy(desc(userInvites.createdAt));
+  }
+
+  async deleteUserInvite(id: string): Promise<void> {
+    await db.delete(userInvites).where(eq(userInvites.id, id));
+  }
+
+  // Creates the user and uses up the invitation together, so an invitation
+  // can't be redeemed twice. Returns undefined if it was already used or expired.
+  async registerInvitedUser(inviteId: string, userData: UpsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invite] = await tx.select().from(userInvites).where(eq(userInvites.id, inviteId)).for("update");
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return undefined;
+      }
+
+      const id = userData.id ?? nanoid();
+      await tx.insert(users).values({ ...userData, id });
+      await tx.update(userInvites).set({ acceptedAt: new Date(), acceptedBy: id }).where(eq(userInvites.id, inviteId));
+
+      const [user] = await tx.select().from(users).where(eq(users.id, id));
+      return user;
+    });
+  }
+
+  async getSignupDomain(domain: string): Promise<SignupDomain | undefined> {
+    const [result] = await db.select().from(signupDomains).where(eq(signupDomains.domain, domain));
+    return result;
+  }
+
+  async getSignupDomains(organisationId: string): Promise<SignupDomain[]> {
+    return await db.select().from(signupDomains).where(eq(signupDomains.organisationId, organisationId)).orderBy(signupDomains.domain);
+  }
+
+  async addSignupDomain(domain: InsertSignupDomain): Promise<SignupDomain> {
+    await db.insert(signupDomains).values(domain);
+    const [result] = await db.select().from(signupDomains).where(eq(signupDomains.domain, domain.domain));
+    return result;
+  }
+
+  async removeSignupDomain(domain: string, organisationId: string): Promise<void> {
+    await db.delete(signupDomains).where(and(eq(signupDomains.domain, domain), eq(signupDomains.organisationId, organisationId)));
+  }
+
+  // Role and branch operations
+  async getRoles(): Promise<RoleWithPermissions[]> {
+    const allRoles = await db.select().from(roles).orderBy(roles.name);
+    const grants = await db.select().from(rolePermissions);
+    return allRoles.map((role) => ({
+      ...role,
+      permissions: grants.filter((grant) => grant.roleKey === role.key).map((grant) => grant.permission as Permission),
+    }));
+  }
+
+  async getRolePermissions(roleKey: string): Promise<string[]> {
+    const grants = await db.select().from(rolePermissions).where(eq(rolePermissions.roleKey, roleKey));
+    return grants.map((grant) => grant.permission);
+  }
+
+  async setRolePermissions(roleKey: string, permissions: Permission[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(rolePermissions).where(eq(rolePermissions.roleKey, roleKey));
+      if (permissions.length > 0) {
+        await tx.insert(rolePermissions).values(permissions.map((permission) => ({ roleKey, permission })));
+      }
+    });
+  }
+
+  async getBranches(organisationId: string): Promise<Branch[]> {
+    return await db.select().from(branches).where(eq(branches.organisationId, organisationId)).orderBy(branches.name);
+  }
+
+  async getBranch(id: string): Promise<Branch | undefined> {
+    const [branch] = await db.select().from(branches).where(eq(branches.id, id));
+    return branch;
+  }
+
+  async createBranch(branch: InsertBranch): Promise<Branch> {
+    const id = nanoid();
+    await db.insert(branches).values({ ...branch, id });
+    const [result] = await db.select().from(branches).where(eq(branches.id, id));
+    return result;
+  }
+
+  async getBranchUserIds(branchId: string): Promise<string[]> {
+    const members = await db.select({ id: users.id }).from(users).where(eq(users.branchId, branchId));
+    return members.map((member) => member.id);
+  }
+
   // Client operations
-  async getClients(userId: string, isAdmin: boolean): Promise<Client[]> {
-    if (!isAdmin) {
-      return await db.select().from(clients).where(eq(clients.createdBy, userId)).orderBy(desc(clients.createdAt));
-    }
-    return await db.select().from(clients).orderBy(desc(clients.createdAt));
+  async getClients(viewer: Actor): Promise<Client[]> {
+    const rows = await db.select().from(clients).where(readableBy(clients.createdBy, viewer)).orderBy(desc(clients.createdAt));
+    return rows.map(decryptClient);
   }
 
-  async getClient(id: string): Promise<Client | undefined> {
+  // Getters take an optional viewer; records the viewer may not read come back
+  // as not found. Omit it only for system work such as scheduled jobs.
+  async getClient(id: string, viewer?: Actor): Promise<Client | undefined> {
     const [client] = await db.select().from(clients).where(eq(clients.id, id));
-    return client;
+    if (!client || (viewer && !can(viewer, 'read', { type: 'client', record: client }))) {
+      return undefined;
+    }
+    return decryptClient(client);
   }
 
-  async createClient(client: InsertClient): Promise<Client> {
+  // changedBy is the user making the change, kept in the client's status
+  // history; it differs from the owner when an assistant adds the client
+  async createClient(client: InsertClient, changedBy: string): Promise<Client> {
     // Generate ID for insertion
     const id = nanoid();
     const clientWithId = {
-      ...client,
+      ...encryptClient(client),
       id
     };
     
-    await db.insert(clients).values(clientWithId);
+    await db.transaction(async (tx) => {
+      await tx.insert(clients).values(clientWithId);
+      await tx.insert(clientStatusHistory).values({
+        id: nanoid(),
+        clientId: id,
+        fromStatus: null,
+        toStatus: client.status ?? 'active',
+        changedBy,
+      });
+    });
     
     // Return the inserted client by ID
     const [result] = await db
@@ -131,72 +826,196 @@ export class DatabaseStorage implements IStorage {
       .where(eq(clients.id, id))
       .limit(1);
 
-    return result;
+    return decryptClient(result);
   }
 
-  async updateClient(id: string, client: Partial<InsertClient>): Promise<Client> {
-    await db.update(clients).set({
-      ...client,
-      updatedAt: new Date()
-    }).where(eq(clients.id, id));
+  async updateClient(id: string, client: Partial<InsertClient>, changedBy: string): Promise<Client> {
+    await db.transaction(async (tx) => {
+      const [current] = await tx.select({ status: clients.status }).from(clients).where(eq(clients.id, id)).for("update");
+      await tx.update(clients).set({
+        ...encryptClient(client),
+        updatedAt: new Date()
+      }).where(eq(clients.id, id));
+
+      if (current && client.status !== undefined && client.status !== current.status) {
+        await tx.insert(clientStatusHistory).values({
+          id: nanoid(),
+          clientId: id,
+          fromStatus: current.status,
+          toStatus: client.status,
+          changedBy,
+        });
+      }
+    });
     
     const [updatedClient] = await db.select().from(clients).where(eq(clients.id, id));
-    return updatedClient;
+    return decryptClient(updatedClient);
   }
 
   async deleteClient(id: string): Promise<void> {
     await db.delete(clients).where(eq(clients.id, id));
   }
 
-  async searchClients(query: string, userId: string, isAdmin: boolean): Promise<Client[]> {
+  async searchClients(query: string, viewer: Actor): Promise<Client[]> {
     const searchTerm = `%${query}%`;
     const conditions = [
       or(
         like(clients.name, searchTerm),
         like(clients.company, searchTerm),
         like(clients.email, searchTerm)
-      )
+      ),
+      readableBy(clients.createdBy, viewer),
     ];
-    
-    if (!isAdmin) {
-      conditions.push(eq(clients.createdBy, userId));
-    }
 
-    return await db.select().from(clients).where(and(...conditions)).orderBy(desc(clients.createdAt));
+    const rows = await db.select().from(clients).where(and(...conditions)).orderBy(desc(clients.createdAt));
+    return rows.map(decryptClient);
   }
 
   // Quote operations
-  async getQuotes(userId: string, isAdmin: boolean): Promise<Quote[]> {
-    if (!isAdmin) {
-      return await db.select().from(quotes).where(eq(quotes.createdBy, userId)).orderBy(desc(quotes.createdAt));
-    }
-    return await db.select().from(quotes).orderBy(desc(quotes.createdAt));
+  async getQuotes(viewer: Actor): Promise<Quote[]> {
+    return await db.select().from(quotes).where(readableBy(quotes.createdBy, viewer)).orderBy(desc(quotes.createdAt));
   }
 
-  async getQuote(id: string): Promise<Quote | undefined> {
+  async getQuote(id: string, viewer?: Actor): Promise<Quote | undefined> {
     const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+    if (quote && viewer && !can(viewer, 'read', { type: 'quote', record: quote })) {
+      return undefined;
+    }
     return quote;
   }
 
-  async createQuote(quote: InsertQuote): Promise<Quote> {
-    // Generate quote number
-    const quoteNumber = await this.getNextQuoteNumber();
-    const quoteData = { ...quote, quoteNumber };
-    
-    await db.insert(quotes).values(quoteData);
+  async createQuote(quote: InsertQuote & QuoteComputedFields): Promise<Quote> {
+    if (!canTransitionQuoteStatus(null, quote.status)) {
+      throw new QuoteStatusError(null, quote.status);
+    }
+    const now = new Date();
+    const totals = await this.reconcileQuoteTotals(quote, quote.items, quote.createdBy, now);
+    const organisationId = await this.getOrganisationId(quote.createdBy);
+    const validUntil = quote.validUntil ?? new Date(now.getTime() + DEFAULT_QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
     
-    // Get the created quote
-    const [newQuote] = await db.select().from(quotes).where(eq(quotes.quoteNumber, quoteNumber));
-    return newQuote;
+    return await db.transaction(async (tx) => {
+      // The number is allocated with the insert, so a failed insert rolls it back
+      const quoteNumber = await this.allocateNumber(tx, organisationId, [`quote:${quote.type}`, 'quote'], 'quoteNumber', now);
+      await tx.insert(quotes).values({ ...quote, ...totals, validUntil, quoteNumber, revision: 1 });
+
+      // Get the created quote and record it as revision 1
+      const [newQuote] = await tx.select().from(quotes).where(eq(quotes.quoteNumber, quoteNumber));
+      await tx.insert(quoteRevisions).values({
+        id: nanoid(),
+        quoteId: newQuote.id,
+        revision: 1,
+        snapshot: newQuote,
+        createdBy: quote.createdBy,
+      });
+      await tx.insert(quoteStatusHistory).values({
+        id: nanoid(),
+        quoteId: newQuote.id,
+        fromStatus: null,
+        toStatus: newQuote.status,
+        changedBy: quote.createdBy,
+      });
+      return newQuote;
+    });
+  }
+
+  async updateQuote(id: string, quote: Partial<InsertQuote & QuoteComputedFields>, updatedBy?: string): Promise<Quote> {
+    return await this.saveQuote(id, quote, updatedBy ?? null);
+  }
+
+  async transitionQuoteStatus(id: string, status: string, changedBy: string | null, note?: string): Promise<Quote> {
+    return await this.saveQuote(id, { status: status as InsertQuote['status'] }, changedBy, note);
   }
 
-  async updateQuote(id: string, quote: Partial<InsertQuote>): Promise<Quote> {
-    await db.update(quotes).set({
+  private async saveQuote(
+    id: string,
+    quote: Partial<InsertQuote & QuoteComputedFields>,
+    updatedBy: string | null,
+    statusNote?: string,
+  ): Promise<Quote> {
+    let totals = {};
+    const touchesTotals = ['items', 'subtotal', 'tax', 'total'].some((field) => field in quote);
+    if (touchesTotals) {
+      const existing = await this.getQuote(id);
+      if (existing) {
+        totals = await this.reconcileQuoteTotals(
+          quote,
+          quote.items ?? existing.items,
+          existing.createdBy,
+          existing.createdAt ?? new Date(),
+        );
+      }
+    }
+
+    return await db.transaction((tx) => this.saveQuoteIn(tx, id, { ...quote, ...totals }, updatedBy, statusNote));
+  }
+
+  // Every save becomes a new immutable revision, so the figures offered at
+  // each point stay on record
+  private async saveQuoteIn(
+    tx: Transaction,
+    id: string,
+    quote: Partial<InsertQuote & QuoteComputedFields>,
+    updatedBy: string | null,
+    statusNote?: string,
+  ): Promise<Quote> {
+    const [current] = await tx.select().from(quotes).where(eq(quotes.id, id)).for("update");
+    if (!current) {
+      return current;
+    }
+
+    // Status changes must follow the quote lifecycle and are logged
+    const statusChanged = quote.status !== undefined && quote.status !== current.status;
+    if (statusChanged && !canTransitionQuoteStatus(current.status, quote.status!)) {
+      throw new QuoteStatusError(current.status, quote.status!);
+    }
+    if (isFinalQuoteStatus(current.status)) {
+      throw new QuoteLockedError(current.status);
+    }
+
+    // Nothing is accepted for a client whose FICA isn't complete
+    const accepted = statusChanged && quote.status === 'accepted';
+    if (accepted) {
+      const kycItems = await tx.select().from(clientKycItems).where(eq(clientKycItems.clientId, current.clientId));
+      const outstanding = kycChecklist(kycItems).filter((state) => state.status !== 'verified');
+      if (outstanding.length > 0) {
+        throw new KycIncompleteError(outstanding.map((state) => state.requirement));
+      }
+    }
+
+    // An accepted investment plan becomes a share subscription agreement
+    let agreementNumber = current.agreementNumber;
+    if (accepted && current.type === 'investment_plan' && !agreementNumber) {
+      const organisationId = await this.getOrganisationId(current.createdBy);
+      agreementNumber = await this.allocateNumber(tx, organisationId, ['agreement'], 'agreementNumber', new Date());
+    }
+
+    const revision = current.revision + 1;
+    await tx.update(quotes).set({
       ...quote,
+      ...(accepted ? { acceptedAt: new Date(), agreementNumber } : {}),
+      revision,
       updatedAt: new Date()
     }).where(eq(quotes.id, id));
-    
-    const [updatedQuote] = await db.select().from(quotes).where(eq(quotes.id, id));
+
+    if (statusChanged) {
+      await tx.insert(quoteStatusHistory).values({
+        id: nanoid(),
+        quoteId: id,
+        fromStatus: current.status,
+        toStatus: quote.status!,
+        changedBy: updatedBy,
+        note: statusNote ?? null,
+      });
+    }
+
+    const [updatedQuote] = await tx.select().from(quotes).where(eq(quotes.id, id));
+    await tx.insert(quoteRevisions).values({
+      id: nanoid(),
+      quoteId: id,
+      revision,
+      snapshot: updatedQuote,
+      createdBy: updatedBy,
+    });
     return updatedQuote;
   }
 
@@ -204,41 +1023,264 @@ export class DatabaseStorage implements IStorage {
     await db.delete(quotes).where(eq(quotes.id, id));
   }
 
-  async getNextQuoteNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const prefix = `Q${year}-`;
-    
-    // Use a transaction to prevent race conditions
-    return await db.transaction(async (tx) => {
-      // Lock the table to prevent concurrent modifications
-      const [lastQuote] = await tx
+  async getOverdueSentQuotes(at: Date): Promise<Quote[]> {
+    return await db.select().from(quotes).where(and(eq(quotes.status, 'sent'), lte(quotes.validUntil, at)));
+  }
+
+  // Quote sharing operations
+  async createQuoteShareLink(link: { quoteId: string; tokenHash: string; expiresAt: Date; createdBy: string }): Promise<QuoteShareLink> {
+    const id = nanoid();
+    await db.insert(quoteShareLinks).values({ ...link, id });
+
+    const [newLink] = await db.select().from(quoteShareLinks).where(eq(quoteShareLinks.id, id));
+    return newLink;
+  }
+
+  async getQuoteShareLinkByTokenHash(tokenHash: string): Promise<QuoteShareLink | undefined> {
+    const [link] = await db.select().from(quoteShareLinks).where(eq(quoteShareLinks.tokenHash, tokenHash));
+    return link;
+  }
+
+  async getQuoteResponses(quoteId: string): Promise<QuoteResponse[]> {
+    const responses = await db.select().from(quoteResponses).where(eq(quoteResponses.quoteId, quoteId)).orderBy(desc(quoteResponses.createdAt));
+    return responses.map(decryptQuoteResponse);
+  }
+
+  // The quote moves to accepted/rejected in the same transaction, so a
+  // response is only kept when the lifecycle allowed it, and a quote never
+  // changes status without the response that changed it
+  async recordQuoteResponse(response: InsertQuoteResponse): Promise<QuoteResponse> {
+    const status = response.decision === 'accepted' ? 'accepted' : 'rejected';
+    const verb = response.decision === 'accepted' ? 'Accepted' : 'Declined';
+    const id = nanoid();
+    await db.transaction(async (tx) => {
+      await this.saveQuoteIn(tx, response.quoteId, { status }, null, `${verb} online by ${response.signatoryName}`);
+      await tx.insert(quoteResponses).values({ ...response, id, signatoryIdNumber: encryptField(response.signatoryIdNumber) });
+    });
+
+    const [newResponse] = await db.select().from(quoteResponses).where(eq(quoteResponses.id, id));
+    return decryptQuoteResponse(newResponse);
+  }
+
+  async setQuoteResponseDocument(id: string, documentId: string): Promise<void> {
+    await db.update(quoteResponses).set({ documentId }).where(eq(quoteResponses.id, id));
+  }
+
+  async getQuoteStatusHistory(quoteId: string): Promise<QuoteStatusChangeWithUser[]> {
+    const rows = await db
+      .select({ change: quoteStatusHistory, firstName: users.firstName, lastName: users.lastName })
+      .from(quoteStatusHistory)
+      .leftJoin(users, eq(quoteStatusHistory.changedBy, users.id))
+      .where(eq(quoteStatusHistory.quoteId, quoteId))
+      .orderBy(desc(quoteStatusHistory.createdAt));
+
+    return rows.map(({ change, firstName, lastName }) => ({
+      ...change,
+      changedByName: fullName(firstName, lastName),
+    }));
+  }
+
+  async getQuoteRevisions(quoteId: string): Promise<QuoteRevision[]> {
+    return await db.select().from(quoteRevisions).where(eq(quoteRevisions.quoteId, quoteId)).orderBy(desc(quoteRevisions.revision));
+  }
+
+  async getQuoteRevision(quoteId: string, revision: number): Promise<QuoteRevision | undefined> {
+    const [quoteRevision] = await db
+      .select()
+      .from(quoteRevisions)
+      .where(and(eq(quoteRevisions.quoteId, quoteId), eq(quoteRevisions.revision, revision)));
+    return quoteRevision;
+  }
+
+  // Bring an older revision's content back as the latest revision. Status is
+  // left alone; restoring figures doesn't undo sending or acceptance.
+  async restoreQuoteRevision(quoteId: string, revision: number, userId: string): Promise<Quote> {
+    const quoteRevision = await this.getQuoteRevision(quoteId, revision);
+    if (!quoteRevision) {
+      throw new Error("Quote revision not found");
+    }
+
+    return await this.updateQuote(quoteId, revisionContent(quoteRevision.snapshot), userId);
+  }
+
+  // Start a new draft quote, with its own number, from an older revision.
+  // Totals are recalculated at today's tax rate.
+  async cloneQuoteRevision(quoteId: string, revision: number, userId: string): Promise<Quote> {
+    const quoteRevision = await this.getQuoteRevision(quoteId, revision);
+    if (!quoteRevision) {
+      throw new Error("Quote revision not found");
+    }
+
+    const content = revisionContent(quoteRevision.snapshot);
+    const totals = await this.reconcileQuoteTotals({}, content.items, userId, new Date());
+    return await this.createQuote({
+      ...content,
+      ...totals,
+      clientId: quoteRevision.snapshot.clientId,
+      validUntil: null, // The old validity has likely passed; take the default
+      status: 'draft',
+      createdBy: userId,
+    });
+  }
+
+  // Recalculate a quote's line amounts and totals with the tax rate in force
+  // for the owner's organisation on the quote date. Whatever the client
+  // submitted must agree, line by line.
+  private async reconcileQuoteTotals(
+    submitted: Partial<Pick<InsertQuote, 'items' | 'subtotal' | 'tax' | 'total'>>,
+    items: QuoteLineInput[],
+    ownerId: string,
+    quoteDate: Date,
+  ) {
+    const owner = await this.getUser(ownerId);
+    const taxRate = await this.getEffectiveTaxRate(owner?.organisationId ?? DEFAULT_ORGANISATION_ID, quoteDate);
+    const ratePercent = taxRate ? parseFloat(taxRate.ratePercent) : 0;
+
+    const totals = calculateQuoteTotals(items, ratePercent);
+    const discrepancies = findTotalsDiscrepancies(submitted, totals);
+    if (discrepancies.length > 0) {
+      throw new QuoteTotalsError(discrepancies);
+    }
+
+    return {
+      items: totals.items,
+      subtotal: totals.subtotal.toFixed(2),
+      tax: totals.tax.toFixed(2),
+      total: totals.total.toFixed(2),
+      taxRate: ratePercent.toFixed(3),
+    };
+  }
+
+  private async getOrganisationId(userId: string): Promise<string> {
+    const user = await this.getUser(userId);
+    return user?.organisationId ?? DEFAULT_ORGANISATION_ID;
+  }
+
+  // Number sequence operations
+  async getNumberSequences(organisationId: string): Promise<NumberSequence[]> {
+    return await db.select().from(numberSequences).where(eq(numberSequences.organisationId, organisationId)).orderBy(numberSequences.key);
+  }
+
+  async upsertNumberSequence(organisationId: string, key: string, settings: NumberSequenceSettings): Promise<NumberSequence> {
+    await db.insert(numberSequences).values({
+      id: nanoid(),
+      organisationId,
+      key,
+      format: settings.format,
+      resetPeriod: settings.resetPeriod,
+      currentPeriod: sequencePeriod(settings.resetPeriod, new Date()),
+      nextValue: settings.nextValue ?? 1,
+    }).onDuplicateKeyUpdate({
+      set: {
+        format: settings.format,
+        resetPeriod: settings.resetPeriod,
+        ...(settings.nextValue ? { nextValue: settings.nextValue } : {}),
+        updatedAt: new Date(),
+      },
+    });
+
+    const [sequence] = await db
+      .select()
+      .from(numberSequences)
+      .where(and(eq(numberSequences.organisationId, organisationId), eq(numberSequences.key, key)));
+    return sequence;
+  }
+
+  // Take the next number from the first of `keys` the organisation has
+  // configured, creating the last key from its defaults if none exist. The
+  // sequence row stays locked until the caller's transaction ends, so
+  // concurrent creates queue rather than collide. A number already on a quote
+  // raises NumberSequenceConflictError, leaving the sequence where it was.
+  private async allocateNumber(
+    tx: Transaction,
+    organisationId: string,
+    keys: string[],
+    column: 'quoteNumber' | 'agreementNumber',
+    at: Date,
+  ): Promise<string> {
+    const lockSequence = async (candidates: string[]) => {
+      const rows = await tx
         .select()
-        .from(quotes)
-        .where(like(quotes.quoteNumber, `${prefix}%`))
-        .orderBy(desc(quotes.quoteNumber))
-        .limit(1)
+        .from(numberSequences)
+        .where(and(eq(numberSequences.organisationId, organisationId), inArray(numberSequences.key, candidates)))
         .for("update");
+      return candidates.map((key) => rows.find((row) => row.key === key)).find(Boolean);
+    };
 
-      if (!lastQuote) {
-        return `${prefix}001`;
+    let sequence = await lockSequence(keys);
+    if (!sequence) {
+      const key = keys[keys.length - 1];
+      const defaults = DEFAULT_SEQUENCES[key];
+      await tx.insert(numberSequences).ignore().values({
+        id: nanoid(),
+        organisationId,
+        key,
+        format: defaults.format,
+        resetPeriod: defaults.resetPeriod,
+        currentPeriod: sequencePeriod(defaults.resetPeriod, at),
+      });
+      sequence = await lockSequence([key]);
+      if (!sequence) {
+        throw new Error(`Number sequence ${key} could not be created`);
       }
+    }
 
-      const lastNumber = parseInt(lastQuote.quoteNumber.replace(prefix, ''));
-      const nextNumber = (lastNumber + 1).toString().padStart(3, '0');
-      return `${prefix}${nextNumber}`;
-    });
+    const period = sequencePeriod(sequence.resetPeriod, at);
+    const value = period === sequence.currentPeriod ? sequence.nextValue : 1;
+    const number = formatSequenceNumber(sequence.format, value, at);
+    const [taken] = await tx.select({ id: quotes.id }).from(quotes).where(eq(quotes[column], number));
+    if (taken) {
+      throw new NumberSequenceConflictError(sequence.key, number);
+    }
+
+    await tx.update(numberSequences).set({
+      currentPeriod: period,
+      nextValue: value + 1,
+      updatedAt: new Date(),
+    }).where(eq(numberSequences.id, sequence.id));
+
+    return number;
+  }
+
+  // Tax rate operations
+  async getTaxRates(organisationId: string): Promise<TaxRate[]> {
+    return await db.select().from(taxRates).where(eq(taxRates.organisationId, organisationId)).orderBy(desc(taxRates.effectiveFrom));
+  }
+
+  async getEffectiveTaxRate(organisationId: string, at: Date): Promise<TaxRate | undefined> {
+    const [taxRate] = await db
+      .select()
+      .from(taxRates)
+      .where(
+        and(
+          eq(taxRates.organisationId, organisationId),
+          lte(taxRates.effectiveFrom, at),
+          or(isNull(taxRates.effectiveTo), gt(taxRates.effectiveTo, at))
+        )
+      )
+      .orderBy(desc(taxRates.effectiveFrom))
+      .limit(1);
+    return taxRate;
+  }
+
+  async createTaxRate(taxRate: InsertTaxRate): Promise<TaxRate> {
+    const id = nanoid();
+    await db.insert(taxRates).values({ ...taxRate, id });
+
+    const [result] = await db.select().from(taxRates).where(eq(taxRates.id, id));
+    return result;
   }
 
   // Meeting operations
-  async getMeetings(userId: string, isAdmin: boolean): Promise<Meeting[]> {
-    if (!isAdmin) {
-      return await db.select().from(meetings).where(eq(meetings.createdBy, userId)).orderBy(desc(meetings.scheduledAt));
-    }
-    return await db.select().from(meetings).orderBy(desc(meetings.scheduledAt));
+  async getMeetings(viewer: Actor): Promise<Meeting[]> {
+    return await db.select().from(meetings).where(readableBy(meetings.createdBy, viewer)).orderBy(desc(meetings.scheduledAt));
   }
 
-  async getMeeting(id: string): Promise<Meeting | undefined> {
+  async getMeeting(id: string, viewer?: Actor): Promise<Meeting | undefined> {
     const [meeting] = await db.select().from(meetings).where(eq(meetings.id, id));
+    if (meeting && viewer && !can(viewer, 'read', { type: 'meeting', record: meeting })) {
+      return undefined;
+    }
     return meeting;
   }
 
@@ -277,12 +1319,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Document operations
-  async getDocuments(clientId: string): Promise<Document[]> {
+  async getDocuments(clientId: string, viewer?: Actor): Promise<Document[]> {
+    if (viewer && !(await this.getClient(clientId, viewer))) {
+      return [];
+    }
     return await db.select().from(documents).where(eq(documents.clientId, clientId)).orderBy(desc(documents.createdAt));
   }
 
-  async getDocument(id: string): Promise<Document | undefined> {
+  async getDocument(id: string, viewer?: Actor): Promise<Document | undefined> {
     const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    if (document && viewer) {
+      const client = await this.getClient(document.clientId);
+      if (!can(viewer, 'read', { type: 'document', record: document, client })) {
+        return undefined;
+      }
+    }
     return document;
   }
 
@@ -298,8 +1349,342 @@ export class DatabaseStorage implements IStorage {
     await db.delete(documents).where(eq(documents.id, id));
   }
 
+  // FICA / KYC operations
+  async getKycItems(clientId: string): Promise<ClientKycItemWithDocument[]> {
+    const rows = await db
+      .select({ item: clientKycItems, documentName: documents.originalName })
+      .from(clientKycItems)
+      .innerJoin(documents, eq(clientKycItems.documentId, documents.id))
+      .where(eq(clientKycItems.clientId, clientId))
+      .orderBy(desc(clientKycItems.createdAt));
+    return rows.map(({ item, documentName }) => ({ ...item, documentName }));
+  }
+
+  async getKycItem(id: string): Promise<ClientKycItem | undefined> {
+    const [item] = await db.select().from(clientKycItems).where(eq(clientKycItems.id, id));
+    return item;
+  }
+
+  async createKycItem(item: typeof clientKycItems.$inferInsert): Promise<ClientKycItem> {
+    const id = nanoid();
+    await db.insert(clientKycItems).values({ ...item, id });
+    const [newItem] = await db.select().from(clientKycItems).where(eq(clientKycItems.id, id));
+    return newItem;
+  }
+
+  // Only pending items can be reviewed; undefined if it was reviewed meanwhile
+  async reviewKycItem(id: string, review: { status: 'verified' | 'rejected'; reviewedBy: string; reviewNote?: string }): Promise<ClientKycItem | undefined> {
+    const [result] = await db
+      .update(clientKycItems)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(eq(clientKycItems.id, id), eq(clientKycItems.status, 'pending')));
+    if (result.affectedRows === 0) {
+      return undefined;
+    }
+    return await this.getKycItem(id);
+  }
+
+  async deleteKycItem(id: string): Promise<void> {
+    await db.delete(clientKycItems).where(eq(clientKycItems.id, id));
+  }
+
+  // Client contact and relationship operations
+  async getClientContacts(clientId: string): Promise<ClientContact[]> {
+    return await db.select().from(clientContacts).where(eq(clientContacts.clientId, clientId)).orderBy(clientContacts.createdAt);
+  }
+
+  async getClientContact(id: string): Promise<ClientContact | undefined> {
+    const [contact] = await db.select().from(clientContacts).where(eq(clientContacts.id, id));
+    return contact;
+  }
+
+  async createClientContact(contact: typeof clientContacts.$inferInsert): Promise<ClientContact> {
+    const id = nanoid();
+    await db.insert(clientContacts).values({ ...contact, id });
+    const [newContact] = await db.select().from(clientContacts).where(eq(clientContacts.id, id));
+    return newContact;
+  }
+
+  async updateClientContact(id: string, contact: Partial<InsertClientContact>): Promise<ClientContact> {
+    await db.update(clientContacts).set({ ...contact, updatedAt: new Date() }).where(eq(clientContacts.id, id));
+    const [updatedContact] = await db.select().from(clientContacts).where(eq(clientContacts.id, id));
+    return updatedContact;
+  }
+
+  async deleteClientContact(id: string): Promise<void> {
+    await db.delete(clientContacts).where(eq(clientContacts.id, id));
+  }
+
+  // Links in both directions, so a trust sees its trustees as well as the trustee seeing the trust
+  async getClientRelationships(clientId: string): Promise<ClientRelationship[]> {
+    return await db
+      .select()
+      .from(clientRelationships)
+      .where(or(eq(clientRelationships.fromClientId, clientId), eq(clientRelationships.toClientId, clientId)))
+      .orderBy(clientRelationships.createdAt);
+  }
+
+  async getClientRelationship(id: string): Promise<ClientRelationship | undefined> {
+    const [relationship] = await db.select().from(clientRelationships).where(eq(clientRelationships.id, id));
+    return relationship;
+  }
+
+  async createClientRelationship(relationship: typeof clientRelationships.$inferInsert): Promise<ClientRelationship> {
+    const id = nanoid();
+    await db.insert(clientRelationships).values({ ...relationship, id });
+    const [newRelationship] = await db.select().from(clientRelationships).where(eq(clientRelationships.id, id));
+    return newRelationship;
+  }
+
+  async deleteClientRelationship(id: string): Promise<void> {
+    await db.delete(clientRelationships).where(eq(clientRelationships.id, id));
+  }
+
+  // The client and everyone linked to it by household links, directly or
+  // through other members, e.g. both parents and their children
+  async getHouseholdClientIds(clientId: string): Promise<string[]> {
+    const members = new Set([clientId]);
+    let frontier = [clientId];
+    while (frontier.length > 0 && members.size < MAX_HOUSEHOLD_SIZE) {
+      const links = await db
+        .select({ fromClientId: clientRelationships.fromClientId, toClientId: clientRelationships.toClientId })
+        .from(clientRelationships)
+        .where(and(
+          eq(clientRelationships.type, 'household'),
+          or(inArray(clientRelationships.fromClientId, frontier), inArray(clientRelationships.toClientId, frontier))
+        ));
+
+      frontier = [];
+      for (const link of links) {
+        for (const id of [link.fromClientId, link.toClientId]) {
+          if (!members.has(id)) {
+            members.add(id);
+            frontier.push(id);
+          }
+        }
+      }
+    }
+    return Array.from(members);
+  }
+
+  // Amount invested per client: the totals of its accepted investment plans
+  async getInvestedTotals(clientIds: string[]): Promise<Record<string, number>> {
+    if (clientIds.length === 0) {
+      return {};
+    }
+    const rows = await db
+      .select({ clientId: quotes.clientId, total: sum(quotes.total) })
+      .from(quotes)
+      .where(and(
+        inArray(quotes.clientId, clientIds),
+        eq(quotes.type, 'investment_plan'),
+        eq(quotes.status, 'accepted')
+      ))
+      .groupBy(quotes.clientId);
+    return Object.fromEntries(rows.map((row) => [row.clientId, parseFloat(row.total || '0')]));
+  }
+
+  // Client interaction operations
+  async getClientInteractions(clientId: string): Promise<ClientInteractionWithAuthor[]> {
+    const rows = await db
+      .select({ interaction: clientInteractions, firstName: users.firstName, lastName: users.lastName })
+      .from(clientInteractions)
+      .leftJoin(users, eq(clientInteractions.authorId, users.id))
+      .where(eq(clientInteractions.clientId, clientId))
+      .orderBy(desc(clientInteractions.occurredAt), desc(clientInteractions.createdAt));
+    return rows.map(({ interaction, firstName, lastName }) => ({ ...interaction, authorName: fullName(firstName, lastName) }));
+  }
+
+  async getClientInteraction(id: string): Promise<ClientInteraction | undefined> {
+    const [interaction] = await db.select().from(clientInteractions).where(eq(clientInteractions.id, id));
+    return interaction;
+  }
+
+  async createClientInteraction(interaction: typeof clientInteractions.$inferInsert): Promise<ClientInteraction> {
+    const id = nanoid();
+    await db.insert(clientInteractions).values({ ...interaction, id });
+    const [newInteraction] = await db.select().from(clientInteractions).where(eq(clientInteractions.id, id));
+    return newInteraction;
+  }
+
+  async updateClientInteraction(id: string, interaction: Partial<InsertClientInteraction>): Promise<ClientInteraction> {
+    await db.update(clientInteractions).set({ ...interaction, updatedAt: new Date() }).where(eq(clientInteractions.id, id));
+    const [updatedInteraction] = await db.select().from(clientInteractions).where(eq(clientInteractions.id, id));
+    return updatedInteraction;
+  }
+
+  async deleteClientInteraction(id: string): Promise<void> {
+    await db.delete(clientInteractions).where(eq(clientInteractions.id, id));
+  }
+
+  // Client timeline operations
+  // Takes one more than `limit` events from each source after the cursor and
+  // merges them: the newest `limit` overall are among them, and any extra
+  // means there is another page
+  async getClientTimeline(
+    clientId: string,
+    viewer: Actor,
+    options: { kinds: readonly TimelineEventKind[]; before?: TimelineCursor; limit: number }
+  ): Promise<{ events: TimelineEvent[]; next: TimelineCursor | null }> {
+    const { kinds, before, limit } = options;
+    const sources: Promise<TimelineEvent[]>[] = [];
+
+    if (kinds.includes('quote')) {
+      sources.push(db
+        .select({ change: quoteStatusHistory, quote: { id: quotes.id, quoteNumber: quotes.quoteNumber, title: quotes.title }, firstName: users.firstName, lastName: users.lastName })
+        .from(quoteStatusHistory)
+        .innerJoin(quotes, eq(quoteStatusHistory.quoteId, quotes.id))
+        .leftJoin(users, eq(quoteStatusHistory.changedBy, users.id))
+        .where(and(
+          eq(quotes.clientId, clientId),
+          readableBy(quotes.createdBy, viewer),
+          timelineAfter('quote', quoteStatusHistory.createdAt, quoteStatusHistory.id, before)
+        ))
+        .orderBy(desc(quoteStatusHistory.createdAt), desc(sql`BINARY ${quoteStatusHistory.id}`))
+        .limit(limit + 1)
+        .then((rows) => rows.map(({ change, quote, firstName, lastName }) => ({
+          id: `quote:${change.id}`,
+          kind: 'quote' as const,
+          at: change.createdAt!,
+          subjectId: quote.id,
+          title: `${quote.quoteNumber}: ${quote.title}`,
+          detail: change.note,
+          fromStatus: change.fromStatus,
+          toStatus: change.toStatus,
+          actorName: fullName(firstName, lastName),
+        }))));
+    }
+
+    if (kinds.includes('meeting')) {
+      sources.push(db
+        .select({ meeting: meetings, firstName: users.firstName, lastName: users.lastName })
+        .from(meetings)
+        .leftJoin(users, eq(meetings.createdBy, users.id))
+        .where(and(
+          eq(meetings.clientId, clientId),
+          readableBy(meetings.createdBy, viewer),
+          timelineAfter('meeting', meetings.scheduledAt, meetings.id, before)
+        ))
+        .orderBy(desc(meetings.scheduledAt), desc(sql`BINARY ${meetings.id}`))
+        .limit(limit + 1)
+        .then((rows) => rows.map(({ meeting, firstName, lastName }) => ({
+          id: `meeting:${meeting.id}`,
+          kind: 'meeting' as const,
+          at: meeting.scheduledAt,
+          subjectId: meeting.id,
+          title: meeting.title,
+          detail: meeting.location,
+          fromStatus: null,
+          toStatus: meeting.status,
+          actorName: fullName(firstName, lastName),
+        }))));
+    }
+
+    if (kinds.includes('document')) {
+      sources.push(db
+        .select({ document: documents, firstName: users.firstName, lastName: users.lastName })
+        .from(documents)
+        .leftJoin(users, eq(documents.uploadedBy, users.id))
+        .where(and(
+          eq(documents.clientId, clientId),
+          timelineAfter('document', documents.createdAt, documents.id, before)
+        ))
+        .orderBy(desc(documents.createdAt), desc(sql`BINARY ${documents.id}`))
+        .limit(limit + 1)
+        .then((rows) => rows.map(({ document, firstName, lastName }) => ({
+          id: `document:${document.id}`,
+          kind: 'document' as const,
+          at: document.createdAt!,
+          subjectId: document.id,
+          title: document.originalName,
+          detail: null,
+          fromStatus: null,
+          toStatus: null,
+          actorName: fullName(firstName, lastName),
+        }))));
+    }
+
+    if (kinds.includes('status')) {
+      sources.push(db
+        .select({ change: clientStatusHistory, clientName: clients.name, firstName: users.firstName, lastName: users.lastName })
+        .from(clientStatusHistory)
+        .innerJoin(clients, eq(clientStatusHistory.clientId, clients.id))
+        .leftJoin(users, eq(clientStatusHistory.changedBy, users.id))
+        .where(and(
+          eq(clientStatusHistory.clientId, clientId),
+          timelineAfter('status', clientStatusHistory.createdAt, clientStatusHistory.id, before)
+        ))
+        .orderBy(desc(clientStatusHistory.createdAt), desc(sql`BINARY ${clientStatusHistory.id}`))
+        .limit(limit + 1)
+        .then((rows) => rows.map(({ change, clientName, firstName, lastName }) => ({
+          id: `status:${change.id}`,
+          kind: 'status' as const,
+          at: change.createdAt!,
+          subjectId: change.clientId,
+          title: clientName,
+          detail: null,
+          fromStatus: change.fromStatus,
+          toStatus: change.toStatus,
+          actorName: fullName(firstName, lastName),
+        }))));
+    }
+
+    if (kinds.includes('note')) {
+      sources.push(db
+        .select({ interaction: clientInteractions, firstName: users.firstName, lastName: users.lastName })
+        .from(clientInteractions)
+        .leftJoin(users, eq(clientInteractions.authorId, users.id))
+        .where(and(
+          eq(clientInteractions.clientId, clientId),
+          timelineAfter('note', clientInteractions.occurredAt, clientInteractions.id, before)
+        ))
+        .orderBy(desc(clientInteractions.occurredAt), desc(sql`BINARY ${clientInteractions.id}`))
+        .limit(limit + 1)
+        .then((rows) => rows.map(({ interaction, firstName, lastName }) => ({
+          id: `note:${interaction.id}`,
+          kind: 'note' as const,
+          at: interaction.occurredAt,
+          subjectId: interaction.id,
+          title: interactionTypeLabels[interaction.type as InteractionType] ?? interaction.type,
+          detail: interaction.body,
+          fromStatus: null,
+          toStatus: null,
+          actorName: fullName(firstName, lastName),
+        }))));
+    }
+
+    const merged = (await Promise.all(sources)).flat().sort(compareTimelineEvents);
+    const events = merged.slice(0, limit);
+    const last = events[events.length - 1];
+    return {
+      events,
+      next: merged.length > limit ? { at: new Date(last.at), id: last.id } : null,
+    };
+  }
+
+  // Notification operations
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return await db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(desc(notifications.createdAt)).limit(50);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = nanoid();
+    await db.insert(notifications).values({ ...notification, id });
+
+    const [newNotification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return newNotification;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<void> {
+    await db.update(notifications).set({ readAt: new Date() }).where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db.update(notifications).set({ readAt: new Date() }).where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
   // Dashboard stats
-  async getDashboardStats(userId: string, isAdmin: boolean): Promise<{
+  async getDashboardStats(viewer: Actor): Promise<{
     totalClients: number;
     activeQuotes: number;
     upcomingMeetings: number;
@@ -310,46 +1695,34 @@ export class DatabaseStorage implements IStorage {
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
       // Count total clients
-      const [clientCount] = isAdmin 
-        ? await db.select({ count: count() }).from(clients)
-        : await db.select({ count: count() }).from(clients).where(eq(clients.createdBy, userId));
+      const [clientCount] = await db.select({ count: count() }).from(clients).where(readableBy(clients.createdBy, viewer));
 
-      // Count active quotes
-      const [quoteCount] = isAdmin
-        ? await db.select({ count: count() }).from(quotes).where(eq(quotes.status, 'sent'))
-        : await db.select({ count: count() }).from(quotes).where(and(eq(quotes.status, 'sent'), eq(quotes.createdBy, userId)));
+      // Count active quotes: sent and still valid, even if the expiry job hasn't caught up yet
+      const [quoteCount] = await db.select({ count: count() }).from(quotes).where(
+        and(
+          eq(quotes.status, 'sent'),
+          or(isNull(quotes.validUntil), gt(quotes.validUntil, now)),
+          readableBy(quotes.createdBy, viewer)
+        )
+      );
 
       // Count upcoming meetings
-      const [meetingCount] = isAdmin
-        ? await db.select({ count: count() }).from(meetings).where(
-            and(
-              gte(meetings.scheduledAt, now),
-              eq(meetings.status, 'scheduled')
-            )
-          )
-        : await db.select({ count: count() }).from(meetings).where(
-            and(
-              gte(meetings.scheduledAt, now),
-              eq(meetings.status, 'scheduled'),
-              eq(meetings.createdBy, userId)
-            )
-          );
+      const [meetingCount] = await db.select({ count: count() }).from(meetings).where(
+        and(
+          gte(meetings.scheduledAt, now),
+          eq(meetings.status, 'scheduled'),
+          readableBy(meetings.createdBy, viewer)
+        )
+      );
 
       // Calculate monthly revenue from accepted quotes
-      const [revenue] = isAdmin
-        ? await db.select({ total: sum(quotes.total) }).from(quotes).where(
-            and(
-              eq(quotes.status, 'accepted'),
-              gte(quotes.updatedAt, startOfMonth)
-            )
-          )
-        : await db.select({ total: sum(quotes.total) }).from(quotes).where(
-            and(
-              eq(quotes.status, 'accepted'),
-              gte(quotes.updatedAt, startOfMonth),
-              eq(quotes.createdBy, userId)
-            )
-          );
+      const [revenue] = await db.select({ total: sum(quotes.total) }).from(quotes).where(
+        and(
+          eq(quotes.status, 'accepted'),
+          gte(quotes.acceptedAt, startOfMonth),
+          readableBy(quotes.createdBy, viewer)
+        )
+      );
 
       return {
         totalClients: clientCount?.count || 0,
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import http from "http";
+import request from "supertest";
+import type { AuthFlow, User, UserIdentity } from "@shared/schema";
+import { MockOidcIssuer } from "./mockOidcIssuer";
+
+// Signs in through the real OIDC routes against a mock issuer on localhost.
+// Storage is in memory; sessions use express-session's MemoryStore.
+
+const { users, identities, flows } = vi.hoisted(() => ({
+  users: new Map<string, User>(),
+  identities: [] as UserIdentity[],
+  flows: new Map<string, AuthFlow>(),
+}));
+
+vi.mock("./db", () => ({ db: {}, pool: { execute: vi.fn(async () => [[]]) } }));
+vi.mock("express-mysql-session", () => ({ default: (session: any) => session.MemoryStore }));
+vi.mock("./email", () => ({ sendEmail: vi.fn() }));
+
+vi.mock("./mysqlStorage", () => ({
+  storage: {
+    createAuthFlow: vi.fn(async (flow: AuthFlow) => {
+      flows.set(flow.tokenHash, flow);
+    }),
+    consumeAuthFlow: vi.fn(async (tokenHash: string) => {
+      const flow = flows.get(tokenHash);
+      flows.delete(tokenHash);
+      return flow;
+    }),
+    getUserIdentity: vi.fn(async (provider: string, subject: string) =>
+      identities.find((identity) => identity.provider === provider && identity.subject === subject)),
+    createUserIdentity: vi.fn(async (identity: UserIdentity) => {
+      identities.push({ ...identity, id: `identity-${identities.length + 1}` });
+      return identities[identities.length - 1];
+    }),
+    createUserWithIdentity: vi.fn(),
+    recordIdentityLogin: vi.fn(),
+    getUser: vi.fn(async (id: string) => users.get(id)),
+    searchUsers: vi.fn(async (email: string) => Array.from(users.values()).filter((user) => user.email === email)),
+    updateUser: vi.fn(async (id: string) => users.get(id)),
+    getRoles: vi.fn(async () => []),
+    getRolePermissions: vi.fn(async () => []),
+    getBranchUserIds: vi.fn(async () => []),
+    getOrganisation: vi.fn(async () => ({ requireTwoFactor: false })),
+    recordLoginAttempt: vi.fn(),
+  },
+}));
+
+const { storage } = await import("./mysqlStorage");
+const { setupAuth } = await import("./customAuth");
+
+const issuer = await new MockOidcIssuer().start();
+for (const key of ["MOCK", "TRUSTED"]) {
+  process.env[`AUTH_${key}_TYPE`] = "oidc";
+  process.env[`AUTH_${key}_ISSUER`] = issuer.url;
+  process.env[`AUTH_${key}_CLIENT_ID`] = issuer.clientId;
+  process.env[`AUTH_${key}_CLIENT_SECRET`] = issuer.clientSecret;
+}
+process.env.AUTH_TRUSTED_TRUST_EMAIL = "true";
+process.env.AUTH_PROVIDERS = "mock,trusted";
+process.env.SESSION_SECRET = "test-session-secret";
+
+const app = express();
+await setupAuth(app);
+let server: http.Server;
+
+beforeAll(async () => {
+  server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await issuer.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  users.clear();
+  identities.length = 0;
+  flows.clear();
+  users.set("user-1", {
+    id: "user-1",
+    email: "ann@example.com",
+    firstName: "Ann",
+    lastName: "Adams",
+    role: "consultant",
+    organisationId: "default",
+    branchId: null,
+    actsForUserId: null,
+    isActive: true,
+    totpEnabledAt: null,
+    failedLoginCount: 0,
+    lockedUntil: null,
+    sessionVersion: 0,
+  } as User);
+});
+
+// Follows the browser's round trip: our start route, the issuer's
+// authorization endpoint, and back to our callback
+async function signIn(provider: string, claims: { sub: string } & Record<string, unknown>) {
+  const agent = request.agent(server);
+  issuer.signInAs(claims);
+
+  const start = await agent.get(`/api/auth/providers/${provider}/start`);
+  expect(start.status).toBe(302);
+  expect(start.headers.location.startsWith(`${issuer.url}/authorize`)).toBe(true);
+
+  const authorize = await fetch(start.headers.location, { redirect: "manual" });
+  const callback = new URL(authorize.headers.get("location")!);
+  const finish = await agent.get(callback.pathname + callback.search);
+  expect(finish.status).toBe(302);
+
+  return { agent, location: finish.headers.location as string };
+}
+
+describe("OIDC sign-in", () => {
+  it("signs in the user an identity is linked to, whatever email it now sends", async () => {
+    identities.push({ id: "identity-1", userId: "user-1", provider: "mock", subject: "subject-1" } as UserIdentity);
+
+    const { agent, location } = await signIn("mock", { sub: "subject-1", email: "someone.else@example.com" });
+    expect(location).toBe("/");
+
+    const me = await agent.get("/api/auth/user");
+    expect(me.status).toBe(200);
+    expect(me.body.id).toBe("user-1");
+  });
+
+  it("links a new identity to the user with the same verified email", async () => {
+    const { agent, location } = await signIn("mock", { sub: "subject-2", email: "ann@example.com", email_verified: true });
+    expect(location).toBe("/");
+    expect(storage.createUserIdentity).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", provider: "mock", subject: "subject-2" }),
+    );
+    expect((await agent.get("/api/auth/user")).body.id).toBe("user-1");
+  });
+
+  it("doesn't link by an email the provider hasn't verified", async () => {
+    const { agent, location } = await signIn("mock", { sub: "attacker", email: "ann@example.com" });
+    expect(location).toMatch(/^\/login\?error=/);
+    expect(storage.createUserIdentity).not.toHaveBeenCalled();
+    expect((await agent.get("/api/auth/user")).status).toBe(401);
+  });
+
+  it("never takes preferred_username for the email address", async () => {
+    const { location } = await signIn("mock", {
+      sub: "attacker",
+      preferred_username: "ann@example.com",
+      email_verified: true,
+    });
+    expect(location).toMatch(/^\/login\?error=/);
+    expect(storage.createUserIdentity).not.toHaveBeenCalled();
+  });
+
+  it("links by email without email_verified when the provider is trusted", async () => {
+    const { location } = await signIn("trusted", { sub: "subject-3", email: "ann@example.com" });
+    expect(location).toBe("/");
+    expect(storage.createUserIdentity).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", provider: "trusted", subject: "subject-3" }),
+    );
+  });
+});
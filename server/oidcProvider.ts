@@ -0,0 +1,94 @@
+import * as client from 'openid-client';
+import type { Request } from 'express';
+import {
+  AuthProviderError,
+  providerEnv,
+  requiredProviderEnv,
+  type AuthProvider,
+  type AuthProviderSettings,
+  type ExternalIdentity,
+} from './authProviders';
+
+// OpenID Connect sign-in with the authorization code flow and PKCE, e.g. for
+// Microsoft Entra ID (issuer https://login.microsoftonline.com/<tenant>/v2.0)
+export class OidcProvider implements AuthProvider {
+  readonly callbackMethod = 'get';
+  private issuer: URL;
+  private clientId: string;
+  private clientSecret: string | undefined;
+  private scope: string;
+  private config: Promise<client.Configuration> | undefined;
+
+  constructor(readonly settings: AuthProviderSettings) {
+    this.issuer = new URL(requiredProviderEnv(settings.key, 'ISSUER'));
+    this.clientId = requiredProviderEnv(settings.key, 'CLIENT_ID');
+    this.clientSecret = providerEnv(settings.key, 'CLIENT_SECRET');
+    this.scope = providerEnv(settings.key, 'SCOPES') ?? 'openid email profile';
+  }
+
+  // Discovery happens on the first sign-in and is retried if it fails
+  private getConfig(): Promise<client.Configuration> {
+    this.config ??= client
+      .discovery(this.issuer, this.clientId, this.clientSecret, undefined, {
+        execute: this.issuer.protocol === 'http:' ? [client.allowInsecureRequests] : [],
+      })
+      .catch((error) => {
+        this.config = undefined;
+        throw error;
+      });
+    return this.config;
+  }
+
+  async start(callbackUrl: string) {
+    const config = await this.getConfig();
+    const codeVerifier = client.randomPKCECodeVerifier();
+    const state = client.randomState();
+    const nonce = client.randomNonce();
+    const redirectUrl = client.buildAuthorizationUrl(config, {
+      redirect_uri: callbackUrl,
+      scope: this.scope,
+      code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+      state,
+      nonce,
+    });
+    return { redirectUrl: redirectUrl.href, flowData: { codeVerifier, state, nonce } };
+  }
+
+  async finish(req: Request, callbackUrl: string, flowData: Record<string, string>): Promise<ExternalIdentity> {
+    if (typeof req.query.error === 'string') {
+      throw new AuthProviderError(
+        typeof req.query.error_description === 'string' ? req.query.error_description : 'Sign-in was cancelled',
+      );
+    }
+
+    const config = await this.getConfig();
+    const currentUrl = new URL(callbackUrl);
+    currentUrl.search = new URLSearchParams(req.query as Record<string, string>).toString();
+    const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+      pkceCodeVerifier: flowData.codeVerifier,
+      expectedState: flowData.state,
+      expectedNonce: flowData.nonce,
+      idTokenExpected: true,
+    });
+
+    const claims = tokens.claims();
+    if (!claims) {
+      throw new AuthProviderError('The sign-in provider did not return an ID token');
+    }
+
+    // preferred_username is never used as the address: users can often set it
+    // themselves, so it says nothing about who owns the mailbox
+    const groups = claims[this.settings.groupsClaim];
+
+    return {
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email : null,
+      // Entra and others leave email_verified out; those need AUTH_<KEY>_TRUST_EMAIL
+      emailVerified: claims.email_verified === true,
+      firstName: typeof claims.given_name === 'string' ? claims.given_name : null,
+      lastName: typeof claims.family_name === 'string' ? claims.family_name : null,
+      groups: Array.isArray(groups) ? groups.map(String) : [],
+    };
+  }
+}
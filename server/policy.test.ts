@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { buildActor, can, isPlatformAdmin, recordOwnerId } from "./policy";
+import { permissions } from "@shared/permissions";
+import type { Client, Document, Quote, User } from "@shared/schema";
+
+function makeUser(overrides: Partial<User> = {}): User {
+  return {
+    id: "consultant-a",
+    email: "a@example.com",
+    firstName: "Ann",
+    lastName: "Adams",
+    role: "consultant",
+    branchId: null,
+    actsForUserId: null,
+    isActive: true,
+    ...overrides,
+  } as User;
+}
+
+const clientOf = (createdBy: string) => ({ id: `client-of-${createdBy}`, createdBy }) as Client;
+const quoteOf = (createdBy: string) => ({ id: `quote-of-${createdBy}`, createdBy }) as Quote;
+
+describe("buildActor", () => {
+  it("gives admins every permission whatever their role stores", () => {
+    const actor = buildActor(makeUser({ role: "admin" }), []);
+    expect(actor.permissions).toEqual([...permissions]);
+    expect(actor.readableOwnerIds).toBeNull();
+    expect(actor.writableOwnerIds).toBeNull();
+  });
+
+  it("keeps only known permissions of the role", () => {
+    const actor = buildActor(makeUser(), ["quotes.approve", "not.a.permission"]);
+    expect(actor.permissions).toEqual(["quotes.approve"]);
+  });
+
+  it("limits a consultant to their own records", () => {
+    const actor = buildActor(makeUser(), [], ["consultant-a", "consultant-b"]);
+    expect(actor.readableOwnerIds).toEqual(["consultant-a"]);
+    expect(actor.writableOwnerIds).toEqual(["consultant-a"]);
+  });
+
+  it("lets read_all read everyone's records but write only their own", () => {
+    const actor = buildActor(makeUser(), ["records.read_all"]);
+    expect(actor.readableOwnerIds).toBeNull();
+    expect(actor.writableOwnerIds).toEqual(["consultant-a"]);
+  });
+
+  it("lets write_all read and write everyone's records", () => {
+    const actor = buildActor(makeUser(), ["records.write_all"]);
+    expect(actor.readableOwnerIds).toBeNull();
+    expect(actor.writableOwnerIds).toBeNull();
+  });
+
+  it("adds the branch only with records.branch", () => {
+    const branch = ["consultant-a", "consultant-b"];
+    expect(buildActor(makeUser(), [], branch).readableOwnerIds).toEqual(["consultant-a"]);
+    expect(buildActor(makeUser(), ["records.branch"], branch).readableOwnerIds).toEqual(branch);
+  });
+
+  it("adds the consultant an assistant works for only with records.on_behalf", () => {
+    const assistant = makeUser({ id: "assistant", actsForUserId: "consultant-a" });
+    expect(buildActor(assistant, []).writableOwnerIds).toEqual(["assistant"]);
+    expect(buildActor(assistant, ["records.on_behalf"]).writableOwnerIds).toEqual(["assistant", "consultant-a"]);
+  });
+});
+
+describe("recordOwnerId", () => {
+  it("assigns an assistant's records to their consultant", () => {
+    const assistant = makeUser({ id: "assistant", actsForUserId: "consultant-a" });
+    expect(recordOwnerId(buildActor(assistant, ["records.on_behalf"]))).toBe("consultant-a");
+    expect(recordOwnerId(buildActor(assistant, []))).toBe("assistant");
+  });
+});
+
+describe("isPlatformAdmin", () => {
+  it("is only an admin of the default organisation", () => {
+    expect(isPlatformAdmin(makeUser({ role: "admin", organisationId: "default" }))).toBe(true);
+    expect(isPlatformAdmin(makeUser({ role: "admin", organisationId: "other" }))).toBe(false);
+    expect(isPlatformAdmin(makeUser({ organisationId: "default" }))).toBe(false);
+  });
+});
+
+describe("can", () => {
+  const consultant = buildActor(makeUser(), []);
+
+  it("lets a consultant read, update and delete only their own records", () => {
+    for (const action of ["read", "update", "delete"] as const) {
+      expect(can(consultant, action, { type: "client", record: clientOf("consultant-a") })).toBe(true);
+      expect(can(consultant, action, { type: "client", record: clientOf("consultant-b") })).toBe(false);
+      expect(can(consultant, action, { type: "quote", record: quoteOf("consultant-b") })).toBe(false);
+    }
+  });
+
+  it("lets read_all read but not change someone else's records", () => {
+    const reader = buildActor(makeUser(), ["records.read_all"]);
+    const record = clientOf("consultant-b");
+    expect(can(reader, "read", { type: "client", record })).toBe(true);
+    expect(can(reader, "update", { type: "client", record })).toBe(false);
+    expect(can(reader, "delete", { type: "client", record })).toBe(false);
+  });
+
+  it("lets quotes.approve approve only quotes the user can read", () => {
+    const approver = buildActor(makeUser(), ["quotes.approve"]);
+    expect(can(approver, "approve", { type: "quote", record: quoteOf("consultant-b") })).toBe(false);
+
+    const officer = buildActor(makeUser(), ["records.read_all", "quotes.approve"]);
+    expect(can(officer, "approve", { type: "quote", record: quoteOf("consultant-b") })).toBe(true);
+    expect(can(officer, "update", { type: "quote", record: quoteOf("consultant-b") })).toBe(false);
+  });
+
+  it("lets the uploader or the client's owner reach a document", () => {
+    const document = { id: "doc", uploadedBy: "consultant-b" } as Document;
+    expect(can(consultant, "read", { type: "document", record: document })).toBe(false);
+    expect(can(consultant, "read", { type: "document", record: document, client: clientOf("consultant-a") })).toBe(true);
+    expect(can(consultant, "delete", { type: "document", record: { ...document, uploadedBy: "consultant-a" } })).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { DEFAULT_ORGANISATION_ID, type User, type Client, type Quote, type Meeting, type Document } from "@shared/schema";
+import { ADMIN_ROLE, permissions, type Permission } from "@shared/permissions";
+
+// Central access policy for client records. Routes and storage getters ask
+// here instead of comparing roles and owners themselves.
+
+export interface Actor extends Pick<User, "id" | "role"> {
+  permissions: Permission[];
+  // Users whose records this user may read or change; null means everyone's
+  readableOwnerIds: string[] | null;
+  writableOwnerIds: string[] | null;
+}
+
+// What isAuthenticated attaches to req.user
+export type AuthenticatedUser = User & Actor;
+
+// "approve" covers accepting or rejecting a quote, which compliance officers
+// and branch managers may do on quotes they can't otherwise edit
+export type PolicyAction = "read" | "update" | "delete" | "approve";
+
+export type PolicyResource =
+  | { type: "client"; record: Client }
+  | { type: "quote"; record: Quote }
+  | { type: "meeting"; record: Meeting }
+  // A document belongs to whoever uploaded it and to the owner of its client
+  | { type: "document"; record: Document; client?: Client };
+
+// Works out a user's record scope from their role's permissions.
+// branchUserIds are the members of the user's branch, themselves included.
+export function buildActor(user: User, rolePermissions: string[], branchUserIds: string[] = []): AuthenticatedUser {
+  const granted = user.role === ADMIN_ROLE
+    ? [...permissions]
+    : permissions.filter((permission) => rolePermissions.includes(permission));
+
+  const owners = new Set([user.id]);
+  if (granted.includes("records.branch")) {
+    branchUserIds.forEach((id) => owners.add(id));
+  }
+  if (granted.includes("records.on_behalf") && user.actsForUserId) {
+    owners.add(user.actsForUserId);
+  }
+
+  return {
+    ...user,
+    permissions: granted,
+    readableOwnerIds: granted.includes("records.read_all") || granted.includes("records.write_all") ? null : Array.from(owners),
+    writableOwnerIds: granted.includes("records.write_all") ? null : Array.from(owners),
+  };
+}
+
+export function hasPermission(user: Actor, permission: Permission): boolean {
+  return user.permissions.includes(permission);
+}
+
+// Roles and their permissions are shared by every organisation, so only the
+// admins of the organisation that runs the platform may change them
+export function isPlatformAdmin(user: Pick<User, "role" | "organisationId">): boolean {
+  return user.role === ADMIN_ROLE && user.organisationId === DEFAULT_ORGANISATION_ID;
+}
+
+// Records created by an assistant belong to the consultant they work for
+export function recordOwnerId(user: AuthenticatedUser): string {
+  return hasPermission(user, "records.on_behalf") && user.actsForUserId ? user.actsForUserId : user.id;
+}
+
+function ownerAllowed(owners: string[] | null, ownerId: string | null | undefined): boolean {
+  return owners === null || (!!ownerId && owners.includes(ownerId));
+}
+
+export function can(user: Actor, action: PolicyAction, resource: PolicyResource): boolean {
+  if (action === "approve") {
+    return can(user, "update", resource) || (hasPermission(user, "quotes.approve") && can(user, "read", resource));
+  }
+
+  const owners = action === "read" ? user.readableOwnerIds : user.writableOwnerIds;
+  switch (resource.type) {
+    case "client":
+    case "quote":
+    case "meeting":
+      return ownerAllowed(owners, resource.record.createdBy);
+    case "document":
+      return ownerAllowed(owners, resource.record.uploadedBy) || ownerAllowed(owners, resource.client?.createdBy);
+  }
+}
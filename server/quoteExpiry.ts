@@ -0,0 +1,49 @@
+import { storage } from "./mysqlStorage";
+import { log } from "./vite";
+
+// How often to look for sent quotes past their valid-until date
+const EXPIRY_INTERVAL_MINUTES = parseInt(process.env.QUOTE_EXPIRY_INTERVAL_MINUTES || '60', 10);
+
+// Mark overdue sent quotes as expired and let the owning consultant know.
+// Each quote is handled on its own so one failure doesn't hold up the rest.
+export async function expireOverdueQuotes(now = new Date()): Promise<number> {
+  const overdue = await storage.getOverdueSentQuotes(now);
+  let expired = 0;
+
+  for (const quote of overdue) {
+    try {
+      await storage.transitionQuoteStatus(quote.id, 'expired', null, 'Passed its valid-until date');
+      await storage.createNotification({
+        userId: quote.createdBy,
+        type: 'quote_expired',
+        title: `Quote ${quote.quoteNumber} has expired`,
+        message: `"${quote.title}" was not accepted before its valid-until date.`,
+        link: `/quotes/${quote.id}`,
+      });
+      expired++;
+    } catch (error) {
+      console.error(`Error expiring quote ${quote.quoteNumber}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+export function startQuoteExpiryScheduler() {
+  const run = async () => {
+    try {
+      const expired = await expireOverdueQuotes();
+      if (expired > 0) {
+        log(`expired ${expired} overdue quote(s)`, "scheduler");
+      }
+    } catch (error) {
+      console.error("Error running quote expiry:", error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, EXPIRY_INTERVAL_MINUTES * 60 * 1000);
+  // Don't keep the process alive just for this job
+  timer.unref();
+  return timer;
+}
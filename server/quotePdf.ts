@@ -0,0 +1,290 @@
+import PDFDocument from 'pdfkit';
+import path from 'path';
+import fs from 'fs';
+import { format } from 'date-fns';
+import { planInputsSchema, type Client, type Quote, type User } from '@shared/schema';
+import { calculatePlan, calculateProjections, PLAN_FEES } from '@shared/investmentPlan';
+import {
+  PROPOSAL_CONDITIONS,
+  PROPOSAL_ISSUER,
+  PROPOSAL_SECTIONS,
+  SUBSCRIPTION_DECLARATION,
+  SUBSCRIPTION_SUPPORTING_DOCUMENTS,
+} from '@shared/proposalTerms';
+
+type PDFDoc = InstanceType<typeof PDFDocument>;
+
+const logoPath = path.join(process.cwd(), 'client', 'src', 'assets', 'opian-core-logo.png');
+const PAGE_MARGIN = 50;
+
+function formatAmount(value: number): string {
+  return `R ${value.toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function formatDate(value: Date | string): string {
+  return format(new Date(value), 'd MMMM yyyy');
+}
+
+function getPlanInputs(quote: Quote) {
+  if (quote.type !== 'investment_plan') {
+    return null;
+  }
+  const parsed = planInputsSchema.safeParse(quote.planInputs);
+  return parsed.success ? parsed.data : null;
+}
+
+function contentWidth(doc: PDFDoc): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+// Start a new page when the next block would run past the bottom margin
+function ensureSpace(doc: PDFDoc, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function heading(doc: PDFDoc, text: string) {
+  ensureSpace(doc, 40);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(12).text(text, PAGE_MARGIN);
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10);
+}
+
+function paragraph(doc: PDFDoc, text: string) {
+  ensureSpace(doc, 30);
+  doc.font('Helvetica').fontSize(10).text(text, PAGE_MARGIN, doc.y, { width: contentWidth(doc), align: 'justify' });
+  doc.moveDown(0.4);
+}
+
+// A label on the left and its value right-aligned on the same line
+function row(doc: PDFDoc, label: string, value: string) {
+  ensureSpace(doc, 16);
+  const y = doc.y;
+  const width = contentWidth(doc);
+  doc.font('Helvetica').fontSize(10).text(label, PAGE_MARGIN, y, { width: width * 0.65 });
+  const labelBottom = doc.y;
+  doc.font('Helvetica-Bold').text(value, PAGE_MARGIN + width * 0.65, y, { width: width * 0.35, align: 'right' });
+  doc.y = Math.max(labelBottom, doc.y) + 2;
+  doc.font('Helvetica');
+}
+
+function table(doc: PDFDoc, headers: string[], rows: string[][]) {
+  const width = contentWidth(doc);
+  const columnWidth = width / headers.length;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, 16);
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    cells.forEach((cell, index) => {
+      doc.text(cell, PAGE_MARGIN + columnWidth * index, y, {
+        width: columnWidth - 4,
+        align: index === 0 ? 'left' : 'right',
+      });
+    });
+    doc.y = y + 14;
+  };
+
+  drawRow(headers, true);
+  doc.moveTo(PAGE_MARGIN, doc.y - 2).lineTo(PAGE_MARGIN + width, doc.y - 2).stroke();
+  rows.forEach((cells) => drawRow(cells, false));
+  doc.font('Helvetica').fontSize(10);
+}
+
+function letterhead(doc: PDFDoc) {
+  const top = doc.y;
+  if (fs.existsSync(logoPath)) {
+    doc.image(logoPath, PAGE_MARGIN, top, { height: 50 });
+  }
+  doc.font('Helvetica-Bold').fontSize(9).text('Registered Address:', PAGE_MARGIN + 250, top, { width: contentWidth(doc) - 250, align: 'right' });
+  doc.font('Helvetica').fontSize(8)
+    .text(PROPOSAL_ISSUER.registeredAddress, { width: contentWidth(doc) - 250, align: 'right' })
+    .text(PROPOSAL_ISSUER.contact, { width: contentWidth(doc) - 250, align: 'right' });
+  doc.y = Math.max(doc.y, top + 55) + 10;
+  doc.x = PAGE_MARGIN;
+}
+
+function signatureLine(doc: PDFDoc, label: string, value?: string | null) {
+  ensureSpace(doc, 24);
+  const y = doc.y;
+  const labelWidth = 160;
+  doc.font('Helvetica').fontSize(10).text(label, PAGE_MARGIN, y, { width: labelWidth });
+  if (value) {
+    doc.font('Helvetica-Bold').text(value, PAGE_MARGIN + labelWidth, y, { width: contentWidth(doc) - labelWidth });
+  }
+  doc.moveTo(PAGE_MARGIN + labelWidth, y + 12).lineTo(PAGE_MARGIN + contentWidth(doc), y + 12).stroke();
+  doc.y = y + 22;
+  doc.font('Helvetica');
+}
+
+function addProposal(doc: PDFDoc, quote: Quote, client: Client, preparedBy: User | undefined) {
+  letterhead(doc);
+
+  doc.font('Helvetica-Bold').fontSize(16).text(quote.title, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(10).text(`Quote ${quote.quoteNumber}`);
+  doc.moveDown();
+
+  row(doc, 'Date of Offer:', formatDate(quote.createdAt ?? new Date()));
+  row(doc, 'Offered to:', client.name);
+  if (client.company) {
+    row(doc, 'Company:', client.company);
+  }
+  if (client.address) {
+    row(doc, 'Address:', client.address);
+  }
+  if (client.phone) {
+    row(doc, 'Telephone:', client.phone);
+  }
+  if (client.email) {
+    row(doc, 'Email:', client.email);
+  }
+
+  doc.moveDown();
+  paragraph(doc, `Dear ${client.name}`);
+  paragraph(doc, 'We take pleasure in submitting the following proposal to you:');
+
+  const planInputs = getPlanInputs(quote);
+  if (planInputs) {
+    const plan = calculatePlan(planInputs);
+
+    heading(doc, 'Investment summary');
+    row(doc, 'Investment amount', formatAmount(plan.investmentAmount));
+    row(doc, 'Amount allocated to commutation with enhancement', formatAmount(plan.allocatedAmount));
+    row(doc, 'Shares purchased', plan.sharesPurchased.toLocaleString('en-ZA'));
+    row(doc, 'Term in years', String(plan.termYears));
+    row(doc, 'Commencement date', formatDate(plan.commencementDate));
+    row(doc, 'Percentage dividend first year', formatPercent(plan.firstYearDividendRate));
+    row(doc, 'Income allocated to capital in first year', formatAmount(plan.firstYearIncome));
+    row(doc, 'Liquidity', 'None');
+    row(doc, 'Exit date', formatDate(plan.redemptionDate));
+    row(doc, 'Dividend allocation cycle', 'Annually');
+
+    const projections = calculateProjections(planInputs);
+    heading(doc, 'Income projections');
+    table(
+      doc,
+      ['Year', ...projections.scenarios.map((scenario) => scenario.label)],
+      projections.scenarios[0].years.map((year, index) => [
+        String(year.year),
+        ...projections.scenarios.map((scenario) => formatAmount(scenario.years[index].closingCapital)),
+      ]),
+    );
+  } else {
+    heading(doc, 'Quotation');
+    table(
+      doc,
+      ['Description', 'Quantity', 'Rate', 'Discount', 'Amount'],
+      quote.items.map((item) => [
+        item.description,
+        String(item.quantity),
+        formatAmount(Number(item.rate)),
+        item.discountPercent ? `${item.discountPercent}%` : '-',
+        formatAmount(Number(item.amount)),
+      ]),
+    );
+    doc.moveDown(0.5);
+    row(doc, 'Subtotal', formatAmount(parseFloat(quote.subtotal)));
+    row(doc, 'Tax', formatAmount(parseFloat(quote.tax)));
+    row(doc, 'Total', formatAmount(parseFloat(quote.total)));
+  }
+
+  heading(doc, 'Conditions');
+  PROPOSAL_CONDITIONS.forEach((condition, index) => {
+    paragraph(doc, `${index + 1}.  ${condition}`);
+  });
+
+  for (const section of PROPOSAL_SECTIONS) {
+    heading(doc, section.heading);
+    if (section.heading === 'Validity' && quote.validUntil) {
+      paragraph(doc, `This offer is valid until ${formatDate(quote.validUntil)}.`);
+    }
+    paragraph(doc, section.body);
+  }
+
+  heading(doc, 'Placement and Admin fees');
+  paragraph(doc, 'The Placement and Admin fees amount shown below are paid nett of VAT');
+  row(doc, 'Placement fee', `${formatPercent(PLAN_FEES.placementFeeRate)} once off`);
+  row(doc, 'Admin fees: first 5 years', `${formatPercent(PLAN_FEES.adminFeeRateFirstFiveYears)} per annum`);
+  row(doc, 'Admin fees: after 5 years', `${formatPercent(PLAN_FEES.adminFeeRateAfterFiveYears)} per annum`);
+
+  heading(doc, 'Commission');
+  paragraph(doc, 'The Commission amount shown below are paid nett of VAT');
+  row(doc, 'Commission: first year', formatPercent(PLAN_FEES.commissionRateFirstYear));
+  row(doc, 'Commission: following years', `${formatPercent(PLAN_FEES.commissionRateTrailing)} per annum`);
+
+  heading(doc, 'Offer Prepared By:');
+  if (preparedBy) {
+    paragraph(doc, `${preparedBy.firstName} ${preparedBy.lastName}\nEmail: ${preparedBy.email}`);
+  }
+}
+
+function addSubscriptionForm(doc: PDFDoc, quote: Quote, client: Client) {
+  doc.addPage();
+  letterhead(doc);
+
+  doc.font('Helvetica-Bold').fontSize(16).text('SHARE SUBSCRIPTION FORM', PAGE_MARGIN, doc.y, {
+    width: contentWidth(doc),
+    align: 'center',
+  });
+  doc.moveDown();
+  row(doc, 'Agreement number:', quote.agreementNumber ?? 'Allocated on acceptance');
+  row(doc, 'Quote number:', quote.quoteNumber);
+  row(doc, 'Shareholder:', client.name);
+  doc.moveDown();
+  paragraph(doc, SUBSCRIPTION_DECLARATION);
+  doc.moveDown();
+
+  const planInputs = getPlanInputs(quote);
+  const plan = planInputs ? calculatePlan(planInputs) : null;
+
+  signatureLine(doc, 'Signature of Shareholder:');
+  signatureLine(doc, 'Date:');
+  signatureLine(doc, 'Name in Print:', client.name);
+  signatureLine(doc, 'ID Number:');
+  signatureLine(doc, 'Physical Address:', client.address);
+  signatureLine(doc, 'Postal Address:');
+  signatureLine(doc, 'Email Address:', client.email);
+  signatureLine(doc, 'Contact Number:', client.phone);
+  signatureLine(doc, 'Source of Funds:');
+  signatureLine(doc, 'Number of Shares Purchased:', plan ? plan.sharesPurchased.toLocaleString('en-ZA') : null);
+  signatureLine(doc, 'Price per Share:', planInputs ? formatAmount(planInputs.sharePrice) : null);
+  signatureLine(doc, 'Purchase Price:', formatAmount(parseFloat(quote.total)));
+
+  heading(doc, 'PLEASE ATTACH THE FOLLOWING SUPPORT DOCUMENTATION:');
+  for (const document of SUBSCRIPTION_SUPPORTING_DOCUMENTS) {
+    paragraph(doc, `[  ]  ${document}`);
+  }
+}
+
+// Render a quote as the branded proposal followed by the share subscription
+// form, pre-filled from the client record. Runs entirely in-process.
+export function generateQuotePdf(quote: Quote, client: Client, preparedBy: User | undefined): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `${quote.quoteNumber} - ${quote.title}`,
+        Author: PROPOSAL_ISSUER.name,
+        // Dated by the quote rather than the clock, so the same revision always
+        // renders to the same bytes and its hash can be checked later
+        CreationDate: quote.updatedAt ?? quote.createdAt ?? undefined,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    addProposal(doc, quote, client, preparedBy);
+    addSubscriptionForm(doc, quote, client);
+    doc.end();
+  });
+}
@@ -0,0 +1,360 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import fs from "fs";
+import request from "supertest";
+import { PROPOSAL_CONDITIONS } from "@shared/proposalTerms";
+import type { Client, Document, Meeting, Quote, User } from "@shared/schema";
+import { buildActor, can, type Actor, type AuthenticatedUser } from "./policy";
+
+// Routes are exercised against an in-memory storage whose getters filter by
+// viewer the way DatabaseStorage does, and a login stub that signs in
+// whichever test user the x-test-user header names.
+
+const { actors, records } = vi.hoisted(() => ({
+  actors: new Map<string, AuthenticatedUser>(),
+  records: {
+    users: new Map<string, User>(),
+    rolePermissions: new Map<string, string[]>(),
+    clients: new Map<string, Client>(),
+    quotes: new Map<string, Quote>(),
+    meetings: new Map<string, Meeting>(),
+    documents: new Map<string, Document>(),
+  },
+}));
+
+vi.mock("./customAuth", () => ({
+  setupAuth: async () => {},
+  isAuthenticated: (req: any, res: any, next: any) => {
+    req.user = actors.get(req.get("x-test-user"));
+    return req.user ? next() : res.status(401).json({ message: "Unauthorized" });
+  },
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
+  hashPassword: async (password: string) => password,
+  destroyUserSessions: async () => {},
+}));
+
+vi.mock("./quotePdf", () => ({ generateQuotePdf: vi.fn(async () => Buffer.from("%PDF-test")) }));
+
+vi.mock("./mysqlStorage", () => {
+  const visible = <T>(record: T | undefined, viewer: Actor | undefined, allowed: (record: T) => boolean) =>
+    record && (!viewer || allowed(record)) ? record : undefined;
+
+  return {
+    QuoteTotalsError: class extends Error {},
+    KycIncompleteError: class extends Error {},
+    QuoteStatusError: class extends Error {},
+    QuoteLockedError: class extends Error {},
+    NumberSequenceConflictError: class extends Error {},
+    storage: {
+      getClient: vi.fn(async (id: string, viewer?: Actor) =>
+        visible(records.clients.get(id), viewer, (record) => can(viewer!, "read", { type: "client", record }))),
+      getQuote: vi.fn(async (id: string, viewer?: Actor) =>
+        visible(records.quotes.get(id), viewer, (record) => can(viewer!, "read", { type: "quote", record }))),
+      getMeeting: vi.fn(async (id: string, viewer?: Actor) =>
+        visible(records.meetings.get(id), viewer, (record) => can(viewer!, "read", { type: "meeting", record }))),
+      getDocument: vi.fn(async (id: string, viewer?: Actor) =>
+        visible(records.documents.get(id), viewer, (record) =>
+          can(viewer!, "read", { type: "document", record, client: records.clients.get(record.clientId) }))),
+      updateClient: vi.fn(),
+      deleteClient: vi.fn(),
+      updateQuote: vi.fn(),
+      deleteQuote: vi.fn(),
+      updateMeeting: vi.fn(),
+      deleteMeeting: vi.fn(),
+      deleteDocument: vi.fn(),
+      getClientInteraction: vi.fn(async (id: string) => ({ id, clientId: "client-1", authorId: "officer" })),
+      updateClientInteraction: vi.fn(),
+      deleteClientInteraction: vi.fn(),
+      getQuoteShareLinkByTokenHash: vi.fn(async () => ({ id: "link-1", quoteId: "quote-1", expiresAt: new Date(Date.now() + 60000) })),
+      getKycItems: vi.fn(async () => []),
+      getUser: vi.fn(async (id: string) => records.users.get(id)),
+      getRoles: vi.fn(async () => Array.from(records.rolePermissions.keys(), (key) => ({ key }))),
+      getRolePermissions: vi.fn(async (role: string) => records.rolePermissions.get(role) ?? []),
+      setRolePermissions: vi.fn(),
+      searchUsers: vi.fn(async () => []),
+      upsertUser: vi.fn(async (user: User) => user),
+      updateUser: vi.fn(async (id: string, user: Partial<User>) => ({ ...records.users.get(id), ...user })),
+      disableTwoFactor: vi.fn(),
+      reassignUserRecords: vi.fn(async () => ({ clients: 0, quotes: 0, meetings: 0 })),
+      recordQuoteResponse: vi.fn(),
+      createDocument: vi.fn(async (document: Document) => ({ ...document, id: "evidence-1" })),
+      setQuoteResponseDocument: vi.fn(),
+      createNotification: vi.fn(),
+    },
+  };
+});
+
+const { storage, QuoteStatusError } = await import("./mysqlStorage");
+const { registerRoutes } = await import("./routes");
+
+const app = express();
+app.use(express.json());
+await registerRoutes(app);
+
+function addActor(id: string, rolePermissions: string[] = [], role = "consultant", organisationId = "default") {
+  const user = { id, role, organisationId, actsForUserId: null, isActive: true } as User;
+  records.users.set(id, user);
+  actors.set(id, buildActor(user, rolePermissions));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  actors.clear();
+  records.users.clear();
+  records.rolePermissions.clear();
+  records.rolePermissions.set("admin", []);
+  records.rolePermissions.set("consultant", []);
+  records.rolePermissions.set("user_manager", ["users.manage"]);
+  records.rolePermissions.set("compliance_officer", ["records.read_all", "quotes.approve"]);
+  addActor("consultant-a");
+  addActor("consultant-b");
+  addActor("officer", ["records.read_all"]);
+
+  records.clients.clear();
+  records.quotes.clear();
+  records.meetings.clear();
+  records.documents.clear();
+  records.clients.set("client-1", { id: "client-1", name: "Client One", createdBy: "consultant-a" } as Client);
+  records.quotes.set("quote-1", { id: "quote-1", clientId: "client-1", createdBy: "consultant-a" } as Quote);
+  records.meetings.set("meeting-1", { id: "meeting-1", clientId: "client-1", createdBy: "consultant-a" } as Meeting);
+  records.documents.set("document-1", {
+    id: "document-1",
+    clientId: "client-1",
+    path: "/nonexistent",
+    uploadedBy: "consultant-a",
+  } as Document);
+});
+
+const singleRecordRoutes = [
+  { path: "/api/clients/client-1", message: "Client not found", update: "updateClient", remove: "deleteClient" },
+  { path: "/api/quotes/quote-1", message: "Quote not found", update: "updateQuote", remove: "deleteQuote" },
+  { path: "/api/meetings/meeting-1", message: "Meeting not found", update: "updateMeeting", remove: "deleteMeeting" },
+] as const;
+
+describe.each(singleRecordRoutes)("$path", ({ path, message, update, remove }) => {
+  it("is returned to its owner", async () => {
+    const response = await request(app).get(path).set("x-test-user", "consultant-a");
+    expect(response.status).toBe(200);
+  });
+
+  it("is not found for another consultant", async () => {
+    const response = await request(app).get(path).set("x-test-user", "consultant-b");
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({ message });
+  });
+
+  it("can't be updated by another consultant", async () => {
+    const response = await request(app).put(path).set("x-test-user", "consultant-b").send({ title: "Taken over" });
+    expect(response.status).toBe(404);
+    expect(storage[update]).not.toHaveBeenCalled();
+  });
+
+  it("can't be deleted by another consultant", async () => {
+    const response = await request(app).delete(path).set("x-test-user", "consultant-b");
+    expect(response.status).toBe(404);
+    expect(storage[remove]).not.toHaveBeenCalled();
+  });
+
+  it("can be read but not changed by a user who may read every record", async () => {
+    expect((await request(app).get(path).set("x-test-user", "officer")).status).toBe(200);
+    expect((await request(app).put(path).set("x-test-user", "officer").send({})).status).toBe(403);
+    expect((await request(app).delete(path).set("x-test-user", "officer")).status).toBe(403);
+    expect(storage[update]).not.toHaveBeenCalled();
+    expect(storage[remove]).not.toHaveBeenCalled();
+  });
+});
+
+describe("/api/clients/:id/interactions/:interactionId", () => {
+  it("can't be changed by its author without edit access to the client", async () => {
+    const path = "/api/clients/client-1/interactions/interaction-1";
+    expect((await request(app).put(path).set("x-test-user", "officer").send({ summary: "Edited" })).status).toBe(403);
+    expect((await request(app).delete(path).set("x-test-user", "officer")).status).toBe(403);
+    expect(storage.updateClientInteraction).not.toHaveBeenCalled();
+    expect(storage.deleteClientInteraction).not.toHaveBeenCalled();
+  });
+});
+
+describe("/api/quotes/:id", () => {
+  it("can't change a settled quote", async () => {
+    for (const status of ["accepted", "rejected", "expired"]) {
+      records.quotes.set("quote-1", { ...records.quotes.get("quote-1")!, status });
+      const response = await request(app).put("/api/quotes/quote-1").set("x-test-user", "consultant-a").send({ title: "New terms" });
+      expect(response.status).toBe(409);
+    }
+    expect(storage.updateQuote).not.toHaveBeenCalled();
+  });
+
+  it("has no PDF for a quote on a client the user can't see", async () => {
+    records.quotes.set("quote-2", { id: "quote-2", clientId: "client-1", createdBy: "consultant-b" } as Quote);
+    for (const method of ["get", "post"] as const) {
+      const response = await request(app)[method]("/api/quotes/quote-2/pdf").set("x-test-user", "consultant-b");
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: "Client not found" });
+    }
+  });
+});
+
+describe("/api/documents/:id", () => {
+  it("is not found for another consultant", async () => {
+    const download = await request(app).get("/api/documents/client-1/document-1/download").set("x-test-user", "consultant-b");
+    expect(download.status).toBe(404);
+
+    const removal = await request(app).delete("/api/documents/document-1").set("x-test-user", "consultant-b");
+    expect(removal.status).toBe(404);
+    expect(storage.deleteDocument).not.toHaveBeenCalled();
+  });
+
+  it("can be deleted by the owner of its client", async () => {
+    const response = await request(app).delete("/api/documents/document-1").set("x-test-user", "consultant-a");
+    expect(response.status).toBe(204);
+    expect(storage.deleteDocument).toHaveBeenCalledWith("document-1");
+  });
+});
+
+describe("/api/public/proposals/:token/respond", () => {
+  const declined = {
+    decision: "decline",
+    signatoryName: "Client One",
+    signatoryIdNumber: "8001015009087",
+    conditionsAccepted: PROPOSAL_CONDITIONS.map(() => false),
+  };
+
+  beforeEach(() => {
+    records.quotes.set("quote-1", { ...records.quotes.get("quote-1")!, status: "sent", revision: 2 });
+  });
+
+  it("stores no evidence when the quote can no longer change status", async () => {
+    vi.mocked(storage.recordQuoteResponse).mockRejectedValueOnce(new QuoteStatusError());
+    const response = await request(app).post("/api/public/proposals/token/respond").send(declined);
+    expect(response.status).toBe(409);
+    expect(storage.createDocument).not.toHaveBeenCalled();
+  });
+
+  it("stores the evidence after the response is recorded", async () => {
+    vi.mocked(storage.recordQuoteResponse).mockResolvedValueOnce({ id: "response-1", decision: "declined" } as any);
+    const response = await request(app).post("/api/public/proposals/token/respond").send(declined);
+    expect(response.status).toBe(201);
+
+    const [recordOrder] = vi.mocked(storage.recordQuoteResponse).mock.invocationCallOrder;
+    const [storeOrder] = vi.mocked(storage.createDocument).mock.invocationCallOrder;
+    expect(storeOrder).toBeGreaterThan(recordOrder);
+    expect(storage.setQuoteResponseDocument).toHaveBeenCalledWith("response-1", "evidence-1");
+    await fs.promises.unlink(vi.mocked(storage.createDocument).mock.calls[0][0].path);
+  });
+});
+
+describe("user administration without the admin role", () => {
+  beforeEach(() => {
+    addActor("admin", [], "admin");
+    addActor("manager", ["users.manage"], "user_manager");
+  });
+
+  it("can't assign the admin role or a role with permissions the manager lacks", async () => {
+    for (const role of ["admin", "compliance_officer"]) {
+      const access = await request(app)
+        .put("/api/admin/users/consultant-b/access")
+        .set("x-test-user", "manager")
+        .send({ role, branchId: null, actsForUserId: null });
+      expect(access.status).toBe(403);
+
+      const created = await request(app)
+        .post("/api/admin/users")
+        .set("x-test-user", "manager")
+        .send({ email: "new@example.com", firstName: "New", lastName: "User", password: "Correct-Horse-42!", role });
+      expect(created.status).toBe(403);
+    }
+    expect(storage.updateUser).not.toHaveBeenCalled();
+    expect(storage.upsertUser).not.toHaveBeenCalled();
+  });
+
+  it("can assign a role within the manager's own permissions", async () => {
+    const response = await request(app)
+      .put("/api/admin/users/consultant-b/access")
+      .set("x-test-user", "manager")
+      .send({ role: "user_manager", branchId: null, actsForUserId: null });
+    expect(response.status).toBe(200);
+  });
+
+  it("can't take over an admin's account", async () => {
+    const password = await request(app)
+      .post("/api/admin/users/admin/password")
+      .set("x-test-user", "manager")
+      .send({ password: "Correct-Horse-42!" });
+    expect(password.status).toBe(403);
+
+    const profile = await request(app)
+      .put("/api/admin/users/admin")
+      .set("x-test-user", "manager")
+      .send({ email: "manager@example.com", firstName: "Ad", lastName: "Min" });
+    expect(profile.status).toBe(403);
+
+    const twoFactor = await request(app).post("/api/admin/users/admin/reset-two-factor").set("x-test-user", "manager");
+    expect(twoFactor.status).toBe(403);
+    expect(storage.updateUser).not.toHaveBeenCalled();
+    expect(storage.disableTwoFactor).not.toHaveBeenCalled();
+  });
+
+  it("can't enable, unlock or move the records of an admin", async () => {
+    for (const action of ["activate", "unlock"]) {
+      const response = await request(app).post(`/api/admin/users/admin/${action}`).set("x-test-user", "manager");
+      expect(response.status).toBe(403);
+    }
+    expect(storage.updateUser).not.toHaveBeenCalled();
+
+    const fromAdmin = await request(app)
+      .post("/api/admin/users/admin/reassign")
+      .set("x-test-user", "manager")
+      .send({ toUserId: "consultant-b" });
+    expect(fromAdmin.status).toBe(403);
+
+    const toAdmin = await request(app)
+      .post("/api/admin/users/consultant-a/reassign")
+      .set("x-test-user", "manager")
+      .send({ toUserId: "admin" });
+    expect(toAdmin.status).toBe(403);
+    expect(storage.reassignUserRecords).not.toHaveBeenCalled();
+  });
+
+  it("can move records between users within the manager's own permissions", async () => {
+    const response = await request(app)
+      .post("/api/admin/users/consultant-a/reassign")
+      .set("x-test-user", "manager")
+      .send({ toUserId: "consultant-b" });
+    expect(response.status).toBe(200);
+    expect(storage.reassignUserRecords).toHaveBeenCalledWith("consultant-a", "consultant-b");
+  });
+
+  it("can't change role permissions", async () => {
+    const response = await request(app)
+      .put("/api/admin/roles/consultant/permissions")
+      .set("x-test-user", "manager")
+      .send({ permissions: ["users.manage"] });
+    expect(response.status).toBe(403);
+    expect(storage.setRolePermissions).not.toHaveBeenCalled();
+  });
+
+  it("leaves role permissions, which every organisation shares, to platform admins", async () => {
+    addActor("other-admin", [], "admin", "other-organisation");
+    const other = await request(app)
+      .put("/api/admin/roles/consultant/permissions")
+      .set("x-test-user", "other-admin")
+      .send({ permissions: ["records.read_all"] });
+    expect(other.status).toBe(403);
+    expect(storage.setRolePermissions).not.toHaveBeenCalled();
+
+    const platform = await request(app)
+      .put("/api/admin/roles/consultant/permissions")
+      .set("x-test-user", "admin")
+      .send({ permissions: ["records.read_all"] });
+    expect(platform.status).toBe(200);
+    expect(storage.setRolePermissions).toHaveBeenCalledWith("consultant", ["records.read_all"]);
+  });
+
+  it("leaves admins free to assign any role", async () => {
+    const response = await request(app)
+      .put("/api/admin/users/consultant-b/access")
+      .set("x-test-user", "admin")
+      .send({ role: "admin", branchId: null, actsForUserId: null });
+    expect(response.status).toBe(200);
+  });
+});
@@ -3,9 +3,54 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { storage } from "./mysqlStorage";
-import { setupAuth, isAuthenticated } from "./customAuth";
-import { insertClientSchema, insertQuoteSchema, insertMeetingSchema } from "@shared/schema";
+import { nanoid } from "nanoid";
+import { storage, QuoteTotalsError, QuoteStatusError, QuoteLockedError, KycIncompleteError, NumberSequenceConflictError } from "./mysqlStorage";
+import { setupAuth, isAuthenticated, requirePermission, hashPassword, destroyUserSessions } from "./customAuth";
+import { generateQuotePdf } from "./quotePdf";
+import { generateToken, sha256 } from "./tokens";
+import { LOGIN_HISTORY_LIMIT } from "./loginThrottle";
+import { can, hasPermission, isPlatformAdmin, recordOwnerId, type AuthenticatedUser } from "./policy";
+import {
+  insertClientSchema,
+  updateClientSchema,
+  insertQuoteSchema,
+  updateQuoteSchema,
+  insertMeetingSchema,
+  updateMeetingSchema,
+  insertTaxRateSchema,
+  planInputsSchema,
+  quoteResponseSchema,
+  numberSequenceSettingsSchema,
+  userAccessSchema,
+  rolePermissionsSchema,
+  insertBranchSchema,
+  createUserSchema,
+  userProfileSchema,
+  setPasswordSchema,
+  reassignRecordsSchema,
+  userInviteSchema,
+  signupDomainSchema,
+  securityPolicySchema,
+  kycSubmissionSchema,
+  kycReviewSchema,
+  insertClientContactSchema,
+  clientRelationshipSchema,
+  timelineQuerySchema,
+  insertClientInteractionSchema,
+  type User,
+  type InsertClient,
+  type InsertQuote,
+  type QuoteComputedFields,
+  type ClientRelationshipWithClient,
+  type ClientHousehold,
+} from "@shared/schema";
+import { calculatePlan, calculateProjections, planQuoteFigures } from "@shared/investmentPlan";
+import { isFinalQuoteStatus, quoteStatusActions } from "@shared/quoteStatus";
+import { isKycComplete, kycExpiryDate } from "@shared/kyc";
+import { clientProfileProblems, parseSaIdNumber } from "@shared/clientProfile";
+import type { TimelineCursor } from "@shared/timeline";
+import { ADMIN_ROLE, permissions } from "@shared/permissions";
+import { passwordProblems, personalPasswordTerms } from "@shared/passwordPolicy";
 import { z } from "zod";
 
 // Configure multer for file uploads
@@ -27,170 +72,1750 @@ const upload = multer({
   }
 });
 
+// Investment plan quotes take their line item, totals and projection schedule
+// from the plan calculator, never from the figures the browser sent.
+function applyPlanFigures<T extends Partial<InsertQuote>>(quoteData: T): T & QuoteComputedFields {
+  if (quoteData.planInputs === null) {
+    return { ...quoteData, projections: null };
+  }
+  if (!quoteData.planInputs) {
+    return quoteData;
+  }
+  return {
+    ...quoteData,
+    type: 'investment_plan',
+    ...planQuoteFigures(calculatePlan(quoteData.planInputs)),
+    projections: calculateProjections(quoteData.planInputs),
+  };
+}
+
+// Default lifetime of a client share link, capped at the quote's validity
+const SHARE_LINK_DAYS = parseInt(process.env.QUOTE_SHARE_LINK_DAYS || '14', 10);
+
+// Lifetime of a registration invitation
+const INVITE_LINK_DAYS = parseInt(process.env.INVITE_LINK_DAYS || '7', 10);
+
+// Shown to a client who tries to accept online before their FICA documents are verified
+const ficaOutstandingMessage = "Your identity documents still need to be verified before you can accept this proposal. Please contact your consultant.";
+
+// Share links are looked up by the hash of their token; expired links are
+// treated as missing
+async function findShareLink(token: string) {
+  const link = await storage.getQuoteShareLinkByTokenHash(sha256(token));
+  if (!link || link.expiresAt < new Date()) {
+    return undefined;
+  }
+  return link;
+}
+
+// An individual's date of birth is taken from a new ID number unless it's given too
+function withBirthDateFromIdNumber<T extends Partial<InsertClient>>(client: T): T {
+  if (client.idNumber && client.dateOfBirth === undefined) {
+    const details = parseSaIdNumber(client.idNumber);
+    if (details) {
+      return { ...client, dateOfBirth: details.dateOfBirth };
+    }
+  }
+  return client;
+}
+
+// Timeline cursors are opaque to callers: base64url-encoded JSON
+function encodeTimelineCursor(cursor: TimelineCursor): string {
+  return Buffer.from(JSON.stringify({ at: cursor.at.toISOString(), id: cursor.id })).toString('base64url');
+}
+
+function decodeTimelineCursor(value: string): TimelineCursor | undefined {
+  try {
+    const { at, id } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const date = new Date(at);
+    if (typeof id !== 'string' || isNaN(date.getTime())) {
+      return undefined;
+    }
+    return { at: date, id };
+  } catch {
+    return undefined;
+  }
+}
+
+// Users are only managed within the admin's own organisation
+async function findOrganisationUser(id: string, organisationId: string) {
+  const user = await storage.getUser(id);
+  return user && user.organisationId === organisationId ? user : undefined;
+}
+
+// Users who manage users without being admins can't hand out more than they
+// hold: only admins assign the admin role or a role with permissions the
+// caller lacks
+async function canAssignRole(user: AuthenticatedUser, role: string): Promise<boolean> {
+  if (user.role === ADMIN_ROLE) {
+    return true;
+  }
+  if (role === ADMIN_ROLE) {
+    return false;
+  }
+  const granted = await storage.getRolePermissions(role);
+  return permissions.filter((permission) => granted.includes(permission)).every((permission) => hasPermission(user, permission));
+}
+
+// Likewise they can't take over the account of someone who holds more, e.g.
+// by setting an admin's password or email address
+function canManageUser(user: AuthenticatedUser, target: User): Promise<boolean> {
+  return canAssignRole(user, target.role);
+}
+
+const roleNotAssignableMessage = "Only an admin can assign a role with permissions you don't have";
+const userNotManageableMessage = "Only an admin can change a user with permissions you don't have";
+
+function toUserSummary(user: User) {
+  const { passwordHash, totpSecret, ...summary } = user;
+  return summary;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Note: Auth routes are now handled in setupAuth function
 
-  // Dashboard stats
-  app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
+  // Dashboard stats
+  app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const stats = await storage.getDashboardStats(req.user);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching dashboard stats:", error);
+      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+    }
+  });
+
+  // Client routes
+  app.get('/api/clients', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const { search } = req.query;
+
+      let clients;
+      if (search) {
+        clients = await storage.searchClients(search as string, user);
+      } else {
+        clients = await storage.getClients(user);
+      }
+
+      res.json(clients);
+    } catch (error) {
+      console.error("Error fetching clients:", error);
+      res.status(500).json({ message: "Failed to fetch clients" });
+    }
+  });
+
+  app.get('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.id, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(client);
+    } catch (error) {
+      console.error("Error fetching client:", error);
+      res.status(500).json({ message: "Failed to fetch client" });
+    }
+  });
+
+  app.post('/api/clients', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const clientData = withBirthDateFromIdNumber(insertClientSchema.parse({
+        ...req.body,
+        createdBy: recordOwnerId(user)
+      }));
+      const problems = clientProfileProblems(clientData);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: "Invalid client data", errors: problems });
+      }
+      
+      const client = await storage.createClient(clientData, user.id);
+      res.status(201).json(client);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+      }
+      console.error("Error creating client:", error);
+      res.status(500).json({ message: "Failed to create client" });
+    }
+  });
+
+  app.put('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getClient(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const clientData = withBirthDateFromIdNumber(updateClientSchema.parse(req.body));
+      const problems = clientProfileProblems({ ...existing, ...clientData });
+      if (problems.length > 0) {
+        return res.status(400).json({ message: "Invalid client data", errors: problems });
+      }
+
+      const client = await storage.updateClient(req.params.id, clientData, user.id);
+      res.json(client);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+      }
+      console.error("Error updating client:", error);
+      res.status(500).json({ message: "Failed to update client" });
+    }
+  });
+
+  app.delete('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getClient(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'delete', { type: 'client', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteClient(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting client:", error);
+      res.status(500).json({ message: "Failed to delete client" });
+    }
+  });
+
+  // FICA / KYC routes
+  app.get('/api/clients/:id/kyc', isAuthenticated, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.id, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const items = await storage.getKycItems(client.id);
+      res.json({ complete: isKycComplete(items), items });
+    } catch (error) {
+      console.error("Error fetching FICA checklist:", error);
+      res.status(500).json({ message: "Failed to fetch FICA checklist" });
+    }
+  });
+
+  app.post('/api/clients/:id/kyc', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const submission = kycSubmissionSchema.parse(req.body);
+      const document = await storage.getDocument(submission.documentId, user);
+      if (!document || document.clientId !== client.id) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const expiresAt = kycExpiryDate(submission.requirement, submission.documentDate, submission.expiresAt);
+      if (expiresAt && expiresAt <= new Date()) {
+        return res.status(400).json({ message: "This document is too old or has expired" });
+      }
+
+      const item = await storage.createKycItem({
+        clientId: client.id,
+        requirement: submission.requirement,
+        documentId: document.id,
+        documentDate: submission.documentDate,
+        expiresAt,
+        submittedBy: user.id,
+      });
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid FICA document data", errors: error.errors });
+      }
+      console.error("Error adding FICA document:", error);
+      res.status(500).json({ message: "Failed to add FICA document" });
+    }
+  });
+
+  // POST /api/clients/:id/kyc/:itemId/verify and /reject. The reviewer must be
+  // someone other than the user who submitted or uploaded the document.
+  for (const [action, status] of Object.entries({ verify: 'verified', reject: 'rejected' } as const)) {
+    app.post(`/api/clients/:id/kyc/:itemId/${action}`, isAuthenticated, requirePermission('kyc.verify'), async (req: any, res) => {
+      try {
+        const user = req.user;
+        const client = await storage.getClient(req.params.id, user);
+        const item = client && await storage.getKycItem(req.params.itemId);
+        if (!item || item.clientId !== client.id) {
+          return res.status(404).json({ message: "FICA document not found" });
+        }
+
+        const document = await storage.getDocument(item.documentId);
+        if (item.submittedBy === user.id || document?.uploadedBy === user.id) {
+          return res.status(403).json({ message: "A different user must review documents you submitted or uploaded" });
+        }
+
+        const { note } = kycReviewSchema.parse(req.body ?? {});
+        if (status === 'rejected' && !note) {
+          return res.status(400).json({ message: "Give a reason for rejecting the document" });
+        }
+
+        const reviewed = await storage.reviewKycItem(item.id, { status, reviewedBy: user.id, reviewNote: note });
+        if (!reviewed) {
+          return res.status(409).json({ message: "This document has already been reviewed" });
+        }
+        res.json(reviewed);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid review", errors: error.errors });
+        }
+        console.error(`Error performing FICA action ${action}:`, error);
+        res.status(500).json({ message: `Failed to ${action} FICA document` });
+      }
+    });
+  }
+
+  app.delete('/api/clients/:id/kyc/:itemId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const item = client && await storage.getKycItem(req.params.itemId);
+      if (!item || item.clientId !== client.id) {
+        return res.status(404).json({ message: "FICA document not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteKycItem(item.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing FICA document:", error);
+      res.status(500).json({ message: "Failed to remove FICA document" });
+    }
+  });
+
+  // Events from the client's quotes, meetings, documents and notes, newest first. Pass
+  // the returned nextCursor as ?cursor= for the next page.
+  app.get('/api/clients/:id/timeline', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const query = timelineQuerySchema.parse(req.query);
+      const before = query.cursor ? decodeTimelineCursor(query.cursor) : undefined;
+      if (query.cursor && !before) {
+        return res.status(400).json({ message: "Invalid timeline cursor" });
+      }
+
+      const { events, next } = await storage.getClientTimeline(client.id, user, { kinds: query.kinds, before, limit: query.limit });
+      res.json({ events, nextCursor: next ? encodeTimelineCursor(next) : null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid timeline query", errors: error.errors });
+      }
+      console.error("Error fetching client timeline:", error);
+      res.status(500).json({ message: "Failed to fetch client timeline" });
+    }
+  });
+
+  // Client interaction routes. Entries are kept as written; only their author
+  // can correct or remove them.
+  app.get('/api/clients/:id/interactions', isAuthenticated, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.id, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const interactions = await storage.getClientInteractions(client.id);
+      res.json(interactions);
+    } catch (error) {
+      console.error("Error fetching client interactions:", error);
+      res.status(500).json({ message: "Failed to fetch client interactions" });
+    }
+  });
+
+  app.post('/api/clients/:id/interactions', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const interactionData = insertClientInteractionSchema.parse(req.body);
+      const interaction = await storage.createClientInteraction({
+        ...interactionData,
+        occurredAt: interactionData.occurredAt ?? new Date(),
+        clientId: client.id,
+        authorId: user.id,
+      });
+      res.status(201).json(interaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid interaction data", errors: error.errors });
+      }
+      console.error("Error creating client interaction:", error);
+      res.status(500).json({ message: "Failed to create client interaction" });
+    }
+  });
+
+  app.put('/api/clients/:id/interactions/:interactionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const existing = client && await storage.getClientInteraction(req.params.interactionId);
+      if (!existing || existing.clientId !== client.id) {
+        return res.status(404).json({ message: "Interaction not found" });
+      }
+      // Authors keep their notes only while they may still work on the client
+      if (existing.authorId !== user.id || !can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const interactionData = insertClientInteractionSchema.partial().parse(req.body);
+      const interaction = await storage.updateClientInteraction(existing.id, interactionData);
+      res.json(interaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid interaction data", errors: error.errors });
+      }
+      console.error("Error updating client interaction:", error);
+      res.status(500).json({ message: "Failed to update client interaction" });
+    }
+  });
+
+  app.delete('/api/clients/:id/interactions/:interactionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const existing = client && await storage.getClientInteraction(req.params.interactionId);
+      if (!existing || existing.clientId !== client.id) {
+        return res.status(404).json({ message: "Interaction not found" });
+      }
+      if (existing.authorId !== user.id || !can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteClientInteraction(existing.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting client interaction:", error);
+      res.status(500).json({ message: "Failed to delete client interaction" });
+    }
+  });
+
+  // Client contact routes
+  app.get('/api/clients/:id/contacts', isAuthenticated, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.id, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const contacts = await storage.getClientContacts(client.id);
+      res.json(contacts);
+    } catch (error) {
+      console.error("Error fetching client contacts:", error);
+      res.status(500).json({ message: "Failed to fetch client contacts" });
+    }
+  });
+
+  app.post('/api/clients/:id/contacts', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const contactData = insertClientContactSchema.parse(req.body);
+      const contact = await storage.createClientContact({ ...contactData, clientId: client.id, createdBy: user.id });
+      res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      console.error("Error creating client contact:", error);
+      res.status(500).json({ message: "Failed to create client contact" });
+    }
+  });
+
+  app.put('/api/clients/:id/contacts/:contactId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const existing = client && await storage.getClientContact(req.params.contactId);
+      if (!existing || existing.clientId !== client.id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const contactData = insertClientContactSchema.partial().parse(req.body);
+      const contact = await storage.updateClientContact(existing.id, contactData);
+      res.json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      console.error("Error updating client contact:", error);
+      res.status(500).json({ message: "Failed to update client contact" });
+    }
+  });
+
+  app.delete('/api/clients/:id/contacts/:contactId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const existing = client && await storage.getClientContact(req.params.contactId);
+      if (!existing || existing.clientId !== client.id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteClientContact(existing.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting client contact:", error);
+      res.status(500).json({ message: "Failed to delete client contact" });
+    }
+  });
+
+  // Client relationship routes
+  app.get('/api/clients/:id/relationships', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const links = await storage.getClientRelationships(client.id);
+      const relationships: ClientRelationshipWithClient[] = await Promise.all(links.map(async (link) => {
+        const outgoing = link.fromClientId === client.id;
+        const related = await storage.getClient(outgoing ? link.toClientId : link.fromClientId, user);
+        return {
+          ...link,
+          direction: outgoing ? "outgoing" : "incoming",
+          relatedClient: related ? { id: related.id, name: related.name, clientType: related.clientType } : null,
+        };
+      }));
+
+      // Only members the viewer can see count towards the household total
+      const memberIds = await storage.getHouseholdClientIds(client.id);
+      const visibleMembers = (await Promise.all(memberIds.map((id) => storage.getClient(id, user))))
+        .filter((member) => member !== undefined);
+      const invested = await storage.getInvestedTotals(visibleMembers.map((member) => member.id));
+      const members = visibleMembers.map((member) => ({ id: member.id, name: member.name, invested: invested[member.id] ?? 0 }));
+      const household: ClientHousehold = {
+        members,
+        totalInvested: members.reduce((total, member) => total + member.invested, 0),
+        hiddenMembers: memberIds.length - members.length,
+      };
+
+      res.json({ relationships, household });
+    } catch (error) {
+      console.error("Error fetching client relationships:", error);
+      res.status(500).json({ message: "Failed to fetch client relationships" });
+    }
+  });
+
+  app.post('/api/clients/:id/relationships', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { type, relatedClientId, outgoing } = clientRelationshipSchema.parse(req.body);
+      const related = await storage.getClient(relatedClientId, user);
+      if (!related) {
+        return res.status(404).json({ message: "Related client not found" });
+      }
+      if (related.id === client.id) {
+        return res.status(400).json({ message: "A client can't be linked to itself" });
+      }
+
+      const fromClientId = outgoing ? client.id : related.id;
+      const toClientId = outgoing ? related.id : client.id;
+      const existing = await storage.getClientRelationships(client.id);
+      const duplicate = existing.some((link) => link.type === type && (
+        (link.fromClientId === fromClientId && link.toClientId === toClientId) ||
+        (type === 'household' && link.fromClientId === toClientId && link.toClientId === fromClientId)
+      ));
+      if (duplicate) {
+        return res.status(409).json({ message: "These clients are already linked this way" });
+      }
+
+      const relationship = await storage.createClientRelationship({ fromClientId, toClientId, type, createdBy: user.id });
+      res.status(201).json(relationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid relationship data", errors: error.errors });
+      }
+      console.error("Error creating client relationship:", error);
+      res.status(500).json({ message: "Failed to create client relationship" });
+    }
+  });
+
+  app.delete('/api/clients/:id/relationships/:relationshipId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const client = await storage.getClient(req.params.id, user);
+      const relationship = client && await storage.getClientRelationship(req.params.relationshipId);
+      if (!relationship || (relationship.fromClientId !== client.id && relationship.toClientId !== client.id)) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteClientRelationship(relationship.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting client relationship:", error);
+      res.status(500).json({ message: "Failed to delete client relationship" });
+    }
+  });
+
+  // Quote routes
+  app.get('/api/quotes', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const quotes = await storage.getQuotes(user);
+      res.json(quotes);
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.get('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      console.error("Error fetching quote:", error);
+      res.status(500).json({ message: "Failed to fetch quote" });
+    }
+  });
+
+  app.get('/api/quotes/:id/projections', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (quote.type !== 'investment_plan' || !quote.planInputs) {
+        return res.status(404).json({ message: "Quote has no investment plan projections" });
+      }
+
+      // Quotes saved before projections were stored are computed on the fly
+      const projections = quote.projections
+        ?? calculateProjections(planInputsSchema.parse(quote.planInputs));
+      res.json(projections);
+    } catch (error) {
+      console.error("Error fetching quote projections:", error);
+      res.status(500).json({ message: "Failed to fetch quote projections" });
+    }
+  });
+
+  app.get('/api/quotes/:id/pdf', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const client = await storage.getClient(quote.clientId, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const preparedBy = await storage.getUser(quote.createdBy);
+      const pdf = await generateQuotePdf(quote, client, preparedBy);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${quote.quoteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating quote PDF:", error);
+      res.status(500).json({ message: "Failed to generate quote PDF" });
+    }
+  });
+
+  // Generate the quote PDF and file it under the client's documents
+  app.post('/api/quotes/:id/pdf', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const client = await storage.getClient(quote.clientId, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const preparedBy = await storage.getUser(quote.createdBy);
+      const pdf = await generateQuotePdf(quote, client, preparedBy);
+
+      const filename = `quote-${Date.now()}-${Math.round(Math.random() * 1E9)}.pdf`;
+      const filePath = path.join(uploadDir, filename);
+      await fs.promises.writeFile(filePath, pdf);
+
+      const document = await storage.createDocument({
+        clientId: client.id,
+        filename,
+        originalName: `${quote.quoteNumber}.pdf`,
+        mimeType: 'application/pdf',
+        size: pdf.length,
+        path: filePath,
+        uploadedBy: user.id
+      });
+      res.status(201).json(document);
+    } catch (error) {
+      console.error("Error saving quote PDF:", error);
+      res.status(500).json({ message: "Failed to save quote PDF" });
+    }
+  });
+
+  app.post('/api/quotes', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const quoteData = insertQuoteSchema.parse({
+        ...req.body,
+        createdBy: recordOwnerId(user)
+      });
+
+      if (quoteData.type === 'investment_plan' && !quoteData.planInputs) {
+        return res.status(400).json({ message: "Investment plan quotes require plan inputs" });
+      }
+      const client = await storage.getClient(quoteData.clientId, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const quote = await storage.createQuote(applyPlanFigures(quoteData));
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      if (error instanceof QuoteTotalsError) {
+        return res.status(400).json({ message: error.message, errors: error.discrepancies });
+      }
+      if (error instanceof QuoteStatusError || error instanceof NumberSequenceConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating quote:", error);
+      res.status(500).json({ message: "Failed to create quote" });
+    }
+  });
+
+  app.put('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getQuote(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!can(user, 'update', { type: 'quote', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (isFinalQuoteStatus(existing.status)) {
+        return res.status(409).json({ message: `A ${existing.status} quote can no longer be changed` });
+      }
+
+      const quoteData = updateQuoteSchema.parse(req.body);
+      if (quoteData.clientId && quoteData.clientId !== existing.clientId) {
+        const client = await storage.getClient(quoteData.clientId, user);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        if (!can(user, 'update', { type: 'client', record: client })) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+      }
+
+      const quote = await storage.updateQuote(existing.id, applyPlanFigures(quoteData), user.id);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      if (error instanceof QuoteTotalsError) {
+        return res.status(400).json({ message: error.message, errors: error.discrepancies });
+      }
+      if (error instanceof QuoteStatusError || error instanceof QuoteLockedError || error instanceof NumberSequenceConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof KycIncompleteError) {
+        return res.status(409).json({ message: error.message, outstanding: error.outstanding });
+      }
+      console.error("Error updating quote:", error);
+      res.status(500).json({ message: "Failed to update quote" });
+    }
+  });
+
+  // Status actions: POST /api/quotes/:id/send, /accept, /reject, /expire, /withdraw, /reopen.
+  // Accepting and rejecting are approvals; the rest need edit access.
+  for (const [action, status] of Object.entries(quoteStatusActions)) {
+    const policyAction = action === 'accept' || action === 'reject' ? 'approve' : 'update';
+    app.post(`/api/quotes/:id/${action}`, isAuthenticated, async (req: any, res) => {
+      try {
+        const user = req.user;
+        const existing = await storage.getQuote(req.params.id, user);
+        if (!existing) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        if (!can(user, policyAction, { type: 'quote', record: existing })) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim() : undefined;
+        const quote = await storage.transitionQuoteStatus(existing.id, status, user.id, note);
+        res.json(quote);
+      } catch (error) {
+        if (error instanceof QuoteStatusError || error instanceof NumberSequenceConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        if (error instanceof KycIncompleteError) {
+          return res.status(409).json({ message: error.message, outstanding: error.outstanding });
+        }
+        console.error(`Error performing quote action ${action}:`, error);
+        res.status(500).json({ message: `Failed to ${action} quote` });
+      }
+    });
+  }
+
+  app.post('/api/quotes/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      let quote = await storage.getQuote(req.params.id, user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!can(user, 'update', { type: 'quote', record: quote })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Sharing a draft sends it
+      if (quote.status === 'draft') {
+        quote = await storage.transitionQuoteStatus(quote.id, 'sent', user.id, 'Shared with client');
+      }
+      if (quote.status !== 'sent') {
+        return res.status(409).json({ message: `A ${quote.status} quote cannot be shared` });
+      }
+
+      const days = Number.isInteger(req.body?.expiresInDays) && req.body.expiresInDays > 0
+        ? req.body.expiresInDays
+        : SHARE_LINK_DAYS;
+      let expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      if (quote.validUntil && quote.validUntil < expiresAt) {
+        expiresAt = quote.validUntil;
+      }
+
+      const token = generateToken();
+      await storage.createQuoteShareLink({
+        quoteId: quote.id,
+        tokenHash: sha256(token),
+        expiresAt,
+        createdBy: user.id
+      });
+
+      res.status(201).json({
+        url: `${req.protocol}://${req.get('host')}/proposal/${token}`,
+        expiresAt
+      });
+    } catch (error) {
+      if (error instanceof QuoteStatusError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error sharing quote:", error);
+      res.status(500).json({ message: "Failed to share quote" });
+    }
+  });
+
+  app.get('/api/quotes/:id/responses', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const responses = await storage.getQuoteResponses(quote.id);
+      res.json(responses);
+    } catch (error) {
+      console.error("Error fetching quote responses:", error);
+      res.status(500).json({ message: "Failed to fetch quote responses" });
+    }
+  });
+
+  app.get('/api/quotes/:id/status-history', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const history = await storage.getQuoteStatusHistory(quote.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching quote status history:", error);
+      res.status(500).json({ message: "Failed to fetch quote status history" });
+    }
+  });
+
+  app.get('/api/quotes/:id/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id, req.user);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const revisions = await storage.getQuoteRevisions(quote.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching quote revisions:", error);
+      res.status(500).json({ message: "Failed to fetch quote revisions" });
+    }
+  });
+
+  app.post('/api/quotes/:id/revisions/:revision/restore', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getQuote(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!can(user, 'update', { type: 'quote', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const revision = parseInt(req.params.revision);
+      const quoteRevision = await storage.getQuoteRevision(existing.id, revision);
+      if (!quoteRevision) {
+        return res.status(404).json({ message: "Quote revision not found" });
+      }
+
+      const quote = await storage.restoreQuoteRevision(req.params.id, revision, user.id);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof QuoteTotalsError) {
+        return res.status(400).json({ message: error.message, errors: error.discrepancies });
+      }
+      console.error("Error restoring quote revision:", error);
+      res.status(500).json({ message: "Failed to restore quote revision" });
+    }
+  });
+
+  app.post('/api/quotes/:id/revisions/:revision/clone', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getQuote(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const client = await storage.getClient(existing.clientId);
+      if (!client || !can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const revision = parseInt(req.params.revision);
+      const quoteRevision = await storage.getQuoteRevision(existing.id, revision);
+      if (!quoteRevision) {
+        return res.status(404).json({ message: "Quote revision not found" });
+      }
+
+      const quote = await storage.cloneQuoteRevision(req.params.id, revision, recordOwnerId(user));
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error("Error cloning quote revision:", error);
+      res.status(500).json({ message: "Failed to clone quote revision" });
+    }
+  });
+
+  app.delete('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const existing = await storage.getQuote(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (!can(user, 'delete', { type: 'quote', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteQuote(existing.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting quote:", error);
+      res.status(500).json({ message: "Failed to delete quote" });
+    }
+  });
+
+  // Public proposal routes. No login: the share token is the credential.
+  app.get('/api/public/proposals/:token', async (req, res) => {
+    try {
+      const link = await findShareLink(req.params.token);
+      const quote = link && await storage.getQuote(link.quoteId);
+      if (!link || !quote) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      const client = await storage.getClient(quote.clientId);
+      const preparedBy = await storage.getUser(quote.createdBy);
+
+      res.json({
+        quoteNumber: quote.quoteNumber,
+        revision: quote.revision,
+        title: quote.title,
+        description: quote.description,
+        type: quote.type,
+        items: quote.items,
+        planInputs: quote.planInputs,
+        subtotal: quote.subtotal,
+        tax: quote.tax,
+        taxRate: quote.taxRate,
+        total: quote.total,
+        status: quote.status,
+        validUntil: quote.validUntil,
+        clientName: client?.name ?? null,
+        preparedBy: preparedBy ? `${preparedBy.firstName} ${preparedBy.lastName}` : null,
+        linkExpiresAt: link.expiresAt
+      });
+    } catch (error) {
+      console.error("Error fetching proposal:", error);
+      res.status(500).json({ message: "Failed to fetch proposal" });
+    }
+  });
+
+  app.get('/api/public/proposals/:token/pdf', async (req, res) => {
+    try {
+      const link = await findShareLink(req.params.token);
+      const quote = link && await storage.getQuote(link.quoteId);
+      const client = quote && await storage.getClient(quote.clientId);
+      if (!link || !quote || !client) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const preparedBy = await storage.getUser(quote.createdBy);
+      const pdf = await generateQuotePdf(quote, client, preparedBy);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${quote.quoteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating proposal PDF:", error);
+      res.status(500).json({ message: "Failed to generate proposal PDF" });
+    }
+  });
+
+  app.post('/api/public/proposals/:token/respond', async (req, res) => {
+    try {
+      const link = await findShareLink(req.params.token);
+      const quote = link && await storage.getQuote(link.quoteId);
+      const client = quote && await storage.getClient(quote.clientId);
+      if (!link || !quote || !client) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      if (quote.status !== 'sent') {
+        return res.status(409).json({ message: "This quote is no longer open for a response" });
+      }
+
+      const response = quoteResponseSchema.parse(req.body);
+      const decision = response.decision === 'accept' ? 'accepted' : 'declined';
+      if (decision === 'accepted' && !isKycComplete(await storage.getKycItems(client.id))) {
+        return res.status(409).json({ message: ficaOutstandingMessage });
+      }
+
+      // The exact proposal the client responded to; its hash is the evidence.
+      // It's rendered from the revision they were shown, before the status changes.
+      const preparedBy = await storage.getUser(quote.createdBy);
+      const pdf = await generateQuotePdf(quote, client, preparedBy);
+
+      const quoteResponse = await storage.recordQuoteResponse({
+        quoteId: quote.id,
+        shareLinkId: link.id,
+        decision,
+        signatoryName: response.signatoryName,
+        signatoryIdNumber: response.signatoryIdNumber,
+        conditionsAccepted: response.conditionsAccepted.every(Boolean),
+        reason: response.reason || null,
+        quoteRevision: quote.revision,
+        pdfHash: sha256(pdf),
+        documentId: null,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null
+      });
+
+      // Only stored once the response is on record, so a rejected response
+      // leaves no file behind. The hash above still proves the PDF if this fails.
+      try {
+        const filename = `proposal-${Date.now()}-${Math.round(Math.random() * 1E9)}.pdf`;
+        const filePath = path.join(uploadDir, filename);
+        await fs.promises.writeFile(filePath, pdf);
+        const document = await storage.createDocument({
+          clientId: client.id,
+          filename,
+          originalName: `${quote.quoteNumber} rev ${quote.revision} (${decision} online).pdf`,
+          mimeType: 'application/pdf',
+          size: pdf.length,
+          path: filePath,
+          uploadedBy: quote.createdBy
+        });
+        await storage.setQuoteResponseDocument(quoteResponse.id, document.id);
+      } catch (error) {
+        console.error("Error storing proposal evidence:", error);
+      }
+
+      await storage.createNotification({
+        userId: quote.createdBy,
+        type: `quote_${decision}`,
+        title: `Quote ${quote.quoteNumber} was ${decision} by the client`,
+        message: `${response.signatoryName} ${decision} "${quote.title}" online.`,
+        link: `/quotes/${quote.id}`
+      });
+
+      res.status(201).json({ decision: quoteResponse.decision, respondedAt: quoteResponse.createdAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid response", errors: error.errors });
+      }
+      if (error instanceof QuoteStatusError) {
+        return res.status(409).json({ message: "This quote is no longer open for a response" });
+      }
+      if (error instanceof KycIncompleteError) {
+        return res.status(409).json({ message: ficaOutstandingMessage });
+      }
+      console.error("Error recording proposal response:", error);
+      res.status(500).json({ message: "Failed to record response" });
+    }
+  });
+
+  // Tax rate routes
+  app.get('/api/tax-rates/current', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const taxRate = await storage.getEffectiveTaxRate(user.organisationId, new Date());
+      res.json(taxRate ?? null);
+    } catch (error) {
+      console.error("Error fetching current tax rate:", error);
+      res.status(500).json({ message: "Failed to fetch current tax rate" });
+    }
+  });
+
+  app.get('/api/tax-rates', isAuthenticated, requirePermission('settings.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      const taxRates = await storage.getTaxRates(user.organisationId);
+      res.json(taxRates);
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      res.status(500).json({ message: "Failed to fetch tax rates" });
+    }
+  });
+
+  app.post('/api/tax-rates', isAuthenticated, requirePermission('settings.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      const taxRateData = insertTaxRateSchema.parse({
+        ...req.body,
+        organisationId: user.organisationId,
+        createdBy: user.id
+      });
+
+      const taxRate = await storage.createTaxRate(taxRateData);
+      res.status(201).json(taxRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate data", errors: error.errors });
+      }
+      console.error("Error creating tax rate:", error);
+      res.status(500).json({ message: "Failed to create tax rate" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const notifications = await storage.getNotifications(req.user.id);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markNotificationRead(req.params.id, req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // Number sequence routes (quote and agreement numbering)
+  app.get('/api/number-sequences', isAuthenticated, requirePermission('settings.manage'), async (req: any, res) => {
     try {
       const user = req.user;
-      const isAdmin = user?.role === 'admin';
-      
-      const stats = await storage.getDashboardStats(user.id, isAdmin);
-      res.json(stats);
+
+      const sequences = await storage.getNumberSequences(user.organisationId);
+      res.json(sequences);
     } catch (error) {
-      console.error("Error fetching dashboard stats:", error);
-      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+      console.error("Error fetching number sequences:", error);
+      res.status(500).json({ message: "Failed to fetch number sequences" });
     }
   });
 
-  // Client routes
-  app.get('/api/clients', isAuthenticated, async (req: any, res) => {
+  app.put('/api/number-sequences/:key', isAuthenticated, requirePermission('settings.manage'), async (req: any, res) => {
     try {
       const user = req.user;
-      const isAdmin = user.role === 'admin';
-      const { search } = req.query;
+      if (!/^(quote(:[a-z_]+)?|agreement)$/.test(req.params.key)) {
+        return res.status(400).json({ message: "Unknown number sequence" });
+      }
 
-      let clients;
-      if (search) {
-        clients = await storage.searchClients(search as string, user.id, isAdmin);
-      } else {
-        clients = await storage.getClients(user.id, isAdmin);
+      const settings = numberSequenceSettingsSchema.parse(req.body);
+      const sequence = await storage.upsertNumberSequence(user.organisationId, req.params.key, settings);
+      res.json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid number sequence data", errors: error.errors });
       }
+      console.error("Error updating number sequence:", error);
+      res.status(500).json({ message: "Failed to update number sequence" });
+    }
+  });
 
-      res.json(clients);
+  // Access administration: roles, branches and who holds which role
+  app.get('/api/admin/roles', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const roles = await storage.getRoles();
+      res.json(roles);
     } catch (error) {
-      console.error("Error fetching clients:", error);
-      res.status(500).json({ message: "Failed to fetch clients" });
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ message: "Failed to fetch roles" });
     }
   });
 
-  app.get('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/roles/:key/permissions', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const client = await storage.getClient(req.params.id);
-      if (!client) {
-        return res.status(404).json({ message: "Client not found" });
+      if (!isPlatformAdmin(req.user)) {
+        return res.status(403).json({ message: "Only a platform admin can change role permissions" });
       }
-      res.json(client);
+      if (req.params.key === ADMIN_ROLE) {
+        return res.status(400).json({ message: "The admin role always has every permission" });
+      }
+      const roles = await storage.getRoles();
+      if (!roles.some((role) => role.key === req.params.key)) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      const { permissions } = rolePermissionsSchema.parse(req.body);
+
+      await storage.setRolePermissions(req.params.key, permissions);
+      res.json({ key: req.params.key, permissions });
     } catch (error) {
-      console.error("Error fetching client:", error);
-      res.status(500).json({ message: "Failed to fetch client" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role data", errors: error.errors });
+      }
+      console.error("Error updating role permissions:", error);
+      res.status(500).json({ message: "Failed to update role permissions" });
     }
   });
 
-  app.post('/api/clients', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/branches', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const user = req.user;
-      const clientData = insertClientSchema.parse({
+      const branches = await storage.getBranches(req.user.organisationId);
+      res.json(branches);
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+      res.status(500).json({ message: "Failed to fetch branches" });
+    }
+  });
+
+  app.post('/api/admin/branches', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const branchData = insertBranchSchema.parse({
         ...req.body,
-        createdBy: user.id
+        organisationId: req.user.organisationId
       });
-      
-      const client = await storage.createClient(clientData);
-      res.status(201).json(client);
+
+      const branch = await storage.createBranch(branchData);
+      res.status(201).json(branch);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid branch data", errors: error.errors });
       }
-      console.error("Error creating client:", error);
-      res.status(500).json({ message: "Failed to create client" });
+      console.error("Error creating branch:", error);
+      res.status(500).json({ message: "Failed to create branch" });
     }
   });
 
-  app.put('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/users', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const clientData = insertClientSchema.partial().parse(req.body);
-      const client = await storage.updateClient(req.params.id, clientData);
-      res.json(client);
+      const users = await storage.getUsers(req.user.organisationId);
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post('/api/admin/users', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const { password, ...userData } = createUserSchema.parse(req.body);
+      const problems = passwordProblems(password, personalPasswordTerms(userData));
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems[0] });
+      }
+
+      const roles = await storage.getRoles();
+      if (!roles.some((role) => role.key === userData.role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      if (!(await canAssignRole(user, userData.role))) {
+        return res.status(403).json({ message: roleNotAssignableMessage });
+      }
+      if ((await storage.searchUsers(userData.email)).length > 0) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+
+      const created = await storage.upsertUser({
+        ...userData,
+        id: nanoid(),
+        passwordHash: await hashPassword(password),
+        organisationId: user.organisationId,
+        // Accounts an admin sets up don't need to confirm their address
+        emailVerifiedAt: new Date(),
+      });
+      res.status(201).json(toUserSummary(created));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
       }
-      console.error("Error updating client:", error);
-      res.status(500).json({ message: "Failed to update client" });
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
     }
   });
 
-  app.delete('/api/clients/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/users/:id', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      await storage.deleteClient(req.params.id);
+      const target = await findOrganisationUser(req.params.id, req.user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageUser(req.user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const profile = userProfileSchema.parse(req.body);
+      const sameEmail = await storage.searchUsers(profile.email);
+      if (sameEmail.some((other) => other.id !== target.id)) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+
+      const updated = await storage.updateUser(target.id, profile);
+      res.json(toUserSummary(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/password', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const target = await findOrganisationUser(req.params.id, user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageUser(user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const { password } = setPasswordSchema.parse(req.body);
+      const problems = passwordProblems(password, personalPasswordTerms(target));
+      if (problems.length > 0) {
+        return res.status(400).json({ message: problems[0] });
+      }
+
+      await storage.updateUser(target.id, {
+        passwordHash: await hashPassword(password),
+        failedLoginCount: 0,
+        lockedUntil: null,
+      });
+      // Anyone signed in with the old password has to sign in again, except
+      // the admin making the change to their own account
+      await destroyUserSessions(target.id, target.id === user.id ? req : undefined);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting client:", error);
-      res.status(500).json({ message: "Failed to delete client" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password", errors: error.errors });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
     }
   });
 
-  // Quote routes
-  app.get('/api/quotes', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/users/:id/deactivate', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
       const user = req.user;
-      const isAdmin = user.role === 'admin';
-      
-      const quotes = await storage.getQuotes(user.id, isAdmin);
-      res.json(quotes);
+      const target = await findOrganisationUser(req.params.id, user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.id === user.id) {
+        return res.status(400).json({ message: "You cannot disable your own account" });
+      }
+      if (!(await canManageUser(user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const updated = await storage.updateUser(target.id, { isActive: false, deactivatedAt: new Date() });
+      await destroyUserSessions(target.id);
+      res.json(toUserSummary(updated));
     } catch (error) {
-      console.error("Error fetching quotes:", error);
-      res.status(500).json({ message: "Failed to fetch quotes" });
+      console.error("Error disabling user:", error);
+      res.status(500).json({ message: "Failed to disable user" });
     }
   });
 
-  app.get('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/users/:id/activate', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const quote = await storage.getQuote(req.params.id);
-      if (!quote) {
-        return res.status(404).json({ message: "Quote not found" });
+      const target = await findOrganisationUser(req.params.id, req.user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(quote);
+      if (!(await canManageUser(req.user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const updated = await storage.updateUser(target.id, { isActive: true, deactivatedAt: null });
+      res.json(toUserSummary(updated));
     } catch (error) {
-      console.error("Error fetching quote:", error);
-      res.status(500).json({ message: "Failed to fetch quote" });
+      console.error("Error enabling user:", error);
+      res.status(500).json({ message: "Failed to enable user" });
     }
   });
 
-  app.post('/api/quotes', isAuthenticated, async (req: any, res) => {
+  // Lifts a lockout from too many failed sign-ins
+  app.post('/api/admin/users/:id/unlock', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const target = await findOrganisationUser(req.params.id, req.user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageUser(req.user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const updated = await storage.updateUser(target.id, { failedLoginCount: 0, lockedUntil: null });
+      res.json(toUserSummary(updated));
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  app.get('/api/admin/users/:id/login-attempts', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const target = await findOrganisationUser(req.params.id, req.user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await storage.getLoginAttempts(target.id, LOGIN_HISTORY_LIMIT));
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+      res.status(500).json({ message: "Failed to fetch login attempts" });
+    }
+  });
+
+  // For a user who has lost their authenticator app and recovery codes. They
+  // set it up again at their next sign-in if the organisation requires it.
+  app.post('/api/admin/users/:id/reset-two-factor', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const target = await findOrganisationUser(req.params.id, req.user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageUser(req.user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      await storage.disableTwoFactor(target.id);
+      const updated = await storage.getUser(target.id);
+      res.json(toUserSummary(updated!));
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/reassign', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
       const user = req.user;
-      const quoteData = insertQuoteSchema.parse({
-        ...req.body,
+      const target = await findOrganisationUser(req.params.id, user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { toUserId } = reassignRecordsSchema.parse(req.body);
+      const successor = await findOrganisationUser(toUserId, user.organisationId);
+      if (!successor || !successor.isActive || successor.id === target.id) {
+        return res.status(400).json({ message: "Records can only be reassigned to another active user" });
+      }
+      if (!(await canManageUser(user, target)) || !(await canManageUser(user, successor))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const moved = await storage.reassignUserRecords(target.id, successor.id);
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reassignment data", errors: error.errors });
+      }
+      console.error("Error reassigning records:", error);
+      res.status(500).json({ message: "Failed to reassign records" });
+    }
+  });
+
+  app.put('/api/admin/users/:id/access', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const target = await findOrganisationUser(req.params.id, user.organisationId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await canManageUser(user, target))) {
+        return res.status(403).json({ message: userNotManageableMessage });
+      }
+
+      const access = userAccessSchema.parse(req.body);
+      const roles = await storage.getRoles();
+      if (!roles.some((role) => role.key === access.role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      if (!(await canAssignRole(user, access.role))) {
+        return res.status(403).json({ message: roleNotAssignableMessage });
+      }
+      // Stop admins from locking themselves out
+      if (target.id === user.id && user.role === ADMIN_ROLE && access.role !== ADMIN_ROLE) {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      if (access.branchId) {
+        const branch = await storage.getBranch(access.branchId);
+        if (!branch || branch.organisationId !== user.organisationId) {
+          return res.status(400).json({ message: "Unknown branch" });
+        }
+      }
+      if (access.actsForUserId) {
+        const principal = await findOrganisationUser(access.actsForUserId, user.organisationId);
+        if (!principal || principal.id === target.id) {
+          return res.status(400).json({ message: "Unknown consultant" });
+        }
+      }
+
+      const updated = await storage.updateUser(target.id, access);
+      res.json(toUserSummary(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user access data", errors: error.errors });
+      }
+      console.error("Error updating user access:", error);
+      res.status(500).json({ message: "Failed to update user access" });
+    }
+  });
+
+  // Registration invitations
+  app.get('/api/admin/invites', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const invites = await storage.getPendingUserInvites(req.user.organisationId);
+      res.json(invites.map(({ tokenHash, ...invite }) => invite));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post('/api/admin/invites', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const inviteData = userInviteSchema.parse(req.body);
+
+      const roles = await storage.getRoles();
+      if (!roles.some((role) => role.key === inviteData.role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      if (!(await canAssignRole(user, inviteData.role))) {
+        return res.status(403).json({ message: roleNotAssignableMessage });
+      }
+      if ((await storage.searchUsers(inviteData.email)).length > 0) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+
+      // The token is only returned here; the admin passes the link on
+      const token = generateToken();
+      const { tokenHash, ...invite } = await storage.createUserInvite({
+        ...inviteData,
+        organisationId: user.organisationId,
+        tokenHash: sha256(token),
+        expiresAt: new Date(Date.now() + INVITE_LINK_DAYS * 24 * 60 * 60 * 1000),
         createdBy: user.id
       });
-      
-      const quote = await storage.createQuote(quoteData);
-      res.status(201).json(quote);
+
+      res.status(201).json({
+        ...invite,
+        url: `${req.protocol}://${req.get('host')}/register?invite=${token}`
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid invitation data", errors: error.errors });
       }
-      console.error("Error creating quote:", error);
-      res.status(500).json({ message: "Failed to create quote" });
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
     }
   });
 
-  app.put('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/admin/invites/:id', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const quoteData = insertQuoteSchema.partial().parse(req.body);
-      const quote = await storage.updateQuote(req.params.id, quoteData);
-      res.json(quote);
+      const invite = await storage.getUserInvite(req.params.id);
+      if (!invite || invite.organisationId !== req.user.organisationId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invite.acceptedAt) {
+        return res.status(409).json({ message: "This invitation has already been used" });
+      }
+
+      await storage.deleteUserInvite(invite.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Email domains allowed to register without an invitation
+  app.get('/api/admin/signup-domains', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const domains = await storage.getSignupDomains(req.user.organisationId);
+      res.json(domains);
+    } catch (error) {
+      console.error("Error fetching sign-up domains:", error);
+      res.status(500).json({ message: "Failed to fetch sign-up domains" });
+    }
+  });
+
+  app.post('/api/admin/signup-domains', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const { domain } = signupDomainSchema.parse(req.body);
+      if (await storage.getSignupDomain(domain)) {
+        return res.status(400).json({ message: "This domain is already allowed" });
+      }
+
+      const signupDomain = await storage.addSignupDomain({
+        domain,
+        organisationId: user.organisationId,
+        createdBy: user.id
+      });
+      res.status(201).json(signupDomain);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid sign-up domain", errors: error.errors });
       }
-      console.error("Error updating quote:", error);
-      res.status(500).json({ message: "Failed to update quote" });
+      console.error("Error adding sign-up domain:", error);
+      res.status(500).json({ message: "Failed to add sign-up domain" });
     }
   });
 
-  app.delete('/api/quotes/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/admin/signup-domains/:domain', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
     try {
-      await storage.deleteQuote(req.params.id);
+      await storage.removeSignupDomain(req.params.domain, req.user.organisationId);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting quote:", error);
-      res.status(500).json({ message: "Failed to delete quote" });
+      console.error("Error removing sign-up domain:", error);
+      res.status(500).json({ message: "Failed to remove sign-up domain" });
+    }
+  });
+
+  // Organisation-wide sign-in rules
+  app.get('/api/admin/security-policy', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const organisation = await storage.getOrganisation(req.user.organisationId);
+      res.json({ requireTwoFactor: !!organisation?.requireTwoFactor });
+    } catch (error) {
+      console.error("Error fetching security policy:", error);
+      res.status(500).json({ message: "Failed to fetch security policy" });
+    }
+  });
+
+  app.put('/api/admin/security-policy', isAuthenticated, requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const policy = securityPolicySchema.parse(req.body);
+      const organisation = await storage.updateOrganisation(req.user.organisationId, policy);
+      res.json({ requireTwoFactor: organisation.requireTwoFactor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid security policy", errors: error.errors });
+      }
+      console.error("Error updating security policy:", error);
+      res.status(500).json({ message: "Failed to update security policy" });
     }
   });
 
@@ -198,9 +1823,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/meetings', isAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      const isAdmin = user.role === 'admin';
-      
-      const meetings = await storage.getMeetings(user.id, isAdmin);
+      const meetings = await storage.getMeetings(user);
       res.json(meetings);
     } catch (error) {
       console.error("Error fetching meetings:", error);
@@ -210,7 +1833,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/meetings/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const meeting = await storage.getMeeting(req.params.id);
+      const meeting = await storage.getMeeting(req.params.id, req.user);
       if (!meeting) {
         return res.status(404).json({ message: "Meeting not found" });
       }
@@ -226,8 +1849,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user;
       const meetingData = insertMeetingSchema.parse({
         ...req.body,
-        createdBy: user.id
+        createdBy: recordOwnerId(user)
       });
+      const client = await storage.getClient(meetingData.clientId, user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
       
       const meeting = await storage.createMeeting(meetingData);
       res.status(201).json(meeting);
@@ -242,8 +1872,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/meetings/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const meetingData = insertMeetingSchema.partial().parse(req.body);
-      const meeting = await storage.updateMeeting(req.params.id, meetingData);
+      const user = req.user;
+      const existing = await storage.getMeeting(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!can(user, 'update', { type: 'meeting', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const meetingData = updateMeetingSchema.parse(req.body);
+      if (meetingData.clientId && meetingData.clientId !== existing.clientId) {
+        const client = await storage.getClient(meetingData.clientId, user);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        if (!can(user, 'update', { type: 'client', record: client })) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+      }
+
+      const meeting = await storage.updateMeeting(existing.id, meetingData);
       res.json(meeting);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -256,7 +1905,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/meetings/:id', isAuthenticated, async (req: any, res) => {
     try {
-      await storage.deleteMeeting(req.params.id);
+      const user = req.user;
+      const existing = await storage.getMeeting(req.params.id, user);
+      if (!existing) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!can(user, 'delete', { type: 'meeting', record: existing })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteMeeting(existing.id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting meeting:", error);
@@ -267,7 +1925,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Document routes
   app.get('/api/documents/:clientId', isAuthenticated, async (req: any, res) => {
     try {
-      const documents = await storage.getDocuments(req.params.clientId);
+      const client = await storage.getClient(req.params.clientId, req.user);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const documents = await storage.getDocuments(client.id, req.user);
       res.json(documents);
     } catch (error) {
       console.error("Error fetching documents:", error);
@@ -282,6 +1945,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = req.user;
+      const client = await storage.getClient(req.params.clientId, user);
+      if (!client) {
+        await fs.promises.unlink(req.file.path);
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!can(user, 'update', { type: 'client', record: client })) {
+        await fs.promises.unlink(req.file.path);
+        return res.status(403).json({ message: "Forbidden" });
+      }
       const documentData = {
         clientId: req.params.clientId,
         filename: req.file.filename,
@@ -302,8 +1974,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/documents/:clientId/:documentId/download', isAuthenticated, async (req: any, res) => {
     try {
-      const document = await storage.getDocument(req.params.documentId);
-      if (!document) {
+      const document = await storage.getDocument(req.params.documentId, req.user);
+      if (!document || document.clientId !== req.params.clientId) {
         return res.status(404).json({ message: "Document not found" });
       }
 
@@ -320,12 +1992,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/documents/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const document = await storage.getDocument(req.params.id);
-      if (document && fs.existsSync(document.path)) {
+      const user = req.user;
+      const document = await storage.getDocument(req.params.id, user);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const client = await storage.getClient(document.clientId);
+      if (!can(user, 'delete', { type: 'document', record: document, client })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (fs.existsSync(document.path)) {
         fs.unlinkSync(document.path);
       }
       
-      await storage.deleteDocument(req.params.id);
+      await storage.deleteDocument(document.id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting document:", error);
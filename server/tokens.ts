@@ -0,0 +1,11 @@
+import crypto from "crypto";
+
+// Tokens handed out in links (share links, invitations) are random, and only
+// their SHA-256 is stored so a database leak doesn't expose working links.
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,158 @@
+// Client types and the rules for their type-specific details, shared so the
+// client form shows the same problems the server rejects.
+
+export const clientTypes = ["individual", "company", "trust"] as const;
+export type ClientType = typeof clientTypes[number];
+
+export const clientTypeLabels: Record<ClientType, string> = {
+  individual: "Individual",
+  company: "Company",
+  trust: "Trust",
+};
+
+// People who act for or benefit from a company or trust
+export const relatedPersonRoles = ["director", "shareholder", "member", "trustee", "beneficiary", "signatory"] as const;
+export type RelatedPersonRole = typeof relatedPersonRoles[number];
+
+export interface RelatedPerson {
+  name: string;
+  role: RelatedPersonRole;
+  idNumber?: string | null;
+}
+
+export const bankAccountTypes = ["cheque", "savings", "transmission"] as const;
+export type BankAccountType = typeof bankAccountTypes[number];
+
+export interface SaIdNumberDetails {
+  dateOfBirth: string; // YYYY-MM-DD
+  gender: "female" | "male";
+  citizen: boolean;
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Reads a South African ID number (YYMMDD SSSS C A Z), or returns null if it
+// isn't one. The century is the latest that doesn't put the birth date in the future.
+export function parseSaIdNumber(value: string, today = new Date()): SaIdNumberDetails | null {
+  const idNumber = value.replace(/\s/g, "");
+  if (!/^\d{13}$/.test(idNumber) || !luhnValid(idNumber)) {
+    return null;
+  }
+
+  const citizenship = idNumber[10];
+  if (citizenship !== "0" && citizenship !== "1" && citizenship !== "2") {
+    return null;
+  }
+
+  const yy = Number(idNumber.slice(0, 2));
+  const month = Number(idNumber.slice(2, 4));
+  const day = Number(idNumber.slice(4, 6));
+  let year = 2000 + yy;
+  if (new Date(Date.UTC(year, month - 1, day)) > today) {
+    year -= 100;
+  }
+  const birthDate = new Date(Date.UTC(year, month - 1, day));
+  if (birthDate.getUTCMonth() !== month - 1 || birthDate.getUTCDate() !== day) {
+    return null;
+  }
+
+  return {
+    dateOfBirth: birthDate.toISOString().slice(0, 10),
+    gender: Number(idNumber.slice(6, 10)) < 5000 ? "female" : "male",
+    citizen: citizenship === "0",
+  };
+}
+
+export interface ClientProfileFields {
+  clientType?: string | null;
+  idNumber?: string | null;
+  passportNumber?: string | null;
+  dateOfBirth?: string | null;
+  registrationNumber?: string | null;
+  relatedPersons?: RelatedPerson[] | null;
+}
+
+export interface ClientProfileProblem {
+  path: string[];
+  message: string;
+}
+
+// Checks the details that depend on each other or on the client type. Run it
+// on the whole record, since an update may change only one side of a pair.
+export function clientProfileProblems(client: ClientProfileFields): ClientProfileProblem[] {
+  const problems: ClientProfileProblem[] = [];
+  const type = (client.clientType ?? "individual") as ClientType;
+
+  if (type === "individual") {
+    if (client.registrationNumber) {
+      problems.push({ path: ["registrationNumber"], message: "Only companies and trusts have a registration number" });
+    }
+    if (client.relatedPersons?.length) {
+      problems.push({ path: ["relatedPersons"], message: "Only companies and trusts have related persons" });
+    }
+    if (client.idNumber) {
+      const details = parseSaIdNumber(client.idNumber);
+      if (!details) {
+        problems.push({ path: ["idNumber"], message: "This isn't a valid South African ID number" });
+      } else if (client.dateOfBirth && client.dateOfBirth !== details.dateOfBirth) {
+        problems.push({ path: ["dateOfBirth"], message: "The date of birth doesn't match the ID number" });
+      }
+    }
+  } else {
+    for (const field of ["idNumber", "passportNumber", "dateOfBirth"] as const) {
+      if (client[field]) {
+        problems.push({ path: [field], message: "Only individuals have an ID number, passport or date of birth" });
+      }
+    }
+    if (type === "company" && client.registrationNumber && !/^\d{4}\/\d{6}\/\d{2}$/.test(client.registrationNumber)) {
+      problems.push({ path: ["registrationNumber"], message: "Company registration numbers look like 2015/123456/07" });
+    }
+  }
+
+  client.relatedPersons?.forEach((person, index) => {
+    if (person.idNumber && !parseSaIdNumber(person.idNumber)) {
+      problems.push({ path: ["relatedPersons", String(index), "idNumber"], message: "This isn't a valid South African ID number" });
+    }
+  });
+
+  return problems;
+}
+
+// People connected to a client who aren't clients themselves
+export const contactRoles = ["spouse", "beneficiary", "director", "accountant", "attorney", "other"] as const;
+export type ContactRole = typeof contactRoles[number];
+
+export const contactRoleLabels: Record<ContactRole, string> = {
+  spouse: "Spouse or partner",
+  beneficiary: "Beneficiary",
+  director: "Company director",
+  accountant: "Accountant",
+  attorney: "Attorney",
+  other: "Other",
+};
+
+// Links between two clients. A household link works both ways; the others
+// read from the first client to the second, e.g. "Jane is trustee of the Smith Trust".
+export const relationshipTypes = ["household", "shareholder_of", "director_of", "trustee_of", "beneficiary_of"] as const;
+export type RelationshipType = typeof relationshipTypes[number];
+
+export const relationshipLabels: Record<RelationshipType, { outgoing: string; incoming: string }> = {
+  household: { outgoing: "Same household as", incoming: "Same household as" },
+  shareholder_of: { outgoing: "Shareholder of", incoming: "Has shareholder" },
+  director_of: { outgoing: "Director of", incoming: "Has director" },
+  trustee_of: { outgoing: "Trustee of", incoming: "Has trustee" },
+  beneficiary_of: { outgoing: "Beneficiary of", incoming: "Has beneficiary" },
+};
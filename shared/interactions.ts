@@ -0,0 +1,12 @@
+// Conversations with a client, logged as they happen so the history is kept
+// and each entry is attributed to the user who wrote it.
+
+export const interactionTypes = ["call", "email", "whatsapp", "walk_in"] as const;
+export type InteractionType = typeof interactionTypes[number];
+
+export const interactionTypeLabels: Record<InteractionType, string> = {
+  call: "Phone call",
+  email: "Email",
+  whatsapp: "WhatsApp",
+  walk_in: "Walk-in",
+};
@@ -0,0 +1,198 @@
+import type { PlanInputs, QuoteLineItem } from "./schema";
+import { roundCurrency } from "./money";
+
+// Investment plan calculation engine.
+//
+// Mirrors the "Quotation Template Commuted3YrWFnds" spreadsheet so consultants
+// get the same figures in-app as they did in Excel. This module must stay pure
+// (no I/O, no Date.now()) because the quote form preview and the /api/quotes
+// handlers both run it and must agree to the cent.
+
+// Fee and commission schedule from the quotation template. Rates are fractions.
+export const PLAN_FEES = {
+  placementFeeRate: 0.01, // once off
+  adminFeeRateFirstFiveYears: 0.005, // per annum
+  adminFeeRateAfterFiveYears: 0.003, // per annum
+  commissionRateFirstYear: 0.01,
+  commissionRateTrailing: 0.005, // per annum from year 2
+} as const;
+
+// Yearly dividend allocations used by the template for years 1 to 5.
+export const DEFAULT_DIVIDEND_PERCENTS = [13.75, 13.8, 13.9, 14, 14.1] as const;
+
+// Rate of return scenarios used by the template.
+export const DEFAULT_SCENARIO_PERCENTS = [9, 15, 20] as const;
+
+export interface PlanFeeYear {
+  year: number;
+  adminFeeRate: number;
+  adminFee: number;
+  commissionRate: number;
+  commission: number;
+}
+
+export interface PlanCalculation {
+  investmentAmount: number;
+  boosterAmount: number;
+  allocatedAmount: number;
+  sharesPurchased: number;
+  termYears: number;
+  commencementDate: string;
+  redemptionDate: string;
+  firstYearDividendRate: number;
+  firstYearIncome: number;
+  placementFee: number;
+  fees: PlanFeeYear[];
+  totalAdminFees: number;
+  totalCommission: number;
+}
+
+// Dividend allocation for a plan year (1-based). Years beyond the entered
+// rates carry the last rate forward, as the template only lists five years.
+export function dividendRateForYear(inputs: PlanInputs, year: number): number {
+  const rates = inputs.dividendPercents;
+  const percent = rates[Math.min(year, rates.length) - 1] ?? 0;
+  return percent / 100;
+}
+
+// Redemption falls the day before the term anniversary, e.g. a 3 year plan
+// commencing 2025-09-01 redeems on 2028-08-31.
+export function calculateRedemptionDate(commencementDate: string, termYears: number): string {
+  const [year, month, day] = commencementDate.split("-").map(Number);
+  const redemption = new Date(Date.UTC(year + termYears, month - 1, day - 1));
+  return redemption.toISOString().split("T")[0];
+}
+
+export function calculatePlan(inputs: PlanInputs): PlanCalculation {
+  const investmentAmount = roundCurrency(inputs.investmentAmount);
+  const boosterAmount = roundCurrency(investmentAmount * (inputs.boosterPercent / 100));
+  const allocatedAmount = roundCurrency(investmentAmount + boosterAmount);
+  const sharesPurchased = Math.floor(investmentAmount / inputs.sharePrice);
+  const firstYearDividendRate = dividendRateForYear(inputs, 1);
+
+  const fees: PlanFeeYear[] = [];
+  for (let year = 1; year <= inputs.termYears; year++) {
+    const adminFeeRate = year <= 5
+      ? PLAN_FEES.adminFeeRateFirstFiveYears
+      : PLAN_FEES.adminFeeRateAfterFiveYears;
+    const commissionRate = year === 1
+      ? PLAN_FEES.commissionRateFirstYear
+      : PLAN_FEES.commissionRateTrailing;
+
+    fees.push({
+      year,
+      adminFeeRate,
+      adminFee: roundCurrency(investmentAmount * adminFeeRate),
+      commissionRate,
+      commission: roundCurrency(investmentAmount * commissionRate),
+    });
+  }
+
+  return {
+    investmentAmount,
+    boosterAmount,
+    allocatedAmount,
+    sharesPurchased,
+    termYears: inputs.termYears,
+    commencementDate: inputs.commencementDate,
+    redemptionDate: calculateRedemptionDate(inputs.commencementDate, inputs.termYears),
+    firstYearDividendRate,
+    firstYearIncome: roundCurrency(allocatedAmount * firstYearDividendRate),
+    placementFee: roundCurrency(investmentAmount * PLAN_FEES.placementFeeRate),
+    fees,
+    totalAdminFees: roundCurrency(fees.reduce((sum, fee) => sum + fee.adminFee, 0)),
+    totalCommission: roundCurrency(fees.reduce((sum, fee) => sum + fee.commission, 0)),
+  };
+}
+
+export interface ProjectionYear {
+  year: number;
+  openingCapital: number;
+  dividendRate: number;
+  dividendIncome: number;
+  feesDeducted: number;
+  closingCapital: number;
+}
+
+export interface ProjectionScenario {
+  key: string;
+  label: string;
+  years: ProjectionYear[];
+}
+
+export interface PlanProjections {
+  scenarios: ProjectionScenario[];
+}
+
+// Year-by-year schedule for one return scenario. Dividend income is allocated
+// back to capital each year (the template's 100% capital allocation), and the
+// placement fee in year 1 plus the yearly admin fee are deducted from it.
+function projectScenario(
+  calculation: PlanCalculation,
+  rateForYear: (year: number) => number,
+): ProjectionYear[] {
+  const years: ProjectionYear[] = [];
+  let capital = calculation.allocatedAmount;
+
+  for (const fee of calculation.fees) {
+    const dividendRate = rateForYear(fee.year);
+    const dividendIncome = roundCurrency(capital * dividendRate);
+    const feesDeducted = roundCurrency(fee.adminFee + (fee.year === 1 ? calculation.placementFee : 0));
+    const closingCapital = roundCurrency(capital + dividendIncome - feesDeducted);
+
+    years.push({
+      year: fee.year,
+      openingCapital: capital,
+      dividendRate,
+      dividendIncome,
+      feesDeducted,
+      closingCapital,
+    });
+    capital = closingCapital;
+  }
+
+  return years;
+}
+
+// The dividend forecast entered on the quote, followed by one flat-rate
+// scenario per entry in scenarioPercents ("Projection Scenarios" in the template).
+export function calculateProjections(inputs: PlanInputs): PlanProjections {
+  const calculation = calculatePlan(inputs);
+
+  const scenarios: ProjectionScenario[] = [
+    {
+      key: "forecast",
+      label: "Dividend forecast",
+      years: projectScenario(calculation, (year) => dividendRateForYear(inputs, year)),
+    },
+    ...inputs.scenarioPercents.map((percent, index) => ({
+      key: `scenario${index + 1}`,
+      label: `Scenario ${index + 1} (${percent}%)`,
+      years: projectScenario(calculation, () => percent / 100),
+    })),
+  ];
+
+  return { scenarios };
+}
+
+// Quote columns for an investment plan quote. The quote total is the amount
+// the client invests; fees are disclosed in the proposal, not added on top.
+export function planQuoteFigures(calculation: PlanCalculation) {
+  const amount = calculation.investmentAmount;
+  const items: QuoteLineItem[] = [
+    {
+      description: `Investment amount (${calculation.termYears} year plan, ${calculation.sharesPurchased} shares)`,
+      quantity: 1,
+      rate: amount,
+      discountPercent: 0,
+      amount,
+      taxExempt: true,
+    },
+  ];
+  return {
+    items,
+    subtotal: amount.toFixed(2),
+    tax: "0.00",
+    total: amount.toFixed(2),
+  };
+}
@@ -0,0 +1,103 @@
+// FICA / KYC requirements every client must meet before a quote can be
+// accepted, and how a client's checklist is worked out from the documents
+// linked to it. Shared so the client shows the same status the server enforces.
+
+export const kycRequirementTypes = ["identity", "proof_of_address", "bank_statement", "source_of_funds"] as const;
+export type KycRequirementType = typeof kycRequirementTypes[number];
+
+export interface KycRequirement {
+  label: string;
+  description: string;
+  // How long after the date on the document it stays acceptable
+  maxAgeMonths?: number;
+}
+
+export const kycRequirements: Record<KycRequirementType, KycRequirement> = {
+  identity: {
+    label: "ID or passport",
+    description: "Certified copy of the client's ID document or passport",
+  },
+  proof_of_address: {
+    label: "Proof of address",
+    description: "Utility bill or bank letter not older than 3 months",
+    maxAgeMonths: 3,
+  },
+  bank_statement: {
+    label: "Bank statement",
+    description: "Bank statement not older than 3 months",
+    maxAgeMonths: 3,
+  },
+  source_of_funds: {
+    label: "Source of funds",
+    description: "Signed declaration of where the invested money comes from",
+  },
+};
+
+export const kycItemStatuses = ["pending", "verified", "rejected"] as const;
+export type KycItemStatus = typeof kycItemStatuses[number];
+
+// A requirement's standing: "expired" means the last verified document has lapsed
+export type KycRequirementStatus = "missing" | "pending" | "verified" | "expired" | "rejected";
+
+interface KycItemLike {
+  requirement: string;
+  status: string;
+  expiresAt: Date | string | null;
+}
+
+export interface KycRequirementState<T> {
+  requirement: KycRequirementType;
+  status: KycRequirementStatus;
+  // The item that decides the status, if any
+  item: T | null;
+}
+
+// The date a document stops counting: the earlier of its own expiry date
+// (e.g. a passport's) and the requirement's maximum age
+export function kycExpiryDate(requirement: KycRequirementType, documentDate: Date, expiresAt?: Date | null): Date | null {
+  const maxAgeMonths = kycRequirements[requirement].maxAgeMonths;
+  let ageLimit: Date | null = null;
+  if (maxAgeMonths) {
+    ageLimit = new Date(documentDate);
+    ageLimit.setMonth(ageLimit.getMonth() + maxAgeMonths);
+  }
+  if (ageLimit && expiresAt) {
+    return ageLimit < expiresAt ? ageLimit : expiresAt;
+  }
+  return ageLimit ?? expiresAt ?? null;
+}
+
+function isExpired(item: KycItemLike, at: Date): boolean {
+  return item.expiresAt !== null && new Date(item.expiresAt) <= at;
+}
+
+// Best standing first: a current verified document settles the requirement
+const statusRank: KycRequirementStatus[] = ["verified", "pending", "expired", "rejected"];
+
+function itemStatus(item: KycItemLike, at: Date): KycRequirementStatus {
+  if (item.status === "verified") {
+    return isExpired(item, at) ? "expired" : "verified";
+  }
+  if (item.status === "pending" && isExpired(item, at)) {
+    return "expired";
+  }
+  return item.status as KycRequirementStatus;
+}
+
+export function kycChecklist<T extends KycItemLike>(items: T[], at = new Date()): KycRequirementState<T>[] {
+  return kycRequirementTypes.map((requirement) => {
+    let best: KycRequirementState<T> = { requirement, status: "missing", item: null };
+    for (const item of items.filter((item) => item.requirement === requirement)) {
+      const status = itemStatus(item, at);
+      if (best.status === "missing" || statusRank.indexOf(status) < statusRank.indexOf(best.status)) {
+        best = { requirement, status, item };
+      }
+    }
+    return best;
+  });
+}
+
+// FICA is complete when every requirement has a verified document that hasn't lapsed
+export function isKycComplete(items: KycItemLike[], at = new Date()): boolean {
+  return kycChecklist(items, at).every((state) => state.status === "verified");
+}
@@ -0,0 +1,5 @@
+// Round to cents. All quote and plan figures go through this so the browser
+// and the server agree on every amount.
+export function roundCurrency(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
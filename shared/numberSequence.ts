@@ -0,0 +1,42 @@
+// Document number formats, e.g. "Q{YYYY}-{NNN}" gives Q2025-001. The run of
+// Ns sets the minimum width; numbers past it simply grow (Q2025-1000).
+// Supported tokens: {YYYY}, {YY}, {MM} and {N...}.
+
+export const sequenceResetPeriods = ["never", "yearly", "monthly"] as const;
+export type SequenceResetPeriod = typeof sequenceResetPeriods[number];
+
+// Sequences used by the app and the format each starts with. A product-specific
+// quote sequence ("quote:investment_plan") takes precedence over "quote" once
+// an admin configures one.
+export const DEFAULT_SEQUENCES: Record<string, { format: string; resetPeriod: SequenceResetPeriod }> = {
+  quote: { format: "Q{YYYY}-{NNN}", resetPeriod: "yearly" },
+  agreement: { format: "AGR{YYYY}-{NNNNN}", resetPeriod: "yearly" },
+};
+
+const COUNTER_TOKEN = /\{(N+)\}/g;
+
+export function isValidSequenceFormat(format: string): boolean {
+  return (format.match(COUNTER_TOKEN) ?? []).length === 1;
+}
+
+// Identifies the period a number belongs to; the counter restarts when it changes
+export function sequencePeriod(resetPeriod: string, date: Date): string {
+  const year = date.getFullYear().toString();
+  switch (resetPeriod) {
+    case "yearly":
+      return year;
+    case "monthly":
+      return `${year}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
+    default:
+      return "";
+  }
+}
+
+export function formatSequenceNumber(format: string, value: number, date: Date): string {
+  const year = date.getFullYear().toString();
+  return format
+    .replace("{YYYY}", year)
+    .replace("{YY}", year.slice(-2))
+    .replace("{MM}", (date.getMonth() + 1).toString().padStart(2, "0"))
+    .replace(COUNTER_TOKEN, (_, ns: string) => value.toString().padStart(ns.length, "0"));
+}
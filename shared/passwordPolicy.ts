@@ -0,0 +1,57 @@
+// Password strength rules, shared so the forms can explain them before the
+// server rejects a password. Long passphrases don't need the character mix.
+
+export const PASSWORD_MIN_LENGTH = 10;
+export const PASSWORD_MAX_LENGTH = 128;
+const PASSPHRASE_LENGTH = 16;
+
+// Passwords that turn up first in any guessing list, compared without case
+const COMMON_PASSWORDS = new Set([
+  "password", "password1", "password12", "password123", "password1234", "passw0rd",
+  "p@ssw0rd", "p@ssword1", "qwerty123", "qwertyuiop", "qwerty1234", "1q2w3e4r5t",
+  "123456789", "1234567890", "0123456789", "9876543210", "1111111111", "abc1234567",
+  "abcdefghij", "iloveyou12", "letmein123", "welcome123", "welcome1!", "admin12345",
+  "administrator", "changeme123", "football123", "sunshine123", "princess123",
+  "opiancore", "opiancore1", "opiancore123",
+]);
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+// What's wrong with the password, or an empty list if it's acceptable.
+// `personal` holds the user's name and email so they can't be reused.
+export function passwordProblems(password: string, personal: string[] = []): string[] {
+  const problems: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    problems.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  if (
+    password.length < PASSPHRASE_LENGTH &&
+    CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length < 3
+  ) {
+    problems.push(
+      `Use at least three of lowercase letters, capitals, numbers and symbols, or ${PASSPHRASE_LENGTH}+ characters`,
+    );
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    problems.push("This password is too common");
+  }
+
+  const lower = password.toLowerCase();
+  const reused = personal
+    .map((value) => value.trim().toLowerCase())
+    .some((value) => value.length >= 3 && lower.includes(value));
+  if (reused) {
+    problems.push("Password must not contain your name or email address");
+  }
+
+  return problems;
+}
+
+// The parts of a user's details a password shouldn't contain
+export function personalPasswordTerms(user: { email: string; firstName?: string; lastName?: string }): string[] {
+  return [user.email.split("@")[0], user.firstName ?? "", user.lastName ?? ""];
+}
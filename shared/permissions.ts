@@ -0,0 +1,96 @@
+// Permissions a role can grant. A user whose role grants no record permission
+// works only with the clients, quotes, meetings and documents they own.
+export const permissions = [
+  "records.read_all",
+  "records.write_all",
+  "records.branch",
+  "records.on_behalf",
+  "quotes.approve",
+  "kyc.verify",
+  "users.manage",
+  "settings.manage",
+] as const;
+export type Permission = typeof permissions[number];
+
+export const permissionLabels: Record<Permission, string> = {
+  "records.read_all": "View every client record",
+  "records.write_all": "Edit every client record",
+  "records.branch": "View and edit records of their branch",
+  "records.on_behalf": "Act on behalf of their consultant",
+  "quotes.approve": "Accept or reject quotes they can view",
+  "kyc.verify": "Verify FICA documents of clients they can view",
+  "users.manage": "Manage users, roles and branches",
+  "settings.manage": "Manage tax rates and numbering",
+};
+
+// What a personal API token may do, as "<resource>:read" or "<resource>:write".
+// A token never does more than its owner's role allows; write includes read.
+export const apiTokenResources = [
+  "clients",
+  "quotes",
+  "meetings",
+  "documents",
+  "notifications",
+  "users",
+  "settings",
+] as const;
+export type ApiTokenResource = typeof apiTokenResources[number];
+export type ApiTokenAccess = "read" | "write";
+export type ApiTokenScope = `${ApiTokenResource}:${ApiTokenAccess}`;
+
+export const apiTokenResourceLabels: Record<ApiTokenResource, string> = {
+  clients: "Clients and dashboard",
+  quotes: "Quotes",
+  meetings: "Meetings",
+  documents: "Documents",
+  notifications: "Notifications",
+  users: "Branches and roles",
+  settings: "Tax rates and numbering",
+};
+
+export const apiTokenScopes = apiTokenResources.flatMap((resource) => [
+  `${resource}:read`,
+  `${resource}:write`,
+]) as [ApiTokenScope, ...ApiTokenScope[]];
+
+export function tokenAllows(scopes: readonly string[], resource: ApiTokenResource, access: ApiTokenAccess): boolean {
+  return scopes.includes(`${resource}:write`) || (access === "read" && scopes.includes(`${resource}:read`));
+}
+
+// The admin role always holds every permission, whatever is stored for it
+export const ADMIN_ROLE = "admin";
+export const DEFAULT_ROLE = "consultant";
+
+// Roles seeded on first start; admins can change their permissions later
+export const DEFAULT_ROLES: { key: string; name: string; description: string; permissions: Permission[] }[] = [
+  {
+    key: ADMIN_ROLE,
+    name: "Admin",
+    description: "Full access to every record and setting",
+    permissions: [...permissions],
+  },
+  {
+    key: DEFAULT_ROLE,
+    name: "Consultant",
+    description: "Works with their own clients",
+    permissions: [],
+  },
+  {
+    key: "compliance_officer",
+    name: "Compliance Officer",
+    description: "Reviews every record and approves quotes",
+    permissions: ["records.read_all", "quotes.approve", "kyc.verify"],
+  },
+  {
+    key: "branch_manager",
+    name: "Branch Manager",
+    description: "Oversees the consultants in their branch",
+    permissions: ["records.branch", "quotes.approve"],
+  },
+  {
+    key: "assistant",
+    name: "Assistant",
+    description: "Works on behalf of a consultant",
+    permissions: ["records.on_behalf"],
+  },
+];
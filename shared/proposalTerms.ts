@@ -0,0 +1,58 @@
+// Standard wording of an investment proposal, taken from the quotation
+// template. Shared so the PDF and any on-screen rendering stay identical.
+
+export const PROPOSAL_CONDITIONS = [
+  "To effectively evaluate this product against comparable alternatives, it is essential to analyze and contrast its risk and reward profile with those of similar products offering analogous risk-reward structures.",
+  "This offer involves the acquisition of unlisted shares in a private company. Given the inherent risks associated with such investments, we strongly recommend consulting a qualified financial advisor before making any commitment.",
+  "This offer contains no guarantees beyond those expressly stated herein. Upon signing, the terms outlined in this offer shall constitute a legally binding agreement between the client and the company.",
+  "The applicant acknowledges that selecting specific income levels may lead to capital depletion or appreciation, contingent upon the company's profitability and its impact on dividend distributions for the given fiscal year.",
+  "The investment is structured as shareholder loan agreement, offering enhanced security for the client. The issued shares serve as a marketable asset, which can be sold over the counter at underlying asset value, based on the company and share valuation at exit date or thereafter.",
+  "The company's directors are confident that the current business forecast indicates promising returns, supported by tangible trends and validated through comparable business models. However we strongly recommend seeking independent financial advice to ensure a well-informed decision tailored to your financial circumstances.",
+  "The directors of the company and the trustees of money held in funds, in their collective capacity, retain the authority to limit, withhold, defer or reduce payments or payouts as necessary at moment's notice to safeguard the company's liquidity requirements and ensure financial stability.",
+  "The individual, individuals or organisation/s entering into this agreement acknowledges and understands that this is a fixed-term contract, as specified in the duration outlined above. The term \"Exit Date\" refers to the agreed-upon end date of the contract. Furthermore, it is expressly understood that access to the invested capital will not be available during the entire duration of the contract.",
+  "The shares issued under this agreement are subject to a lock-in period for the duration of the contract and are issued without par value as of the contract's commencement date. Upon the conclusion of the contract, the Directors and trustees reserve the right to assign a par value to the shares if deemed necessary.",
+  "The par value of shares will be based on a comprehensive assessment of the company's valuation and dividend performance at the time of exit.",
+] as const;
+
+export const PROPOSAL_SECTIONS = [
+  {
+    heading: "Validity",
+    body: "This offer remains valid for a period of 14 days from the date of issuance. It is imperative that the receipt of funds occurs within this specific time frame. All required documentation must be completed, and funds transfers finalized, on or before the expiration of the offer's validity period. Should any information remain outstanding or incomplete, funds will be processed, but a new offer must be issued and duly executed before the terms can be formally accepted by the company.",
+  },
+  {
+    heading: "Taxation",
+    body: "Taxation is not addressed in this plan. Taxation should be discussed with a tax adviser.",
+  },
+  {
+    heading: "Fees",
+    body: "This offer details the fees payable under the contract, which encompass deal placement fees (commissions).",
+  },
+  {
+    heading: "Suitability",
+    body: "The client's shares and access to capital are restricted for the duration of this agreement. As such, it is imperative that the client maintains a financial position robust enough to support the terms and obligations outlined herein, such term also being the potential fluctuation of income drawn from the investment. Ensuring financial stability will safeguard the client's interest and facilitate the successful execution of this agreement.",
+  },
+  {
+    heading: "Financial Advice",
+    body: "Limited financial advice has been given with this offer.",
+  },
+  {
+    heading: "Benefits payable on death",
+    body: "In the event of your passing during the term of this agreement, the benefits of this agreement shall be transferred to your designated beneficiaries or your estate until the end of the agreement.",
+  },
+] as const;
+
+// Company issuing the shares, as printed on the letterhead and subscription form
+export const PROPOSAL_ISSUER = {
+  name: "Prime Invest Group (Pty) Ltd",
+  registeredAddress: "210 Amarand Avenue, Waterkloof Glen, 0181, Menlyn, Pretoria",
+  contact: "Email: enquiries@primeinvestgroup.co.za  Website: www.primeinvestgroup.co.za",
+} as const;
+
+export const SUBSCRIPTION_DECLARATION =
+  `I, the undersigned, by my signature below, hereby confirm that I wish to purchase shares from the company ${PROPOSAL_ISSUER.name}. I authorise by my signature below that all documentation to be completed and bank transfers to be effected to complete that transaction in order to purchase the shares offered in terms of this offer. I confirm herewith by my signature below that this order constitutes a legal, valid and binding obligation to the issuer enforceable in accordance with its terms.`;
+
+export const SUBSCRIPTION_SUPPORTING_DOCUMENTS = [
+  "Copy of Identity Document / Passport",
+  "Proof of Address",
+  "Bank Statement",
+] as const;
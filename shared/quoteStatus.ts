@@ -0,0 +1,45 @@
+// Quote status lifecycle shared by the server, which enforces it, and the
+// client, which only offers the actions that are currently allowed.
+
+export const quoteStatuses = ["draft", "sent", "accepted", "rejected", "expired", "withdrawn"] as const;
+export type QuoteStatus = typeof quoteStatuses[number];
+
+export const quoteStatusTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ["sent", "withdrawn"],
+  sent: ["accepted", "rejected", "expired", "withdrawn"],
+  accepted: [],
+  rejected: [],
+  expired: [],
+  withdrawn: ["draft"],
+};
+
+// Action endpoints (POST /api/quotes/:id/<action>) and the status each moves to
+export const quoteStatusActions = {
+  send: "sent",
+  accept: "accepted",
+  reject: "rejected",
+  expire: "expired",
+  withdraw: "withdrawn",
+  reopen: "draft",
+} as const satisfies Record<string, QuoteStatus>;
+export type QuoteStatusAction = keyof typeof quoteStatusActions;
+
+// New quotes always start as drafts
+export function canTransitionQuoteStatus(from: string | null, to: string): boolean {
+  if (from === null) {
+    return to === "draft";
+  }
+  return quoteStatusTransitions[from as QuoteStatus]?.includes(to as QuoteStatus) ?? false;
+}
+
+// Accepted, rejected and expired quotes are settled: their terms stay as the
+// client last saw them
+export function isFinalQuoteStatus(status: string): boolean {
+  return quoteStatusTransitions[status as QuoteStatus]?.length === 0;
+}
+
+export function availableQuoteActions(status: string): QuoteStatusAction[] {
+  return (Object.keys(quoteStatusActions) as QuoteStatusAction[]).filter((action) =>
+    canTransitionQuoteStatus(status, quoteStatusActions[action]),
+  );
+}
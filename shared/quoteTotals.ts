@@ -0,0 +1,108 @@
+import { roundCurrency } from "./money";
+
+// Quote total calculation shared by the quote forms and the server. The server
+// result is authoritative; the browser only uses it to preview the figures.
+
+export interface QuoteLineInput {
+  description: string;
+  quantity: number;
+  rate: number;
+  discountPercent?: number;
+  amount?: number;
+  taxExempt?: boolean;
+}
+
+export interface QuoteTotals {
+  items: Array<QuoteLineInput & { discountPercent: number; amount: number; taxExempt: boolean }>;
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+// Shaped like a Zod issue so the client can treat both kinds of 400 alike
+export interface QuoteTotalsDiscrepancy {
+  path: Array<string | number>;
+  message: string;
+  submitted: number;
+  expected: number;
+}
+
+// Differences below half a cent are rounding noise, not tampering
+const TOLERANCE = 0.005;
+
+export function calculateLineAmount(line: Pick<QuoteLineInput, "quantity" | "rate" | "discountPercent">): number {
+  const gross = line.quantity * line.rate;
+  return roundCurrency(gross * (1 - (line.discountPercent ?? 0) / 100));
+}
+
+export function calculateQuoteTotals(items: QuoteLineInput[], taxRatePercent: number): QuoteTotals {
+  const lines = items.map((item) => ({
+    ...item,
+    discountPercent: item.discountPercent ?? 0,
+    amount: calculateLineAmount(item),
+    taxExempt: item.taxExempt ?? false,
+  }));
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const taxable = lines
+    .filter((line) => !line.taxExempt)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const tax = roundCurrency(taxable * (taxRatePercent / 100));
+
+  return {
+    items: lines,
+    subtotal,
+    tax,
+    total: roundCurrency(subtotal + tax),
+  };
+}
+
+function disagrees(submitted: number, expected: number): boolean {
+  return Number.isNaN(submitted) || Math.abs(submitted - expected) > TOLERANCE;
+}
+
+// Compare submitted line amounts and totals against the calculated ones.
+// Fields the client did not submit are not checked.
+export function findTotalsDiscrepancies(
+  submitted: {
+    items?: Array<{ amount?: number }>;
+    subtotal?: string | number | null;
+    tax?: string | number | null;
+    total?: string | number | null;
+  },
+  expected: QuoteTotals,
+): QuoteTotalsDiscrepancy[] {
+  const discrepancies: QuoteTotalsDiscrepancy[] = [];
+
+  submitted.items?.forEach((item, index) => {
+    const expectedAmount = expected.items[index]?.amount;
+    if (item.amount === undefined || expectedAmount === undefined) {
+      return;
+    }
+    if (disagrees(Number(item.amount), expectedAmount)) {
+      discrepancies.push({
+        path: ["items", index, "amount"],
+        message: `Line ${index + 1} amount should be ${expectedAmount.toFixed(2)}`,
+        submitted: Number(item.amount),
+        expected: expectedAmount,
+      });
+    }
+  });
+
+  for (const field of ["subtotal", "tax", "total"] as const) {
+    const value = submitted[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (disagrees(Number(value), expected[field])) {
+      discrepancies.push({
+        path: [field],
+        message: `${field} should be ${expected[field].toFixed(2)}`,
+        submitted: Number(value),
+        expected: expected[field],
+      });
+    }
+  }
+
+  return discrepancies;
+}
@@ -2,6 +2,7 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   json,
   mysqlTable,
   text,
@@ -10,9 +11,27 @@ import {
   decimal,
   int,
   boolean,
+  date,
+  primaryKey,
 } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { quoteStatuses } from "./quoteStatus";
+import { PROPOSAL_CONDITIONS } from "./proposalTerms";
+import { isValidSequenceFormat, sequenceResetPeriods } from "./numberSequence";
+import { apiTokenScopes, permissions, type ApiTokenScope, type Permission } from "./permissions";
+import { kycRequirementTypes } from "./kyc";
+import {
+  bankAccountTypes,
+  clientTypes,
+  contactRoles,
+  relatedPersonRoles,
+  relationshipTypes,
+  type RelatedPerson,
+} from "./clientProfile";
+import { passwordProblems } from "./passwordPolicy";
+import { timelineEventKinds } from "./timeline";
+import { interactionTypes } from "./interactions";
 
 // Session storage table
 export const sessions = mysqlTable(
@@ -25,6 +44,43 @@ export const sessions = mysqlTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Organisations table
+export const DEFAULT_ORGANISATION_ID = "default";
+
+export const organisations = mysqlTable("organisations", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  name: text("name").notNull(),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false), // every user must enrol an authenticator app
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Roles and the permissions each grants (see ./permissions)
+export const roles = mysqlTable("roles", {
+  key: varchar("role_key", { length: 50 }).primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const rolePermissions = mysqlTable(
+  "role_permissions",
+  {
+    roleKey: varchar("role_key", { length: 50 }).notNull().references(() => roles.key, { onDelete: "cascade" }),
+    permission: varchar("permission", { length: 50 }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.roleKey, table.permission] })],
+);
+
+// Branches group consultants for branch managers
+export const branches = mysqlTable("branches", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  organisationId: varchar("organisation_id", { length: 36 }).notNull().references(() => organisations.id),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // User storage table
 export const users = mysqlTable("users", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
@@ -33,19 +89,152 @@ export const users = mysqlTable("users", {
   lastName: varchar("last_name", { length: 255 }).notNull(),
   profileImageUrl: varchar("profile_image_url", { length: 512 }),
   passwordHash: varchar("password_hash", { length: 255 }).notNull(),
-  role: varchar("role", { length: 50 }).notNull().default("consultant"), // 'admin' or 'consultant'
+  role: varchar("role", { length: 50 }).notNull().default("consultant"), // key of a row in roles
+  organisationId: varchar("organisation_id", { length: 36 }).notNull().default(DEFAULT_ORGANISATION_ID).references(() => organisations.id),
+  branchId: varchar("branch_id", { length: 36 }).references(() => branches.id),
+  actsForUserId: varchar("acts_for_user_id", { length: 36 }), // the consultant an assistant works for
+  isActive: boolean("is_active").notNull().default(true),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  totpSecret: varchar("totp_secret", { length: 64 }), // base32; set during enrolment, in use once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: int("totp_last_used_step"), // time step of the last accepted code, so a code can't be replayed
+  failedLoginCount: int("failed_login_count").notNull().default(0), // since the last successful sign-in
+  lockedUntil: timestamp("locked_until"),
+  sessionVersion: int("session_version").notNull().default(0), // bumped to sign the user out of every session
+  deactivatedAt: timestamp("deactivated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use, time-limited tokens emailed to a user to prove they own their address
+export const userTokenPurposes = ["password_reset", "email_verification"] as const;
+export type UserTokenPurpose = typeof userTokenPurposes[number];
+
+export const userTokens = mysqlTable("user_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: varchar("purpose", { length: 30 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time codes for signing in without the authenticator app
+export const userRecoveryCodes = mysqlTable("user_recovery_codes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256 of the code; the code itself is never stored
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Accounts at external identity providers (OIDC, SAML) that sign in as a user
+export const userIdentities = mysqlTable(
+  "user_identities",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+    provider: varchar("provider", { length: 50 }).notNull(), // key of the configured provider
+    subject: varchar("subject", { length: 255 }).notNull(), // the provider's stable id for the account
+    email: varchar("email", { length: 255 }),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_identity_subject").on(table.provider, table.subject)],
+);
+
+// Personal API tokens, sent as "Authorization: Bearer <token>" by scripts and integrations
+export const apiTokens = mysqlTable("api_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // start of the token, so its owner can tell tokens apart
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sign-ins started at an external provider and not yet finished. The browser
+// holds the token in a cookie, which ties the provider's response to it.
+export const authFlows = mysqlTable("auth_flows", {
+  tokenHash: varchar("token_hash", { length: 64 }).primaryKey(), // SHA-256 of the cookie value
+  provider: varchar("provider", { length: 50 }).notNull(),
+  data: json("data").$type<Record<string, string>>().notNull(), // state, nonce and PKCE verifier
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every sign-in attempt, for throttling and so users can spot activity that wasn't them
+export const loginAttempts = mysqlTable(
+  "login_attempts",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    userId: varchar("user_id", { length: 36 }).references(() => users.id, { onDelete: "cascade" }), // null when the email has no account
+    email: varchar("email", { length: 255 }).notNull(),
+    ipAddress: varchar("ip_address", { length: 45 }).notNull(),
+    userAgent: varchar("user_agent", { length: 512 }),
+    succeeded: boolean("succeeded").notNull(),
+    reason: varchar("reason", { length: 30 }), // why a failed attempt failed
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_login_attempts_user").on(table.userId, table.createdAt),
+    index("IDX_login_attempts_ip").on(table.ipAddress, table.createdAt),
+  ],
+);
+
+// Single-use invitations to register with a given email address and role
+export const userInvites = mysqlTable("user_invites", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  organisationId: varchar("organisation_id", { length: 36 }).notNull().references(() => organisations.id),
+  email: varchar("email", { length: 255 }).notNull(),
+  role: varchar("role", { length: 50 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: varchar("accepted_by", { length: 36 }).references(() => users.id),
+  createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Email domains whose addresses may register without an invitation
+export const signupDomains = mysqlTable("signup_domains", {
+  domain: varchar("domain", { length: 255 }).primaryKey(),
+  organisationId: varchar("organisation_id", { length: 36 }).notNull().references(() => organisations.id),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Clients table
+// Fields marked encrypted are stored with AES-GCM by the storage layer and
+// read back in clear; they can't be searched in SQL.
 export const clients = mysqlTable("clients", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
-  name: text("name").notNull(),
+  clientType: varchar("client_type", { length: 20 }).notNull().default("individual"), // See clientTypes in clientProfile.ts
+  name: text("name").notNull(), // the person's full name, or the company or trust name
   company: text("company"),
   email: text("email"),
   phone: text("phone"),
-  address: text("address"),
+  address: text("address"), // physical address
+  postalAddress: text("postal_address"),
+  // Individuals
+  idNumber: text("id_number"), // encrypted; South African ID number
+  passportNumber: text("passport_number"), // encrypted
+  dateOfBirth: date("date_of_birth", { mode: "string" }),
+  taxNumber: text("tax_number"), // encrypted
+  // Companies and trusts
+  registrationNumber: varchar("registration_number", { length: 50 }),
+  relatedPersons: json("related_persons").$type<RelatedPerson[]>(), // each idNumber encrypted
+  // Banking details
+  bankName: varchar("bank_name", { length: 100 }),
+  bankAccountHolder: text("bank_account_holder"),
+  bankAccountNumber: text("bank_account_number"), // encrypted
+  bankBranchCode: varchar("bank_branch_code", { length: 10 }),
+  bankAccountType: varchar("bank_account_type", { length: 20 }), // See bankAccountTypes in clientProfile.ts
   notes: text("notes"),
   status: varchar("status", { length: 50 }).notNull().default("active"), // 'active', 'prospect', 'inactive'
   createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
@@ -60,17 +249,118 @@ export const quotes = mysqlTable("quotes", {
   quoteNumber: varchar("quote_number", { length: 100 }).notNull().unique(),
   title: text("title").notNull(),
   description: text("description"),
-  items: json("items").notNull(), // Array of quote line items
+  type: varchar("type", { length: 50 }).notNull().default("standard"), // 'standard' or 'investment_plan'
+  items: json("items").$type<QuoteLineItem[]>().notNull(), // Array of quote line items
+  planInputs: json("plan_inputs"), // Investment plan calculator inputs (investment_plan quotes only)
+  projections: json("projections"), // Year-by-year projection schedule per return scenario
   subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
   tax: decimal("tax", { precision: 12, scale: 2 }).notNull().default("0"),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }), // Tax rate percentage applied by the server
   total: decimal("total", { precision: 12, scale: 2 }).notNull(),
-  status: varchar("status", { length: 50 }).notNull().default("draft"), // 'draft', 'sent', 'accepted', 'rejected'
+  status: varchar("status", { length: 50 }).notNull().default("draft"), // See quoteStatusTransitions in quoteStatus.ts
+  acceptedAt: timestamp("accepted_at"),
+  agreementNumber: varchar("agreement_number", { length: 100 }).unique(), // Allocated when an investment plan is accepted
+  revision: int("revision").notNull().default(1), // Latest entry in quote_revisions
   validUntil: timestamp("valid_until"),
   createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quote revisions table (immutable snapshot of a quote after each save)
+export const quoteRevisions = mysqlTable(
+  "quote_revisions",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    quoteId: varchar("quote_id", { length: 36 }).notNull().references(() => quotes.id, { onDelete: "cascade" }),
+    revision: int("revision").notNull(),
+    snapshot: json("snapshot").$type<Quote>().notNull(),
+    createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_quote_revision").on(table.quoteId, table.revision)],
+);
+
+// Quote status history table (who moved a quote between statuses, and when)
+export const quoteStatusHistory = mysqlTable("quote_status_history", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  quoteId: varchar("quote_id", { length: 36 }).notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status", { length: 50 }), // Null for the quote's creation
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  changedBy: varchar("changed_by", { length: 36 }).references(() => users.id), // Null for system changes
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Quote share links table (tokenised public URL for the client to respond)
+export const quoteShareLinks = mysqlTable("quote_share_links", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  quoteId: varchar("quote_id", { length: 36 }).notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Quote responses table (client's online acceptance or decline, with signature evidence)
+export const quoteResponses = mysqlTable("quote_responses", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  quoteId: varchar("quote_id", { length: 36 }).notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  shareLinkId: varchar("share_link_id", { length: 36 }).notNull().references(() => quoteShareLinks.id, { onDelete: "cascade" }),
+  decision: varchar("decision", { length: 20 }).notNull(), // 'accepted' or 'declined'
+  signatoryName: varchar("signatory_name", { length: 255 }).notNull(),
+  signatoryIdNumber: text("signatory_id_number").notNull(), // encrypted
+  conditionsAccepted: boolean("conditions_accepted").notNull(),
+  reason: text("reason"),
+  quoteRevision: int("quote_revision").notNull(), // Revision the client was shown
+  pdfHash: varchar("pdf_hash", { length: 64 }).notNull(), // SHA-256 of the proposal PDF for that revision
+  documentId: varchar("document_id", { length: 36 }).references(() => documents.id), // Stored copy of that PDF
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Notifications table (in-app messages for a user, e.g. a quote expired)
+export const notifications = mysqlTable("notifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  type: varchar("type", { length: 50 }).notNull(), // e.g. 'quote_expired'
+  title: text("title").notNull(),
+  message: text("message"),
+  link: varchar("link", { length: 255 }), // Client route to open, e.g. /quotes/:id
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Number sequences table (quote and agreement numbering per organisation)
+export const numberSequences = mysqlTable(
+  "number_sequences",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    organisationId: varchar("organisation_id", { length: 36 }).notNull().references(() => organisations.id),
+    key: varchar("sequence_key", { length: 100 }).notNull(), // e.g. 'quote', 'quote:investment_plan', 'agreement'
+    format: varchar("format", { length: 100 }).notNull(), // See numberSequence.ts
+    resetPeriod: varchar("reset_period", { length: 20 }).notNull().default("yearly"),
+    currentPeriod: varchar("current_period", { length: 20 }).notNull().default(""),
+    nextValue: int("next_value").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_number_sequence_key").on(table.organisationId, table.key)],
+);
+
+// Tax rates table (effective-dated, per organisation)
+export const taxRates = mysqlTable("tax_rates", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  organisationId: varchar("organisation_id", { length: 36 }).notNull().references(() => organisations.id),
+  name: varchar("name", { length: 100 }).notNull(), // e.g. 'VAT'
+  ratePercent: decimal("rate_percent", { precision: 6, scale: 3 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Meetings table
 export const meetings = mysqlTable("meetings", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
@@ -101,12 +391,190 @@ export const documents = mysqlTable("documents", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Documents offered to meet a client's FICA / KYC requirements, each checked
+// by a second user before it counts
+export const clientKycItems = mysqlTable(
+  "client_kyc_items",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    requirement: varchar("requirement", { length: 50 }).notNull(), // See kycRequirementTypes in kyc.ts
+    documentId: varchar("document_id", { length: 36 }).notNull().references(() => documents.id, { onDelete: "cascade" }),
+    documentDate: timestamp("document_date").notNull(), // date the document was issued or signed
+    expiresAt: timestamp("expires_at"), // when it stops counting, see kycExpiryDate
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'verified', 'rejected'
+    submittedBy: varchar("submitted_by", { length: 36 }).notNull().references(() => users.id),
+    reviewedBy: varchar("reviewed_by", { length: 36 }).references(() => users.id),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewNote: text("review_note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_client_kyc_items_client").on(table.clientId)],
+);
+
+// People connected to a client who aren't clients themselves, e.g. a spouse or accountant
+export const clientContacts = mysqlTable(
+  "client_contacts",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    role: varchar("role", { length: 30 }).notNull(), // See contactRoles in clientProfile.ts
+    name: text("name").notNull(),
+    email: text("email"),
+    phone: text("phone"),
+    notes: text("notes"),
+    createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_client_contacts_client").on(table.clientId)],
+);
+
+// Calls, emails and visits with a client, one entry per conversation
+export const clientInteractions = mysqlTable(
+  "client_interactions",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 20 }).notNull(), // See interactionTypes in interactions.ts
+    body: text("body").notNull(), // Markdown: paragraphs, **bold**, *italic* and "- " lists
+    occurredAt: timestamp("occurred_at").notNull(), // when the conversation took place
+    followUpOn: date("follow_up_on", { mode: "string" }),
+    authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_client_interactions_client").on(table.clientId, table.occurredAt)],
+);
+
+// Every status a client has had, for their activity timeline
+export const clientStatusHistory = mysqlTable(
+  "client_status_history",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    fromStatus: varchar("from_status", { length: 50 }), // Null for the client's creation
+    toStatus: varchar("to_status", { length: 50 }).notNull(),
+    changedBy: varchar("changed_by", { length: 36 }).references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_client_status_history_client").on(table.clientId, table.createdAt)],
+);
+
+// Links between two clients, read from one to the other ("Jane is trustee of
+// the Smith Trust"). Household links are stored once and apply both ways.
+export const clientRelationships = mysqlTable(
+  "client_relationships",
+  {
+    id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+    fromClientId: varchar("from_client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    toClientId: varchar("to_client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 30 }).notNull(), // See relationshipTypes in clientProfile.ts
+    createdBy: varchar("created_by", { length: 36 }).notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_client_relationships_link").on(table.fromClientId, table.toClientId, table.type),
+    index("IDX_client_relationships_to").on(table.toClientId),
+  ],
+);
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const organisationsRelations = relations(organisations, ({ many }) => ({
+  users: many(users),
+  branches: many(branches),
+  userInvites: many(userInvites),
+  signupDomains: many(signupDomains),
+  taxRates: many(taxRates),
+  numberSequences: many(numberSequences),
+}));
+
+export const rolesRelations = relations(roles, ({ many }) => ({
+  permissions: many(rolePermissions),
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, {
+    fields: [rolePermissions.roleKey],
+    references: [roles.key],
+  }),
+}));
+
+export const branchesRelations = relations(branches, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [branches.organisationId],
+    references: [organisations.id],
+  }),
+  users: many(users),
+}));
+
+export const userTokensRelations = relations(userTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [userTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userRecoveryCodesRelations = relations(userRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [userRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [loginAttempts.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userInvitesRelations = relations(userInvites, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [userInvites.organisationId],
+    references: [organisations.id],
+  }),
+  createdBy: one(users, {
+    fields: [userInvites.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const signupDomainsRelations = relations(signupDomains, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [signupDomains.organisationId],
+    references: [organisations.id],
+  }),
+}));
+
+export const usersRelations = relations(users, ({ one, many }) => ({
+  organisation: one(organisations, {
+    fields: [users.organisationId],
+    references: [organisations.id],
+  }),
+  branch: one(branches, {
+    fields: [users.branchId],
+    references: [branches.id],
+  }),
   clients: many(clients),
   quotes: many(quotes),
   meetings: many(meetings),
   documents: many(documents),
+  notifications: many(notifications),
 }));
 
 export const clientsRelations = relations(clients, ({ one, many }) => ({
@@ -117,9 +585,16 @@ export const clientsRelations = relations(clients, ({ one, many }) => ({
   quotes: many(quotes),
   meetings: many(meetings),
   documents: many(documents),
+  kycItems: many(clientKycItems),
+  contacts: many(clientContacts),
+  interactions: many(clientInteractions),
 }));
 
-export const quotesRelations = relations(quotes, ({ one }) => ({
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
+  revisions: many(quoteRevisions),
+  statusHistory: many(quoteStatusHistory),
+  shareLinks: many(quoteShareLinks),
+  responses: many(quoteResponses),
   client: one(clients, {
     fields: [quotes.clientId],
     references: [clients.id],
@@ -152,37 +627,406 @@ export const documentsRelations = relations(documents, ({ one }) => ({
   }),
 }));
 
+export const clientKycItemsRelations = relations(clientKycItems, ({ one }) => ({
+  client: one(clients, {
+    fields: [clientKycItems.clientId],
+    references: [clients.id],
+  }),
+  document: one(documents, {
+    fields: [clientKycItems.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const quoteRevisionsRelations = relations(quoteRevisions, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteRevisions.quoteId],
+    references: [quotes.id],
+  }),
+  createdBy: one(users, {
+    fields: [quoteRevisions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const quoteStatusHistoryRelations = relations(quoteStatusHistory, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteStatusHistory.quoteId],
+    references: [quotes.id],
+  }),
+  changedBy: one(users, {
+    fields: [quoteStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const quoteShareLinksRelations = relations(quoteShareLinks, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteShareLinks.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+export const quoteResponsesRelations = relations(quoteResponses, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteResponses.quoteId],
+    references: [quotes.id],
+  }),
+  shareLink: one(quoteShareLinks, {
+    fields: [quoteResponses.shareLinkId],
+    references: [quoteShareLinks.id],
+  }),
+  document: one(documents, {
+    fields: [quoteResponses.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const numberSequencesRelations = relations(numberSequences, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [numberSequences.organisationId],
+    references: [organisations.id],
+  }),
+}));
+
+export const taxRatesRelations = relations(taxRates, ({ one }) => ({
+  organisation: one(organisations, {
+    fields: [taxRates.organisationId],
+    references: [organisations.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users);
-export const insertClientSchema = createInsertSchema(clients).omit({ 
+// Blank form fields are stored as null
+const optionalText = (max: number) => z.string().trim().max(max).nullish().transform((value) => value || null);
+const optionalMatch = (pattern: RegExp, message: string) =>
+  z.string().trim().refine((value) => value === "" || pattern.test(value), message).nullish().transform((value) => value || null);
+
+export const relatedPersonSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  role: z.enum(relatedPersonRoles),
+  idNumber: optionalMatch(/^\d{13}$/, "ID numbers have 13 digits"),
+});
+
+// Checks each field on its own; clientProfileProblems checks the record as a whole
+export const insertClientSchema = createInsertSchema(clients, {
+  clientType: z.enum(clientTypes),
+  postalAddress: optionalText(1000),
+  idNumber: optionalMatch(/^\d{13}$/, "ID numbers have 13 digits"),
+  passportNumber: optionalText(30),
+  dateOfBirth: optionalMatch(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD"),
+  taxNumber: optionalMatch(/^\d{10}$/, "Tax numbers have 10 digits"),
+  registrationNumber: optionalText(50),
+  relatedPersons: z.array(relatedPersonSchema).max(50).nullish(),
+  bankName: optionalText(100),
+  bankAccountHolder: optionalText(255),
+  bankAccountNumber: optionalMatch(/^\d{6,16}$/, "Account numbers have 6 to 16 digits"),
+  bankBranchCode: optionalMatch(/^\d{6}$/, "Branch codes have 6 digits"),
+  bankAccountType: z.enum(bankAccountTypes).nullish(),
+}).omit({ 
   id: true, 
   createdAt: true, 
   updatedAt: true 
 });
+export const quoteTypes = ["standard", "investment_plan"] as const;
+
+// A quote line. amount is quantity × rate less the line discount; the server
+// recalculates it and rejects quotes whose submitted amounts disagree.
+export const quoteLineItemSchema = z.object({
+  description: z.string().min(1, "Description is required"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  rate: z.number().min(0, "Rate must be non-negative"),
+  discountPercent: z.number().min(0, "Discount must be non-negative").max(100, "Discount cannot exceed 100%").default(0),
+  amount: z.number().min(0, "Amount must be non-negative"),
+  taxExempt: z.boolean().default(false),
+});
+export type QuoteType = typeof quoteTypes[number];
+
+// Inputs to the investment plan calculator (see shared/investmentPlan.ts).
+// Percentages are entered as whole numbers, e.g. 13.75 for 13.75%.
+export const planInputsSchema = z.object({
+  investmentAmount: z.number().positive("Investment amount must be positive"),
+  sharePrice: z.number().positive("Share price must be positive").default(10),
+  boosterPercent: z.number().min(0).max(100).default(10),
+  commencementDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Commencement date must be YYYY-MM-DD"),
+  termYears: z.number().int().min(1, "Term must be at least 1 year").max(30),
+  dividendPercents: z.array(z.number().min(0).max(100)).min(1, "At least one dividend rate is required"),
+  scenarioPercents: z.array(z.number().min(-100).max(100)).max(5, "At most 5 return scenarios").default([9, 15, 20]),
+});
+
 export const insertQuoteSchema = createInsertSchema(quotes).omit({ 
   id: true, 
   quoteNumber: true,
+  projections: true,
+  taxRate: true,
+  revision: true,
+  acceptedAt: true,
+  agreementNumber: true,
   createdAt: true, 
   updatedAt: true 
+}).extend({
+  type: z.enum(quoteTypes).default("standard"),
+  status: z.enum(quoteStatuses).default("draft"),
+  items: z.array(quoteLineItemSchema).min(1, "At least one item is required"),
+  planInputs: planInputsSchema.nullish(),
+});
+// What the client submits from the public proposal page. Accepting needs
+// every proposal condition ticked; declining doesn't.
+export const quoteResponseSchema = z.object({
+  decision: z.enum(["accept", "decline"]),
+  signatoryName: z.string().trim().min(2, "Full name is required"),
+  signatoryIdNumber: z.string().trim().min(6, "ID or passport number is required").max(50),
+  conditionsAccepted: z.array(z.boolean()).length(PROPOSAL_CONDITIONS.length),
+  reason: z.string().trim().max(2000).optional(),
+}).refine(
+  (data) => data.decision === "decline" || data.conditionsAccepted.every(Boolean),
+  { message: "All conditions must be accepted", path: ["conditionsAccepted"] },
+);
+
+export const numberSequenceSettingsSchema = z.object({
+  format: z.string().trim().min(1).max(100).refine(isValidSequenceFormat, "Format must contain one counter, e.g. {NNN}"),
+  resetPeriod: z.enum(sequenceResetPeriods).default("yearly"),
+  nextValue: z.number().int().positive().optional(),
+});
+
+// Profile fields an admin sets when adding or editing a user
+export const userProfileSchema = z.object({
+  email: z.string().trim().email("Invalid email address").max(255),
+  firstName: z.string().trim().min(1, "First name is required").max(255),
+  lastName: z.string().trim().min(1, "Last name is required").max(255),
+});
+
+export const setPasswordSchema = z.object({
+  password: z.string().superRefine((password, ctx) => {
+    for (const message of passwordProblems(password)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  }),
+});
+
+export const createUserSchema = userProfileSchema.merge(setPasswordSchema).extend({
+  role: z.string().trim().min(1, "Role is required").max(50),
+});
+
+// Self-registration, either with an invitation or from an allowed email domain
+export const registerSchema = userProfileSchema.merge(setPasswordSchema).extend({
+  inviteToken: z.string().min(1).optional(),
+});
+
+export const userInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address").max(255),
+  role: z.string().trim().min(1, "Role is required").max(50),
+});
+
+export const signupDomainSchema = z.object({
+  domain: z.string().trim().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Enter a domain such as example.com").max(255),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = setPasswordSchema.extend({
+  token: z.string().min(1),
+});
+
+// A code from the authenticator app, or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from your authenticator app").max(32),
+});
+
+export const securityPolicySchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one permission"),
+  expiresInDays: z.number().int().min(1).max(365),
+});
+
+// Hands a departing user's clients, quotes and meetings to someone else
+export const reassignRecordsSchema = z.object({
+  toUserId: z.string().min(1, "Choose who takes over the records"),
+});
+
+// What an admin can change about a user's access
+export const userAccessSchema = z.object({
+  role: z.string().trim().min(1, "Role is required").max(50),
+  branchId: z.string().nullable(),
+  actsForUserId: z.string().nullable(),
+});
+
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(permissions)),
+});
+
+export const insertBranchSchema = createInsertSchema(branches, {
+  name: z.string().trim().min(1, "Name is required").max(255),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaxRateSchema = createInsertSchema(taxRates, {
+  ratePercent: z.string().regex(/^\d{1,3}(\.\d{1,3})?$/, "Rate must be a percentage, e.g. 15"),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  createdAt: true
 });
 export const insertMeetingSchema = createInsertSchema(meetings).omit({ 
   id: true, 
   createdAt: true, 
   updatedAt: true 
 });
+
+// Update bodies never change a record's owner; records only change hands
+// through POST /api/admin/users/:id/reassign. Unknown keys such as createdBy are dropped.
+export const updateClientSchema = insertClientSchema.omit({ createdBy: true }).partial();
+export const updateQuoteSchema = insertQuoteSchema.omit({ createdBy: true }).partial();
+export const updateMeetingSchema = insertMeetingSchema.omit({ createdBy: true }).partial();
 export const insertDocumentSchema = createInsertSchema(documents).omit({ 
   id: true, 
   createdAt: true 
 });
 
+export const insertClientContactSchema = createInsertSchema(clientContacts, {
+  role: z.enum(contactRoles),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  email: optionalMatch(/^[^\s@]+@[^\s@]+$/, "Enter a valid email address"),
+  phone: optionalText(50),
+  notes: optionalText(2000),
+}).omit({
+  id: true,
+  clientId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertClientInteractionSchema = createInsertSchema(clientInteractions, {
+  type: z.enum(interactionTypes),
+  body: z.string().trim().min(1, "Write what was discussed").max(20000),
+  occurredAt: z.coerce.date().refine((date) => date <= new Date(), "Interactions can't be logged ahead of time").optional(),
+  followUpOn: optionalMatch(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD"),
+}).omit({
+  id: true,
+  clientId: true,
+  authorId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const clientRelationshipSchema = z.object({
+  type: z.enum(relationshipTypes),
+  relatedClientId: z.string().min(1, "Choose a client"),
+  // false when the chosen client is the first in the link, e.g. the trustee of this trust
+  outgoing: z.boolean().default(true),
+});
+
+// Query string of GET /api/clients/:id/timeline, e.g. ?kinds=quote,meeting&limit=20
+export const timelineQuerySchema = z.object({
+  kinds: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",") : [...timelineEventKinds]))
+    .pipe(z.array(z.enum(timelineEventKinds)).min(1)),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Links an uploaded document to one of the client's FICA requirements
+export const kycSubmissionSchema = z.object({
+  requirement: z.enum(kycRequirementTypes),
+  documentId: z.string().min(1, "Choose a document"),
+  documentDate: z.coerce.date().refine((date) => date <= new Date(), "The document date can't be in the future"),
+  expiresAt: z.coerce.date().nullish(),
+});
+
+export const kycReviewSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserSummary = Omit<User, "passwordHash" | "totpSecret">;
+export type UserAccess = z.infer<typeof userAccessSchema>;
+export type UserProfile = z.infer<typeof userProfileSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UserToken = typeof userTokens.$inferSelect;
+export type UserRecoveryCode = typeof userRecoveryCodes.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
+export type AuthFlow = typeof authFlows.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type UserInvite = typeof userInvites.$inferSelect;
+export type InsertUserInvite = typeof userInvites.$inferInsert;
+export type SignupDomain = typeof signupDomains.$inferSelect;
+export type InsertSignupDomain = typeof signupDomains.$inferInsert;
+export type Role = typeof roles.$inferSelect;
+export type RoleWithPermissions = Role & { permissions: Permission[] };
+export type Branch = typeof branches.$inferSelect;
+export type InsertBranch = z.infer<typeof insertBranchSchema>;
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+// Quote columns computed by the server, never accepted from the client
+export type QuoteComputedFields = Pick<typeof quotes.$inferInsert, "projections" | "taxRate">;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+export type QuoteStatusChange = typeof quoteStatusHistory.$inferSelect;
+export type QuoteShareLink = typeof quoteShareLinks.$inferSelect;
+export type QuoteResponse = typeof quoteResponses.$inferSelect;
+export type InsertQuoteResponse = typeof quoteResponses.$inferInsert;
+export type QuoteResponseInput = z.infer<typeof quoteResponseSchema>;
+export type NumberSequence = typeof numberSequences.$inferSelect;
+export type NumberSequenceSettings = z.infer<typeof numberSequenceSettingsSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type QuoteStatusChangeWithUser = QuoteStatusChange & { changedByName: string | null };
 export type Quote = typeof quotes.$inferSelect;
+export type QuoteLineItem = z.infer<typeof quoteLineItemSchema>;
+export type PlanInputs = z.infer<typeof planInputsSchema>;
+export type Organisation = typeof organisations.$inferSelect;
+export type SecurityPolicy = z.infer<typeof securityPolicySchema>;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
 export type InsertMeeting = z.infer<typeof insertMeetingSchema>;
 export type Meeting = typeof meetings.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type ClientKycItem = typeof clientKycItems.$inferSelect;
+export type ClientKycItemWithDocument = ClientKycItem & { documentName: string };
+export type KycSubmission = z.infer<typeof kycSubmissionSchema>;
+export type ClientContact = typeof clientContacts.$inferSelect;
+export type InsertClientContact = z.infer<typeof insertClientContactSchema>;
+export type ClientRelationship = typeof clientRelationships.$inferSelect;
+export type ClientRelationshipInput = z.infer<typeof clientRelationshipSchema>;
+// A link as seen from one of its clients; relatedClient is null when the
+// other client belongs to someone the viewer can't see
+export type ClientRelationshipWithClient = ClientRelationship & {
+  direction: "outgoing" | "incoming";
+  relatedClient: Pick<Client, "id" | "name" | "clientType"> | null;
+};
+export type ClientInteraction = typeof clientInteractions.$inferSelect;
+export type InsertClientInteraction = z.infer<typeof insertClientInteractionSchema>;
+export type ClientInteractionWithAuthor = ClientInteraction & { authorName: string | null };
+export interface ClientHousehold {
+  members: { id: string; name: string; invested: number }[];
+  totalInvested: number;
+  hiddenMembers: number; // members the viewer can't see, left out of the total
+}
@@ -0,0 +1,44 @@
+// A client's activity timeline: everything that happened with the client,
+// gathered from the quote, meeting, document, interaction and client status
+// tables, newest first.
+
+export const timelineEventKinds = ["quote", "meeting", "document", "note", "status"] as const;
+export type TimelineEventKind = typeof timelineEventKinds[number];
+
+export const timelineEventKindLabels: Record<TimelineEventKind, string> = {
+  quote: "Quotes",
+  meeting: "Meetings",
+  document: "Documents",
+  note: "Notes",
+  status: "Status",
+};
+
+export interface TimelineEvent {
+  id: string; // "<kind>:<id of the row>", unique across kinds
+  kind: TimelineEventKind;
+  at: Date | string;
+  subjectId: string; // the quote, meeting, document, interaction or client the event is about
+  title: string;
+  detail: string | null;
+  fromStatus: string | null; // quote and status events only; null when the quote or client was created
+  toStatus: string | null;
+  actorName: string | null;
+}
+
+// Where the next page starts: the last event of the page before. Events are
+// ordered by time, then by id, so the position is exact even when several
+// events share a timestamp.
+export interface TimelineCursor {
+  at: Date;
+  id: string;
+}
+
+// Newest first, ties broken by id in descending order. Ids are compared by
+// code unit, as the database compares them in binary.
+export function compareTimelineEvents(a: TimelineEvent, b: TimelineEvent): number {
+  const byTime = new Date(b.at).getTime() - new Date(a.at).getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}